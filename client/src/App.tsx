@@ -11,6 +11,7 @@ import AskPage from "@/pages/ask";
 import ChartsPage from "@/pages/charts";
 import MonitorPage from "@/pages/monitor";
 import AlertsPage from "@/pages/alerts";
+import AutomationsPage from "@/pages/automations";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -24,6 +25,7 @@ function Router() {
       <Route path="/charts" component={ChartsPage} />
       <Route path="/monitor" component={MonitorPage} />
       <Route path="/alerts" component={AlertsPage} />
+      <Route path="/automations" component={AutomationsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from "react";
+
+type Progress = {
+  runId: number;
+  trigger: string;
+  status: "running" | "done" | "failed" | "blocked";
+  startedAt: string;
+  finishedAt: string | null;
+  devicesTotal: number;
+  devicesDone: number;
+  currentDevice: string | null;
+  gaps: number;
+  healthInserted: number;
+  energyInserted: number;
+  apiCalls: number;
+  error: string | null;
+};
+
+type Run = {
+  id: number;
+  trigger: string;
+  status: string;
+  startedAt: string;
+  gaps: number;
+  healthInserted: number;
+  energyInserted: number;
+  apiCalls: number;
+  error: string | null;
+};
+
+export default function BackfillPanel() {
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [msg, setMsg] = useState("");
+
+  async function load() {
+    const j = await fetch("/api/backfill/status").then((r) => r.json());
+    if (j.ok) {
+      setProgress(j.progress);
+      setRuns(j.runs);
+    }
+  }
+
+  // poll quickly while a pass is running
+  const running = progress?.status === "running";
+  useEffect(() => {
+    load();
+    const t = setInterval(load, running ? 2000 : 15000);
+    return () => clearInterval(t);
+  }, [running]);
+
+  async function start() {
+    setMsg("Starting…");
+    const j = await fetch("/api/backfill/run", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    }).then((r) => r.json());
+    setMsg(j.ok ? "" : j.error || "Failed to start");
+    if (j.progress) setProgress(j.progress);
+  }
+
+  const pct = progress && progress.devicesTotal > 0 ? Math.round((progress.devicesDone / progress.devicesTotal) * 100) : 0;
+
+  return (
+    <div>
+      {progress && (
+        <div className="text-sm mt-2 space-y-1">
+          <div>
+            Run #{progress.runId} ({progress.trigger}):{" "}
+            <span className={progress.status === "failed" || progress.status === "blocked" ? "text-red-600 font-medium" : "font-medium"}>
+              {progress.status}
+            </span>
+          </div>
+          {running && (
+            <>
+              <div className="h-2 rounded bg-gray-200 overflow-hidden">
+                <div className="h-full bg-black" style={{ width: `${pct}%` }} />
+              </div>
+              <div className="text-xs text-gray-600">
+                {progress.devicesDone}/{progress.devicesTotal} device(s){progress.currentDevice ? ` · now ${progress.currentDevice}` : ""}
+              </div>
+            </>
+          )}
+          <div className="text-xs text-gray-600">
+            {progress.gaps} gap(s) · {progress.healthInserted} health + {progress.energyInserted} energy sample(s) recovered · {progress.apiCalls} Tuya call(s)
+          </div>
+          {progress.error && <div className="text-xs text-red-600">{progress.error}</div>}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 mt-3">
+        <button disabled={running} onClick={start} className="px-3 py-2 rounded bg-black text-white disabled:opacity-50">
+          {running ? "Backfilling…" : "Backfill now"}
+        </button>
+        <span className="text-sm">{msg}</span>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="mt-3 text-xs space-y-1">
+          <div className="font-medium">Recent runs</div>
+          {runs.slice(0, 5).map((r) => (
+            <div key={r.id}>
+              {new Date(r.startedAt).toLocaleString()} — {r.trigger} — {r.status} — {r.gaps} gap(s), {r.healthInserted + r.energyInserted} sample(s), {r.apiCalls} call(s)
+              {r.error ? ` (${r.error})` : ""}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Area, Line, Legend } from "recharts";
+import { getSeries } from "@/lib/api";
+
+interface ElectricalChartsProps {
+  deviceId: string;
+}
+
+type Metric = "voltage" | "current" | "pf";
+type Gran = "raw" | "1m" | "15m" | "1h";
+
+const METRICS: Array<{ key: Metric; label: string; unit: string; digits: number }> = [
+  { key: "voltage", label: "Voltage", unit: "V", digits: 1 },
+  { key: "current", label: "Current", unit: "A", digits: 2 },
+  { key: "pf", label: "Power Factor", unit: "", digits: 2 },
+];
+
+// Each granularity with the span it is charted over
+const GRANS: Array<{ key: Gran; label: string; rangeLabel: string; hours: number }> = [
+  { key: "raw", label: "Raw", rangeLabel: "Last 24 Hours", hours: 24 },
+  { key: "1m", label: "1 min", rangeLabel: "Last 24 Hours", hours: 24 },
+  { key: "15m", label: "15 min", rangeLabel: "Last 7 Days", hours: 7 * 24 },
+  { key: "1h", label: "1 hour", rangeLabel: "Last 30 Days", hours: 30 * 24 },
+];
+
+/**
+ * Voltage, current or power factor at any granularity. Rollups draw the
+ * window average with its min-max band and 95th percentile; raw draws samples.
+ */
+export function ElectricalCharts({ deviceId }: ElectricalChartsProps) {
+  const [metric, setMetric] = useState<Metric>("voltage");
+  const [gran, setGran] = useState<Gran>("15m");
+  const m = METRICS.find(x => x.key === metric)!;
+  const g = GRANS.find(x => x.key === gran)!;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["series-electrical", deviceId, metric, gran],
+    queryFn: () => getSeries(deviceId, metric, gran, "", {
+      start: new Date(Date.now() - g.hours * 60 * 60 * 1000).toISOString(),
+    }),
+  });
+
+  const round = (v: number | null | undefined) => (v == null ? null : Number(v.toFixed(m.digits)));
+
+  const rows = useMemo(() => {
+    return (data?.data ?? []).map((p: any) => {
+      const d = new Date(p.t);
+      return {
+        time: g.hours > 24
+          ? d.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+          : d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        avg: round(p.avg ?? p.v),
+        p95: round(p.p95),
+        range: p.min != null && p.max != null ? [round(p.min), round(p.max)] : null,
+      };
+    });
+  }, [data, metric, gran]);
+
+  const format = (value: any) => {
+    const text = Array.isArray(value) ? `${value[0]} – ${value[1]}` : String(value);
+    return m.unit ? `${text} ${m.unit}` : text;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between flex-wrap gap-2">
+          <span>{m.label} — {g.rangeLabel}</span>
+          <div className="flex gap-1 flex-wrap">
+            {METRICS.map(x => (
+              <Button key={x.key} size="sm" variant={metric === x.key ? "default" : "outline"} onClick={() => setMetric(x.key)}>
+                {x.label}
+              </Button>
+            ))}
+            <span className="w-2" />
+            {GRANS.map(x => (
+              <Button key={x.key} size="sm" variant={gran === x.key ? "default" : "outline"} onClick={() => setGran(x.key)}>
+                {x.label}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+        <CardDescription>
+          {gran === "raw"
+            ? `Every sample of the device total${m.unit ? ` (${m.unit})` : ""}`
+            : `${g.label} average with the min–max range and 95th percentile of each window${m.unit ? ` (${m.unit})` : ""}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : rows.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">No {m.label.toLowerCase()} data for this period</div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" minTickGap={24} />
+                <YAxis domain={["auto", "auto"]} />
+                <Tooltip formatter={(value, name) => [format(value), String(name)]} />
+                <Legend />
+                {gran !== "raw" && (
+                  <Area type="monotone" dataKey="range" name="Min–max" stroke="none" fill="#3b82f6" fillOpacity={0.15} connectNulls />
+                )}
+                <Line type="monotone" dataKey="avg" name={gran === "raw" ? m.label : "Average"} stroke="#3b82f6" strokeWidth={1.5} dot={false} connectNulls />
+                {gran !== "raw" && (
+                  <Line type="monotone" dataKey="p95" name="95th percentile" stroke="#f3a712" strokeWidth={1} strokeDasharray="4 4" dot={false} connectNulls />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
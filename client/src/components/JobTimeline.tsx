@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ListChecks } from "lucide-react";
+
+interface JobRun {
+  id: string;
+  job: string;
+  trigger: string;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  status: "running" | "ok" | "partial" | "failed";
+  counts: Record<string, any> | null;
+  error: string | null;
+}
+
+const JOBS = [
+  { job: "poller", label: "Poller" },
+  { job: "rollup", label: "Rollups" },
+  { job: "daily-kwh", label: "Daily kWh" },
+  { job: "retention", label: "Retention" },
+  { job: "rollup-recompute", label: "Recompute" },
+];
+
+const WINDOWS = [
+  { label: "1h", ms: 60 * 60 * 1000 },
+  { label: "6h", ms: 6 * 60 * 60 * 1000 },
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  ok: "bg-green-500",
+  partial: "bg-yellow-500",
+  failed: "bg-red-600",
+  running: "bg-blue-500 animate-pulse",
+};
+
+function describeRun(r: JobRun) {
+  const when = new Date(r.startedAt).toLocaleString();
+  const duration = r.durationMs != null ? `${(r.durationMs / 1000).toFixed(1)}s` : "still running";
+  const counts = r.counts ? `\n${JSON.stringify(r.counts)}` : "";
+  const error = r.error ? `\n${r.error}` : "";
+  return `${r.job} (${r.trigger}) — ${r.status}\n${when}, ${duration}${counts}${error}`;
+}
+
+/**
+ * Background job runs (poller cycles, rollups, daily kWh, retention) as one
+ * lane per job over a time window, with failed and partial runs listed below.
+ */
+export function JobTimeline() {
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  const [runs, setRuns] = useState<Record<string, JobRun[]>>({});
+  const [status, setStatus] = useState<any>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const load = async () => {
+    const since = new Date(Date.now() - windowMs).toISOString();
+    const [st, ...perJob] = await Promise.all([
+      fetch("/api/jobs/status").then(r => r.json()),
+      ...JOBS.map(j => fetch(`/api/jobs?job=${j.job}&since=${encodeURIComponent(since)}&limit=1000`).then(r => r.json())),
+    ]);
+    if (st.ok) setStatus(st);
+    const next: Record<string, JobRun[]> = {};
+    JOBS.forEach((j, i) => { next[j.job] = perJob[i]?.ok ? perJob[i].runs : []; });
+    setRuns(next);
+    setNow(Date.now());
+  };
+
+  useEffect(() => {
+    load().catch(() => {});
+    const t = setInterval(() => load().catch(() => {}), 30000);
+    return () => clearInterval(t);
+  }, [windowMs]);
+
+  const start = now - windowMs;
+  const position = (iso: string) => Math.max(0, Math.min(100, ((new Date(iso).getTime() - start) / windowMs) * 100));
+
+  const problems = Object.values(runs).flat()
+    .filter(r => r.status === "failed" || r.status === "partial")
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, 20);
+
+  const supervisor = status?.supervisor;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <ListChecks className="h-5 w-5" />
+            <span>Background Jobs</span>
+            {supervisor && (
+              <Badge variant={supervisor.healthy ? "outline" : "destructive"} data-testid="supervisor-status">
+                Poller supervisor {!supervisor.healthy ? (supervisor.started ? "stalled" : "not started") : supervisor.standby ? "standby" : "running"}
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex gap-1">
+            {WINDOWS.map(w => (
+              <Button key={w.label} size="sm" variant={w.ms === windowMs ? "default" : "outline"} onClick={() => setWindowMs(w.ms)}>
+                {w.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {JOBS.map(j => {
+            const summary = status?.jobs?.find((s: any) => s.job === j.job);
+            return (
+              <div key={j.job} className="flex items-center gap-3">
+                <div className="w-24 shrink-0 text-sm">
+                  <div className="font-medium">{j.label}</div>
+                  <div className={`text-xs ${summary?.failures24h ? "text-red-600" : "text-muted-foreground"}`}>
+                    {summary ? `${summary.failures24h}/${summary.runs24h} failed (24h)` : "—"}
+                  </div>
+                </div>
+                <div className="relative h-6 flex-1 rounded bg-muted" data-testid={`job-lane-${j.job}`}>
+                  {(runs[j.job] ?? []).map(r => (
+                    <div
+                      key={r.id}
+                      title={describeRun(r)}
+                      className={`absolute top-0.5 bottom-0.5 rounded-sm ${STATUS_COLORS[r.status] ?? "bg-gray-400"} ${r.status === "ok" ? "opacity-70" : "z-10"}`}
+                      style={{
+                        left: `${position(r.startedAt)}%`,
+                        width: `max(3px, ${position(r.finishedAt ?? new Date(now).toISOString()) - position(r.startedAt)}%)`,
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex justify-between pl-28 text-xs text-muted-foreground">
+            <span>{new Date(start).toLocaleString()}</span>
+            <span>now</span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {Object.entries(STATUS_COLORS).map(([s, cls]) => (
+            <span key={s} className="flex items-center gap-1"><span className={`inline-block h-3 w-3 rounded-sm ${cls}`} />{s}</span>
+          ))}
+        </div>
+
+        {supervisor?.lastError && (
+          <div className="text-sm text-red-600">
+            Last supervisor error ({new Date(supervisor.lastError.at).toLocaleString()}): {supervisor.lastError.message}
+          </div>
+        )}
+
+        {problems.length > 0 ? (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Failed / partial runs</div>
+            {problems.map(r => (
+              <div key={r.id} className={`text-sm border rounded p-2 ${r.status === "failed" ? "border-red-300 bg-red-50 dark:bg-red-900/20" : "border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20"}`}>
+                <div className="font-medium">
+                  {new Date(r.startedAt).toLocaleString()} — {r.job} ({r.trigger}) — {r.status}
+                  {r.durationMs != null && <span className="font-normal text-muted-foreground"> in {(r.durationMs / 1000).toFixed(1)}s</span>}
+                </div>
+                {r.error && <pre className="text-xs whitespace-pre-wrap font-mono mt-1">{r.error}</pre>}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No failed runs in this window.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend, ReferenceLine } from "recharts";
+import { getSeries, getSeriesChannels } from "@/lib/api";
+
+interface PhaseChartsProps {
+  deviceId: string;
+}
+
+const CHANNEL_COLORS = ["#e4572e", "#f3a712", "#3b82f6", "#29bf12", "#a855f7", "#64748b"];
+
+// Imbalance above this is worth a look on most three-phase installations
+const IMBALANCE_WARN_PCT = 10;
+
+// Windows covered less than this by samples are drawn as hollow dots (matches the server's lowConfidence flag)
+const LOW_COVERAGE_PCT = 50;
+
+function channelLabel(channel: string) {
+  return /^[ABC]$/.test(channel) ? `Phase ${channel}` : `Outlet ${channel}`;
+}
+
+/**
+ * Per-phase (three-phase meters) or per-outlet (multi-channel strips) power
+ * for the last 24 hours, plus phase imbalance. Renders nothing for single-channel devices.
+ */
+export function PhaseCharts({ deviceId }: PhaseChartsProps) {
+  const { data: channelsData } = useQuery({
+    queryKey: ["series-channels", deviceId],
+    queryFn: () => getSeriesChannels(deviceId),
+  });
+  const channels: string[] = channelsData?.channels ?? [];
+  const threePhase = channelsData?.threePhase ?? false;
+
+  const { data: channelPower, isLoading: powerLoading } = useQuery({
+    queryKey: ["series-channel-power", deviceId, channels.join(",")],
+    queryFn: () => Promise.all(channels.map(c => getSeries(deviceId, "power", "15m", c))),
+    enabled: channels.length > 0,
+  });
+
+  const { data: imbalanceData, isLoading: imbalanceLoading } = useQuery({
+    queryKey: ["series-imbalance", deviceId],
+    queryFn: () => getSeries(deviceId, "imbalance", "15m"),
+    enabled: threePhase,
+  });
+
+  // Merge the per-channel series into one row per window: { time, A, B, C }
+  const powerRows = useMemo(() => {
+    if (!channelPower) return [];
+    const rows = new Map<string, any>();
+    channelPower.forEach((series: any, i: number) => {
+      for (const p of series?.data ?? []) {
+        const row = rows.get(p.t) ?? { t: p.t, time: new Date(p.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) };
+        row[channels[i]] = p.v;
+        if (p.lowConfidence) row[`${channels[i]}_cov`] = Math.round((p.coverage ?? 0) * 100);
+        rows.set(p.t, row);
+      }
+    });
+    return Array.from(rows.values()).sort((a, b) => a.t.localeCompare(b.t));
+  }, [channelPower]);
+
+  const imbalanceRows = useMemo(() => {
+    return (imbalanceData?.data ?? [])
+      .filter((p: any) => p.v !== null)
+      .map((p: any) => ({
+        time: new Date(p.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        imbalance: Math.round(p.v * 10) / 10,
+      }));
+  }, [imbalanceData]);
+
+  if (channels.length === 0) return null;
+
+  // Mark low-coverage windows only; a dot on every point would bury the line
+  const coverageDot = (channel: string, color: string) => (props: any) => {
+    const { cx, cy, payload, key } = props;
+    if (payload?.[`${channel}_cov`] === undefined || cx == null || cy == null) return <g key={key} />;
+    return <circle key={key} cx={cx} cy={cy} r={3} fill="white" stroke={color} strokeWidth={1.5} />;
+  };
+
+  const latestImbalance = imbalanceRows.length > 0 ? imbalanceRows[imbalanceRows.length - 1].imbalance : null;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{threePhase ? "Per-Phase Power" : "Per-Outlet Power"} — Last 24 Hours</CardTitle>
+          <CardDescription>
+            15-minute average power by {threePhase ? "phase" : "outlet"} (W). Hollow dots mark windows less than {LOW_COVERAGE_PCT}% covered by samples.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {powerLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : powerRows.length === 0 ? (
+            <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">No per-channel rollups yet</div>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={powerRows}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" />
+                  <YAxis />
+                  <Tooltip
+                    formatter={(value, name, item: any) => {
+                      const cov = item?.payload?.[`${name}_cov`];
+                      return [cov !== undefined ? `${value} W (${cov}% covered)` : `${value} W`, channelLabel(String(name))];
+                    }}
+                  />
+                  <Legend formatter={(value) => channelLabel(String(value))} />
+                  {channels.map((c, i) => (
+                    <Line
+                      key={c}
+                      type="monotone"
+                      dataKey={c}
+                      stroke={CHANNEL_COLORS[i % CHANNEL_COLORS.length]}
+                      strokeWidth={1.5}
+                      dot={coverageDot(c, CHANNEL_COLORS[i % CHANNEL_COLORS.length])}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {threePhase && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span>Phase Imbalance — Last 24 Hours</span>
+              {latestImbalance !== null && (
+                <Badge variant={latestImbalance > IMBALANCE_WARN_PCT ? "destructive" : "outline"}>
+                  {latestImbalance}%
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>Largest deviation of a phase from the average phase load (%)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {imbalanceLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : imbalanceRows.length === 0 ? (
+              <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">No imbalance data yet</div>
+            ) : (
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={imbalanceRows}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" />
+                    <YAxis unit="%" />
+                    <Tooltip formatter={(value) => [`${value}%`, 'Imbalance']} />
+                    <ReferenceLine y={IMBALANCE_WARN_PCT} stroke="#ef4444" strokeDasharray="4 4" />
+                    <Line type="monotone" dataKey="imbalance" stroke="#8884d8" strokeWidth={1.5} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ResponsiveContainer, LineChart, Line, YAxis } from "recharts";
+import { Thermometer } from "lucide-react";
+
+interface SensorMetric {
+  key: string;
+  label: string;
+  kind: "number" | "state";
+  unit: string;
+  widget: "gauge" | "state" | "battery";
+  states?: [string, string];
+  value: number;
+}
+
+interface Sensor {
+  deviceId: string;
+  name: string;
+  category: string;
+  categoryName: string;
+  online: boolean;
+  lastSeenUtc: string | null;
+  metrics: SensorMetric[];
+}
+
+// Active states that mean something is wrong (vs. merely "open" or "motion")
+const ALARM_METRICS = ["leakDetected", "smokeDetected"];
+
+function Sparkline({ deviceId, metric }: { deviceId: string; metric: string }) {
+  const { data } = useQuery<any>({
+    queryKey: [`/api/sensors/series?deviceId=${encodeURIComponent(deviceId)}&metric=${metric}&gran=raw`],
+    refetchInterval: 5 * 60 * 1000,
+  });
+  const points = data?.data ?? [];
+  if (points.length < 2) return null;
+  return (
+    <div className="h-10 w-28">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Line type="monotone" dataKey="v" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function MetricWidget({ deviceId, metric }: { deviceId: string; metric: SensorMetric }) {
+  if (metric.widget === "state") {
+    const active = metric.value === 1;
+    const label = metric.states?.[active ? 1 : 0] ?? (active ? "On" : "Off");
+    const variant = active && ALARM_METRICS.includes(metric.key) ? "destructive" : active ? "default" : "outline";
+    return (
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{metric.label}</span>
+        <Badge variant={variant} data-testid={`sensor-${deviceId}-${metric.key}`}>{label}</Badge>
+      </div>
+    );
+  }
+
+  if (metric.widget === "battery") {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">{metric.label}</span>
+          <span className={metric.value < 20 ? "text-red-600" : "text-muted-foreground"}>{Math.round(metric.value)}%</span>
+        </div>
+        <Progress value={metric.value} className="h-2" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <div className="text-sm font-medium">{metric.label}</div>
+        <div className="text-2xl font-bold" data-testid={`sensor-${deviceId}-${metric.key}`}>
+          {Number(metric.value.toFixed(1))} <span className="text-sm font-normal text-muted-foreground">{metric.unit}</span>
+        </div>
+      </div>
+      <Sparkline deviceId={deviceId} metric={metric.key} />
+    </div>
+  );
+}
+
+/**
+ * Dashboard cards for non-energy sensors (temperature/humidity, contacts,
+ * leak, smoke, ...). Renders nothing when the account has no sensors.
+ */
+export function SensorWidgets() {
+  const { data } = useQuery<any>({
+    queryKey: ["/api/sensors/latest"],
+    refetchInterval: 30000,
+  });
+  const sensors: Sensor[] = data?.sensors ?? [];
+  if (sensors.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+        <Thermometer className="h-5 w-5" />
+        <span>Sensors</span>
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {sensors.map((s) => (
+          <Card key={s.deviceId} className="shadow-sm" data-testid={`sensor-card-${s.deviceId}`}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-base">{s.name}</CardTitle>
+                  <p className="text-xs text-muted-foreground">{s.categoryName}</p>
+                </div>
+                <Badge variant="outline" className={s.online ? "text-green-700" : "text-red-700"}>
+                  {s.online ? "Online" : "Offline"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {s.metrics.map((m) => <MetricWidget key={m.key} deviceId={s.deviceId} metric={m} />)}
+              {s.metrics.length === 0 && <p className="text-sm text-muted-foreground">No readings reported yet</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend } from "recharts";
+import { PieChart as PieIcon } from "lucide-react";
+
+interface CallerBreakdown {
+  ok: boolean;
+  since: string;
+  callers: string[];
+  totals: Record<string, number>;
+  days: Array<{ day: string } & Record<string, number | string>>;
+}
+
+const CALLER_LABELS: Record<string, string> = {
+  poller: "Poller",
+  dashboard: "Live dashboard",
+  ask: "Ask",
+  debug: "Debug panel",
+  backfill: "Backfill",
+  automation: "Automations",
+  commands: "Device commands",
+  realtime: "Realtime",
+  accounts: "Account tests",
+  "dp-scales": "DP scales",
+  api: "Other API",
+  other: "Unattributed",
+};
+
+const CALLER_COLORS: Record<string, string> = {
+  poller: "#2563eb",
+  dashboard: "#16a34a",
+  ask: "#9333ea",
+  debug: "#f59e0b",
+  backfill: "#0891b2",
+  automation: "#db2777",
+  commands: "#ea580c",
+  realtime: "#65a30d",
+  accounts: "#64748b",
+  "dp-scales": "#a16207",
+  api: "#6b7280",
+  other: "#d1d5db",
+};
+
+const RANGES = [7, 14, 30];
+
+/**
+ * Tuya API calls per day, stacked by the feature that made them, with totals
+ * for the range — shows what is eating the monthly quota.
+ */
+export function TuyaCallerBreakdown() {
+  const [days, setDays] = useState(14);
+  const { data } = useQuery<CallerBreakdown>({
+    queryKey: [`/api/tuya/counters/callers?days=${days}`],
+    refetchInterval: 60000,
+  });
+  const callers = data?.callers ?? [];
+  const total = Object.values(data?.totals ?? {}).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <PieIcon className="h-5 w-5" />
+            <span>Tuya Calls by Caller</span>
+          </CardTitle>
+          <div className="flex gap-1">
+            {RANGES.map(d => (
+              <Button key={d} size="sm" variant={d === days ? "default" : "outline"} onClick={() => setDays(d)}>
+                {d}d
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {total === 0 ? (
+          <div className="text-sm text-muted-foreground">No Tuya calls recorded in this range.</div>
+        ) : (
+          <>
+            <div className="h-56 w-full" data-testid="tuya-caller-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data?.days ?? []}>
+                  <XAxis dataKey="day" tickFormatter={(d: string) => d.slice(5)} tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} width={48} />
+                  <Tooltip />
+                  <Legend />
+                  {callers.map(c => (
+                    <Bar key={c} dataKey={c} name={CALLER_LABELS[c] ?? c} stackId="calls" fill={CALLER_COLORS[c] ?? "#9ca3af"} isAnimationActive={false} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              {callers.map(c => (
+                <div key={c} className="flex items-center justify-between border rounded px-2 py-1" data-testid={`tuya-caller-${c}`}>
+                  <span className="flex items-center gap-2">
+                    <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: CALLER_COLORS[c] ?? "#9ca3af" }} />
+                    {CALLER_LABELS[c] ?? c}
+                  </span>
+                  <span className="font-medium">
+                    {data!.totals[c].toLocaleString()}
+                    <span className="text-xs text-muted-foreground"> ({((data!.totals[c] / total) * 100).toFixed(0)}%)</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
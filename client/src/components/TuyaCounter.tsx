@@ -1,4 +1,19 @@
 import React, { useEffect, useState } from "react";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip } from "recharts";
+
+type Resilience = {
+  breaker: { state: "closed" | "open" | "half-open"; retryAt: string | null; lastError: string | null };
+  stats: { retries: number; tokenRefreshes: number; rejectedWhileOpen: number };
+};
+
+type AccountSnapshot = {
+  accountId: string;
+  name: string;
+  endpoint: string;
+  total?: number;
+  sinceReset?: number;
+  resilience: Resilience | null;
+};
 
 type Snapshot = {
   total: number;
@@ -8,14 +23,64 @@ type Snapshot = {
   sinceReset: number;
   resetAt: string | null;
   lastPingAt: string | null;
+  resilience?: Resilience;
+  accounts?: AccountSnapshot[];
+};
+
+type Quota = {
+  quota: number;
+  limit: number;
+  used: number;
+  projected: number;
+  projectedAtCap: number;
+  plannedPerHour: number;
+  recentPerHour: number;
+  overQuota: boolean;
+  throttled: boolean;
+  callsPerHourCap: number | null;
+  action: "stretch" | "warn" | "off";
+  burnDown: Array<{ day: string; ideal: number; remaining: number | null; projected: number | null }>;
 };
 
+const QUOTA_REFRESH_MS = 60000;
+
+function QuotaBurnDown({ q }: { q: Quota }) {
+  const pct = Math.min(100, (q.used / q.quota) * 100);
+  return (
+    <div className="mt-1 flex flex-col gap-1" data-testid="tuya-quota">
+      <div className="text-xs font-semibold">Monthly quota</div>
+      <div className="text-xs">
+        {q.used.toLocaleString()} / {q.quota.toLocaleString()} ({pct.toFixed(1)}%)
+      </div>
+      <div className={`text-xs ${q.overQuota ? "text-red-600 font-semibold" : "opacity-80"}`}>
+        Projected: {q.projected.toLocaleString()} at {q.plannedPerHour.toFixed(0)} calls/h
+        {q.throttled && q.callsPerHourCap != null && (
+          <> · throttled to {Math.floor(q.callsPerHourCap)} calls/h ({q.projectedAtCap.toLocaleString()})</>
+        )}
+      </div>
+      <div className="h-32 w-full md:w-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={q.burnDown} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+            <XAxis dataKey="day" tickFormatter={(d: string) => d.slice(8)} tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+            <YAxis tick={{ fontSize: 10 }} width={44} tickFormatter={(v: number) => (v >= 1000 ? `${Math.round(v / 1000)}k` : String(v))} />
+            <Tooltip formatter={(v: number) => v.toLocaleString()} />
+            <Line dataKey="ideal" name="Ideal" stroke="#9ca3af" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            <Line dataKey="remaining" name="Remaining" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line dataKey="projected" name="Projected" stroke={q.overQuota ? "#dc2626" : "#16a34a"} strokeDasharray="2 2" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
 export default function TuyaCounter({ refreshMs = 5000 }: { refreshMs?: number }) {
   const [snap, setSnap] = useState<Snapshot | null>(null);
   const [loading, setLoading] = useState(true);
   const [msg, setMsg] = useState("");
   const [prev, setPrev] = useState<{ t: number; total: number } | null>(null);
   const [rate, setRate] = useState<string>("");
+  const [quota, setQuota] = useState<Quota | null>(null);
 
   async function load() {
     setLoading(true);
@@ -41,12 +106,24 @@ export default function TuyaCounter({ refreshMs = 5000 }: { refreshMs?: number }
     setTimeout(() => setMsg(""), 1200);
   }
 
+  async function loadQuota() {
+    const r = await fetch("/api/tuya/counters/quota");
+    const j = await r.json();
+    setQuota(j.ok && j.quota > 0 ? j : null);
+  }
+
   useEffect(() => {
     load();
     const t = setInterval(load, refreshMs);
     return () => clearInterval(t);
   }, [refreshMs]);
 
+  useEffect(() => {
+    loadQuota().catch(() => {});
+    const t = setInterval(() => loadQuota().catch(() => {}), QUOTA_REFRESH_MS);
+    return () => clearInterval(t);
+  }, []);
+
   if (loading || !snap) return <div className="text-sm opacity-70">Tuya pings: loading…</div>;
 
   return (
@@ -60,6 +137,33 @@ export default function TuyaCounter({ refreshMs = 5000 }: { refreshMs?: number }
         <div>Logs: {snap.logsCount}</div>
         <div className="mt-1">Since reset: {snap.sinceReset}</div>
         {snap.lastPingAt && <div>Last: {new Date(snap.lastPingAt).toLocaleString()}</div>}
+        {quota && <QuotaBurnDown q={quota} />}
+        {snap.accounts && snap.accounts.length > 1 && (
+          <div className="mt-1">
+            {snap.accounts.map((a) => (
+              <div key={a.accountId} title={a.endpoint}>
+                {a.name}: {(a.total ?? 0).toLocaleString()}
+                {a.resilience && a.resilience.breaker.state !== "closed" && (
+                  <span className="text-red-600 font-semibold"> ({a.resilience.breaker.state})</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {snap.resilience && (
+          <div className="mt-1">
+            <div>
+              Circuit:{" "}
+              <span className={snap.resilience.breaker.state === "closed" ? "text-green-600" : "text-red-600 font-semibold"}>
+                {snap.resilience.breaker.state}
+              </span>
+            </div>
+            <div>Retries: {snap.resilience.stats.retries} · Token refreshes: {snap.resilience.stats.tokenRefreshes}</div>
+            {snap.resilience.breaker.state !== "closed" && snap.resilience.breaker.lastError && (
+              <div className="text-red-600 break-all">{snap.resilience.breaker.lastError}</div>
+            )}
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-2 mt-1">
         <button className="px-3 py-1 rounded bg-black text-white" onClick={onReset}>Reset</button>
@@ -5,7 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { X, RotateCcw, Download, Home, Play, Pause, Thermometer, Lightbulb, Zap, Gauge, History, Clock, Calendar, TrendingUp, Filter, BarChart3 } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { X, RotateCcw, Download, Home, Play, Pause, Power, Lock, Thermometer, Lightbulb, Zap, Gauge, History, Clock, Calendar, TrendingUp, Filter, BarChart3 } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { getDeviceHistory } from "@/lib/api";
 import type { TuyaDevice, TuyaDeviceStatus } from "@/lib/api";
@@ -36,6 +38,10 @@ export function DeviceStatusPanel({
   const [activeTab, setActiveTab] = useState("current");
   const [historyFilter, setHistoryFilter] = useState("all");
   const [historyView, setHistoryView] = useState<"timeline" | "charts">("timeline");
+  const [controlAllowed, setControlAllowed] = useState(false);
+  const [pendingSwitch, setPendingSwitch] = useState<boolean | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
   
   const deviceId = device.id || device.device_id || "";
   const deviceName = device.name || "Unknown Device";
@@ -61,6 +67,38 @@ export function DeviceStatusPanel({
     }
   }, [status, isLoading]);
   
+  // Whether this device may be switched from the app (device settings → Remote control)
+  useEffect(() => {
+    if (!deviceId) return;
+    fetch(`/api/devices/${deviceId}/control`)
+      .then((r) => r.json())
+      .then((j) => setControlAllowed(Boolean(j?.controlAllowed)))
+      .catch(() => setControlAllowed(false));
+  }, [deviceId]);
+
+  const sendSwitch = async (on: boolean) => {
+    setIsSending(true);
+    try {
+      const r = await fetch(`/api/devices/${deviceId}/commands`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-command-source": "ui" },
+        body: JSON.stringify({ commands: [{ code: "switch_1", value: on }], confirm: true }),
+      });
+      const j = await r.json();
+      if (j.ok) {
+        toast({ title: "Command sent", description: `${deviceName} switched ${on ? "on" : "off"}` });
+        onRefresh();
+      } else {
+        toast({ title: "Command failed", description: j.error || "Unknown error", variant: "destructive" });
+      }
+    } catch (error: any) {
+      toast({ title: "Command failed", description: error?.message || "Network error", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+      setPendingSwitch(null);
+    }
+  };
+
   // Load history when tab is switched
   const loadHistory = async () => {
     if (historyData) return; // Already loaded
@@ -96,7 +134,7 @@ export function DeviceStatusPanel({
       ...log,
       timeStr,
       relativeTime,
-      displayValue: formatValue(log.value, log.code)
+      displayValue: formatDp(log)
     };
   };
   
@@ -155,7 +193,7 @@ export function DeviceStatusPanel({
   
   const getChartData = () => {
     const logs = getHistoryLogs();
-    const numericLogs = logs.filter((log: any) => typeof log.value === "number");
+    const numericLogs = logs.filter((log: any) => typeof (log.scaledValue ?? log.value) === "number");
     
     // Group by data point code
     const groupedData: { [key: string]: any[] } = {};
@@ -172,7 +210,7 @@ export function DeviceStatusPanel({
           minute: '2-digit',
           hour12: false 
         }),
-        value: log.value,
+        value: log.scaledValue ?? log.value,
         displayValue: log.displayValue
       });
     });
@@ -206,6 +244,8 @@ export function DeviceStatusPanel({
     return Array.isArray(dataPoints) ? dataPoints : [];
   };
   
+  const switchDp = getDataPoints().find((dp: any) => dp.code === "switch_1");
+
   const getValueIcon = (code: string, type?: string) => {
     const codeStr = code?.toLowerCase() || "";
     if (codeStr.includes("temp") || codeStr.includes("temperature")) return Thermometer;
@@ -214,6 +254,14 @@ export function DeviceStatusPanel({
     return Gauge;
   };
   
+  // Prefer the server's scaling (from the device's DP specification) when present
+  const formatDp = (dp: { value: any; code: string; scaledValue?: number; unit?: string }) => {
+    if (typeof dp.scaledValue === "number") {
+      return dp.unit ? `${dp.scaledValue.toFixed(2)} ${dp.unit}` : dp.scaledValue.toFixed(2);
+    }
+    return formatValue(dp.value, dp.code);
+  };
+
   const formatValue = (value: any, code: string) => {
     if (typeof value === "boolean") {
       return value ? "ON" : "OFF";
@@ -221,23 +269,6 @@ export function DeviceStatusPanel({
     if (typeof value === "number") {
       const codeStr = code?.toLowerCase() || "";
       
-      // Specific electrical measurement fields
-      if (code === "cur_current") {
-        return `${(value / 1000).toFixed(2)} A`; // Convert mA to A
-      }
-      if (code === "cur_power") {
-        return `${(value / 10).toFixed(2)} W`; // Convert 0.1W units to W
-      }
-      if (code === "cur_voltage") {
-        return `${(value / 10).toFixed(2)} V`; // Convert 0.1V units to V
-      }
-      if (code === "add_ele") {
-        return `${(value / 1000).toFixed(2)} kWh`; // Convert Wh to kWh
-      }
-      if (code === "power_factor") {
-        return `${(value / 1000).toFixed(2)}`; // Convert to decimal and format to 2 places
-      }
-      
       // Generic handling for similar fields
       if (codeStr.includes("temp")) return `${value}°C`;
       if (codeStr.includes("humidity")) return `${value}%`;
@@ -330,13 +361,56 @@ export function DeviceStatusPanel({
                     {isOnline ? "Online" : "Offline"}
                   </Badge>
                 </div>
-                <div className="flex justify-between items-center py-2">
+                <div className="flex justify-between items-center py-2 border-b border-border">
                   <span className="text-sm text-muted-foreground">Last Updated</span>
                   <span className="text-sm text-muted-foreground">
                     {lastUpdate.toLocaleTimeString()}
                   </span>
                 </div>
+                {switchDp && (
+                  <div className="flex justify-between items-center py-2">
+                    <span className="text-sm text-muted-foreground flex items-center">
+                      <Power className="h-4 w-4 mr-1" />
+                      Power
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      {!controlAllowed && (
+                        <span className="text-xs text-muted-foreground flex items-center" title="Enable remote control in Device Settings">
+                          <Lock className="h-3 w-3 mr-1" />
+                          Control disabled
+                        </span>
+                      )}
+                      <Switch
+                        checked={switchDp.value === true}
+                        onCheckedChange={(on) => setPendingSwitch(on)}
+                        disabled={!controlAllowed || !isOnline || isSending}
+                        data-testid="switch-device-power"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
+
+              <AlertDialog open={pendingSwitch !== null} onOpenChange={(open) => !open && setPendingSwitch(null)}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Turn {deviceName} {pendingSwitch ? "on" : "off"}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This sends a command to the physical device. It is recorded in the command audit log.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isSending}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      disabled={isSending}
+                      onClick={() => pendingSwitch !== null && sendSwitch(pendingSwitch)}
+                      data-testid="button-confirm-command"
+                    >
+                      Turn {pendingSwitch ? "on" : "off"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
             </div>
             
             <div>
@@ -395,7 +469,7 @@ export function DeviceStatusPanel({
                             </div>
                             <div className="text-right">
                               <div className={`text-sm font-medium ${getValueColor(dp.value, dp.code)}`}>
-                                {formatValue(dp.value, dp.code)}
+                                {formatDp(dp)}
                               </div>
                               <div className="text-xs text-muted-foreground">
                                 {typeof dp.value === "object" ? "Object" : typeof dp.value}
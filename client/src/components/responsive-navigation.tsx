@@ -1,7 +1,7 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Menu, Home, BarChart3, Monitor, MessageSquare, Settings, Database, Bell, X } from "lucide-react";
+import { Menu, Home, BarChart3, Monitor, MessageSquare, Settings, Database, Bell, Zap, X } from "lucide-react";
 import { Link, useLocation } from "wouter";
 
 interface NavigationItem {
@@ -16,6 +16,7 @@ const navigationItems: NavigationItem[] = [
   { href: "/charts", label: "Charts", icon: BarChart3, testId: "nav-charts" },
   { href: "/monitor", label: "Monitor", icon: Monitor, testId: "nav-monitor" },
   { href: "/alerts", label: "Alerts", icon: Bell, testId: "nav-alerts" },
+  { href: "/automations", label: "Automations", icon: Zap, testId: "nav-automations" },
   { href: "/ask", label: "AI CHAT", icon: MessageSquare, testId: "nav-ask" },
   { href: "/settings", label: "Poller Settings", icon: Settings, testId: "nav-settings" },
   { href: "/settings/devices", label: "Device Settings", icon: Database, testId: "nav-device-settings" },
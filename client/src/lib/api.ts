@@ -99,6 +99,35 @@ export async function getPowerLast7d(deviceId: string): Promise<any> {
   return res.json();
 }
 
+// Per-phase / per-outlet series APIs
+export async function getSeriesChannels(deviceId: string): Promise<{ ok: boolean; channels: string[]; threePhase: boolean }> {
+  const res = await apiRequest("GET", `/api/series/channels?deviceId=${encodeURIComponent(deviceId)}`);
+  return res.json();
+}
+
+export async function getSeries(
+  deviceId: string, metric: string, gran: string, channel = "",
+  range: { start?: string; end?: string } = {}
+): Promise<any> {
+  const params = new URLSearchParams({ deviceId, metric, gran });
+  if (channel) params.append("channel", channel);
+  if (range.start) params.append("start", range.start);
+  if (range.end) params.append("end", range.end);
+  const res = await apiRequest("GET", `/api/series?${params}`);
+  return res.json();
+}
+
+// Sensor metrics (temperature, contact, ...) usable in alert and automation rules
+export async function getSensorMetricOptions(): Promise<Array<{ key: string; label: string; unit: string }>> {
+  const res = await apiRequest("GET", "/api/sensors/registry");
+  const json = await res.json();
+  const byKey = new Map<string, { key: string; label: string; unit: string }>();
+  for (const category of Object.values<any>(json?.categories ?? {})) {
+    for (const m of category.metrics) byKey.set(m.key, { key: m.key, label: m.label, unit: m.unit });
+  }
+  return Array.from(byKey.values());
+}
+
 // App Settings APIs
 export async function getAppSettings(): Promise<{ ok: boolean; pfSource: "tuya" | "calculated" }> {
   const res = await apiRequest("GET", "/api/app-settings");
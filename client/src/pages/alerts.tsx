@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { getSensorMetricOptions } from "@/lib/api";
 
 function urlBase64ToUint8Array(base64String: string) {
   const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
@@ -89,8 +90,10 @@ export default function AlertsPage() {
 
   // quick device helper from your devices endpoint
   const [devices, setDevices] = useState<any[]>([]);
+  const [sensorMetrics, setSensorMetrics] = useState<Array<{ key: string; label: string; unit: string }>>([]);
   useEffect(() => {
     fetch("/api/devices").then(r=>r.json()).then(j=> setDevices(j?.result?.devices || []));
+    getSensorMetricOptions().then(setSensorMetrics).catch(() => {});
   }, []);
 
   const subscribePush = async () => {
@@ -179,6 +182,7 @@ export default function AlertsPage() {
                 <SelectItem value="voltageV">voltageV</SelectItem>
                 <SelectItem value="currentA">currentA</SelectItem>
                 <SelectItem value="pfEst">pfEst</SelectItem>
+                {sensorMetrics.map(m=> <SelectItem key={m.key} value={m.key}>{m.label}{m.unit && ` (${m.unit})`} — sensors</SelectItem>)}
               </SelectContent>
             </Select>
             <Select value={form.op} onValueChange={v=>setForm({...form, op:v})}>
@@ -0,0 +1,199 @@
+// client/src/pages/automations.tsx
+import { useEffect, useState } from "react";
+import { PageLayout } from "@/components/page-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
+import { getSensorMetricOptions } from "@/lib/api";
+
+const emptyForm = {
+  name: "", triggerType: "metric", deviceId: "", metric: "powerW", op: ">", threshold: 2000, durationS: 600,
+  scheduleTime: "07:30", actionType: "command", actionDeviceId: "", switchOn: false, url: "", dryRun: true,
+};
+
+function buildAction(f: typeof emptyForm) {
+  if (f.actionType === "command") return { type: "command", deviceId: f.actionDeviceId || f.deviceId, commands: [{ code: "switch_1", value: f.switchOn }] };
+  if (f.actionType === "http") return { type: "http", url: f.url, method: "POST" };
+  return { type: "push", title: f.name };
+}
+
+function describeTrigger(r: any) {
+  return r.triggerType === "schedule"
+    ? `daily at ${r.scheduleTime} IST`
+    : `${r.deviceId} — ${r.metric} ${r.op} ${r.threshold} for ${r.durationS}s`;
+}
+
+function describeActions(actions: any[]) {
+  return (actions || []).map((a: any) =>
+    a.type === "command" ? `${a.deviceId}: ${a.commands.map((c: any) => `${c.code}=${c.value}`).join(", ")}`
+      : a.type === "http" ? `${a.method ?? "POST"} ${a.url}`
+      : "push"
+  ).join("; ");
+}
+
+export default function AutomationsPage() {
+  const [rules, setRules] = useState<any[]>([]);
+  const [runs, setRuns] = useState<any[]>([]);
+  const [form, setForm] = useState<any>(emptyForm);
+  const [devices, setDevices] = useState<any[]>([]);
+  const [sensorMetrics, setSensorMetrics] = useState<Array<{ key: string; label: string; unit: string }>>([]);
+
+  const load = async () => {
+    const r1 = await fetch("/api/automations/rules").then(r=>r.json());
+    const r2 = await fetch("/api/automations/runs").then(r=>r.json());
+    if (r1.ok) setRules(r1.rules);
+    if (r2.ok) setRuns(r2.runs);
+  };
+
+  useEffect(() => {
+    load();
+    fetch("/api/devices").then(r=>r.json()).then(j=> setDevices(j?.result?.devices || []));
+    getSensorMetricOptions().then(setSensorMetrics).catch(() => {});
+  }, []);
+
+  const create = async () => {
+    const { actionType, actionDeviceId, switchOn, url, ...rule } = form;
+    const body = { ...rule, actions: [buildAction(form)] };
+    const res = await fetch("/api/automations/rules", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }).then(r=>r.json());
+    if (res.ok) { setForm({ ...form, name: "" }); load(); }
+    else alert(res.error || "Failed");
+  };
+  const update = async (id: number, patch: any) => {
+    const res = await fetch(`/api/automations/rules/${id}`, { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(patch) }).then(r=>r.json());
+    if (res.ok) load();
+    else alert(res.error || "Failed");
+  };
+  const run = async (id: number, dryRun: boolean) => {
+    const res = await fetch(`/api/automations/rules/${id}/run`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ dryRun }) }).then(r=>r.json());
+    if (!res.ok) alert(res.error || "Failed");
+    load();
+  };
+  const del = async (id: number) => {
+    if (!confirm("Delete this automation?")) return;
+    const res = await fetch(`/api/automations/rules/${id}`, { method: "DELETE" }).then(r=>r.json());
+    if (res.ok) load();
+  };
+
+  const deviceSelect = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue placeholder={placeholder}/></SelectTrigger>
+      <SelectContent>
+        {devices.map((d:any)=> <SelectItem key={d.id||d.device_id} value={d.id||d.device_id}>{d.name}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  const ruleName = (id: number) => rules.find(r => r.id === id)?.name ?? `#${id}`;
+
+  return (
+    <PageLayout>
+      <div className="container mx-auto p-4 space-y-6">
+        <Card>
+          <CardHeader><CardTitle>Create Automation</CardTitle></CardHeader>
+          <CardContent className="grid sm:grid-cols-3 gap-3">
+            <Input placeholder="Rule name" value={form.name} onChange={e=>setForm({...form, name:e.target.value})}/>
+            <Select value={form.triggerType} onValueChange={v=>setForm({...form, triggerType:v})}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="metric">When a metric holds</SelectItem>
+                <SelectItem value="schedule">Daily at a time (IST)</SelectItem>
+              </SelectContent>
+            </Select>
+            {form.triggerType === "schedule" ? (
+              <Input type="time" value={form.scheduleTime} onChange={e=>setForm({...form, scheduleTime:e.target.value})}/>
+            ) : (
+              <>
+                {deviceSelect(form.deviceId, v=>setForm({...form, deviceId:v}), "Device")}
+                <Select value={form.metric} onValueChange={v=>setForm({...form, metric:v})}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="powerW">powerW</SelectItem>
+                    <SelectItem value="voltageV">voltageV</SelectItem>
+                    <SelectItem value="currentA">currentA</SelectItem>
+                    <SelectItem value="pfEst">pfEst</SelectItem>
+                    {sensorMetrics.map(m=> <SelectItem key={m.key} value={m.key}>{m.label}{m.unit && ` (${m.unit})`} — sensors</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={form.op} onValueChange={v=>setForm({...form, op:v})}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {["<","<=","==","!=",">=",">"].map(o=> <SelectItem key={o} value={o}>{o}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input type="number" placeholder="threshold" value={form.threshold} onChange={e=>setForm({...form, threshold:Number(e.target.value)})}/>
+                <Input type="number" placeholder="durationS" value={form.durationS} onChange={e=>setForm({...form, durationS:Number(e.target.value)})}/>
+              </>
+            )}
+
+            <Select value={form.actionType} onValueChange={v=>setForm({...form, actionType:v})}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="command">Switch a device</SelectItem>
+                <SelectItem value="push">Send push notification</SelectItem>
+                <SelectItem value="http">Call a webhook</SelectItem>
+              </SelectContent>
+            </Select>
+            {form.actionType === "command" && (
+              <>
+                {deviceSelect(form.actionDeviceId || form.deviceId, v=>setForm({...form, actionDeviceId:v}), "Target device")}
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.switchOn} onCheckedChange={v=>setForm({...form, switchOn:v})}/>
+                  <Label>Turn {form.switchOn ? "on" : "off"}</Label>
+                </div>
+              </>
+            )}
+            {form.actionType === "http" && (
+              <Input className="sm:col-span-2" placeholder="https://example.com/hook" value={form.url} onChange={e=>setForm({...form, url:e.target.value})}/>
+            )}
+
+            <div className="flex items-center gap-2 sm:col-span-3">
+              <Switch checked={form.dryRun} onCheckedChange={v=>setForm({...form, dryRun:v})}/>
+              <Label>Dry run (log what would happen, don't act)</Label>
+            </div>
+            <Button onClick={create} className="sm:col-span-3">Create</Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle>Automations</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {rules.map(r=> (
+              <div key={r.id} className="flex flex-wrap items-center justify-between gap-2 border rounded p-2">
+                <div className="text-sm">
+                  <div className="font-medium">{r.name}{r.dryRun && " (dry run)"}{!r.isActive && " (paused)"}</div>
+                  <div className="text-muted-foreground">{describeTrigger(r)} → {describeActions(r.actions)}</div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={()=>update(r.id, { isActive: !r.isActive })}>{r.isActive ? "Pause" : "Resume"}</Button>
+                  <Button variant="outline" size="sm" onClick={()=>update(r.id, { dryRun: !r.dryRun })}>{r.dryRun ? "Go live" : "Dry run mode"}</Button>
+                  <Button variant="secondary" size="sm" onClick={()=>run(r.id, true)}>Test</Button>
+                  <Button size="sm" onClick={()=>run(r.id, false)}>Run now</Button>
+                  <Button variant="destructive" size="sm" onClick={()=>del(r.id)}>Delete</Button>
+                </div>
+              </div>
+            ))}
+            {rules.length===0 && <div className="text-sm text-muted-foreground">No automations yet.</div>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle>Recent Runs</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {runs.map(run=> (
+              <div key={run.id} className="text-sm border rounded p-2">
+                <div>{new Date(run.tsUtc).toLocaleString()} — {ruleName(run.ruleId)} — {run.trigger} — <span className="font-medium">{run.outcome}</span></div>
+                {(run.results || []).map((a: any, i: number) => (
+                  <div key={i} className="text-muted-foreground">{a.type}: {a.status} ({a.detail})</div>
+                ))}
+              </div>
+            ))}
+            {runs.length===0 && <div className="text-sm text-muted-foreground">No runs yet.</div>}
+          </CardContent>
+        </Card>
+      </div>
+    </PageLayout>
+  );
+}
@@ -9,6 +9,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Activity, Zap, Calendar, BarChart3, Smartphone, Monitor, Home, CheckCircle, ChevronLeft, ChevronRight, CalendarDays, Database } from "lucide-react";
 import { PageLayout } from "@/components/page-layout";
 import { CalendarKwh } from "@/components/CalendarKwh";
+import { PhaseCharts } from "@/components/PhaseCharts";
+import { ElectricalCharts } from "@/components/ElectricalCharts";
 import { NoDataAlert } from "@/components/NoDataAlert";
 import { Link } from "wouter";
 import DebugPanel from "../components/DebugPanel";
@@ -577,6 +579,12 @@ export default function ChartsPage() {
                       )}
                     </CardContent>
                   </Card>
+
+                  {/* Row 3: Per-phase / per-outlet (multi-channel devices only) */}
+                  <PhaseCharts deviceId={selectedDeviceId} />
+
+                  {/* Row 4: Voltage / current / power factor statistics at any granularity */}
+                  <ElectricalCharts deviceId={selectedDeviceId} />
                 </TabsContent>
               </Tabs>
             </CardContent>
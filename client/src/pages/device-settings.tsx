@@ -8,6 +8,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { getDevices, getAppSettings, setAppSettings } from "@/lib/api";
@@ -22,7 +24,9 @@ import {
   RefreshCw,
   Database,
   ToggleLeft,
-  ToggleRight
+  ToggleRight,
+  Timer,
+  Gauge
 } from "lucide-react";
 import { PageLayout } from "@/components/page-layout";
 
@@ -40,10 +44,26 @@ interface DeviceSettings {
   deviceId: string;
   deviceName: string;
   dataStorageEnabled: boolean;
+  pollMode: PollMode;
+  healthIntervalMs: number | null;
+  energyIntervalMs: number | null;
+  adaptiveFastMs: number | null;
+  adaptiveSlowMs: number | null;
+  adaptivePowerThresholdW: number | null;
+  controlAllowed: boolean;
+  energyCounterMode: EnergyCounterMode;
   createdAt: string;
   updatedAt: string;
 }
 
+type PollMode = "global" | "custom" | "adaptive";
+
+// How the device's add_ele counts: a running counter (may reset) or energy since its last report
+type EnergyCounterMode = "cumulative" | "incremental";
+
+type PollingPatch = Pick<DeviceSettings,
+  "pollMode" | "healthIntervalMs" | "energyIntervalMs" | "adaptiveFastMs" | "adaptiveSlowMs" | "adaptivePowerThresholdW">;
+
 export default function SettingsPage() {
   const [specifications, setSpecifications] = useState<{ [deviceId: string]: string }>({});
   const [pfSource, setPfSource] = useState<"tuya" | "calculated">("calculated");
@@ -149,15 +169,19 @@ export default function SettingsPage() {
 
   // Mutation for updating device settings
   const updateSettingsMutation = useMutation({
-    mutationFn: async (data: { deviceId: string; deviceName: string; dataStorageEnabled: boolean }) => {
+    mutationFn: async (data: {
+      deviceId: string; deviceName: string; dataStorageEnabled: boolean; controlAllowed?: boolean; energyCounterMode?: EnergyCounterMode
+    } & Partial<PollingPatch>) => {
       const response = await apiRequest("POST", "/api/device-settings", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/device-settings"] });
       toast({
         title: "Success",
-        description: "Device storage setting updated successfully",
+        description: data?.dailyKwhRecompute
+          ? "Device setting updated; recomputing daily energy in the background"
+          : "Device setting updated successfully",
       });
     },
     onError: (error: any) => {
@@ -286,6 +310,40 @@ export default function SettingsPage() {
     });
   };
 
+  const handleToggleControl = (device: TuyaDevice) => {
+    const deviceId = device.id || device.device_id;
+    if (!deviceId) return;
+    const current = deviceSettings.find(setting => setting.deviceId === deviceId)?.controlAllowed ?? false;
+    updateSettingsMutation.mutate({
+      deviceId,
+      deviceName: device.name || 'Unknown Device',
+      dataStorageEnabled: getDeviceStorageEnabled(deviceId),
+      controlAllowed: !current
+    });
+  };
+
+  const handleCounterMode = (device: TuyaDevice, energyCounterMode: EnergyCounterMode) => {
+    const deviceId = device.id || device.device_id;
+    if (!deviceId) return;
+    updateSettingsMutation.mutate({
+      deviceId,
+      deviceName: device.name || 'Unknown Device',
+      dataStorageEnabled: getDeviceStorageEnabled(deviceId),
+      energyCounterMode
+    });
+  };
+
+  const handleSavePolling = (device: TuyaDevice, patch: PollingPatch) => {
+    const deviceId = device.id || device.device_id;
+    if (!deviceId) return;
+    updateSettingsMutation.mutate({
+      deviceId,
+      deviceName: device.name || 'Unknown Device',
+      dataStorageEnabled: getDeviceStorageEnabled(deviceId),
+      ...patch
+    });
+  };
+
   const handleSavePfSource = () => {
     updateAppSettingsMutation.mutate(pfSource);
   };
@@ -483,9 +541,51 @@ export default function SettingsPage() {
                           >
                             {storageEnabled ? "Enabled" : "Disabled"}
                           </Badge>
+                          <div className="flex items-center space-x-2 pl-3 border-l">
+                            <Label 
+                              htmlFor={`control-toggle-${deviceId}`} 
+                              className="text-sm font-medium"
+                            >
+                              Remote Control
+                            </Label>
+                            <Switch
+                              id={`control-toggle-${deviceId}`}
+                              checked={deviceSettings.find(setting => setting.deviceId === deviceId)?.controlAllowed ?? false}
+                              onCheckedChange={() => handleToggleControl(device)}
+                              disabled={isUpdating}
+                              data-testid={`switch-control-${deviceId}`}
+                            />
+                          </div>
                         </div>
                       </div>
                       
+                      <DevicePollingControls
+                        deviceId={deviceId}
+                        settings={deviceSettings.find(setting => setting.deviceId === deviceId)}
+                        disabled={isUpdating}
+                        onSave={(patch) => handleSavePolling(device, patch)}
+                      />
+
+                      <div className="mt-4 pt-4 border-t flex items-center justify-between">
+                        <div className="flex items-center space-x-2 text-sm font-medium">
+                          <Gauge className="h-4 w-4 text-muted-foreground" />
+                          <span>Energy counter</span>
+                        </div>
+                        <Select
+                          value={deviceSettings.find(setting => setting.deviceId === deviceId)?.energyCounterMode ?? "cumulative"}
+                          onValueChange={(v) => handleCounterMode(device, v as EnergyCounterMode)}
+                          disabled={isUpdating}
+                        >
+                          <SelectTrigger className="w-56" data-testid={`select-counter-mode-${deviceId}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="cumulative">Cumulative (running total)</SelectItem>
+                            <SelectItem value="incremental">Incremental (per report)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
                       {!storageEnabled && (
                         <div className="mt-4 p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg">
                           <div className="flex items-start space-x-2">
@@ -633,4 +733,110 @@ export default function SettingsPage() {
       </div>
     </PageLayout>
   );
-}
\ No newline at end of file
+}
+
+// Per-device polling cadence: global intervals, fixed overrides, or adaptive
+function DevicePollingControls({ deviceId, settings, disabled, onSave }: {
+  deviceId: string;
+  settings?: DeviceSettings;
+  disabled: boolean;
+  onSave: (patch: PollingPatch) => void;
+}) {
+  const [mode, setMode] = useState<PollMode>(settings?.pollMode ?? "global");
+  const [healthSec, setHealthSec] = useState("");
+  const [energyMin, setEnergyMin] = useState("");
+  const [fastSec, setFastSec] = useState("");
+  const [slowSec, setSlowSec] = useState("");
+  const [thresholdW, setThresholdW] = useState("");
+
+  useEffect(() => {
+    setMode(settings?.pollMode ?? "global");
+    setHealthSec(settings?.healthIntervalMs ? String(settings.healthIntervalMs / 1000) : "");
+    setEnergyMin(settings?.energyIntervalMs ? String(settings.energyIntervalMs / 60000) : "");
+    setFastSec(settings?.adaptiveFastMs ? String(settings.adaptiveFastMs / 1000) : "");
+    setSlowSec(settings?.adaptiveSlowMs ? String(settings.adaptiveSlowMs / 1000) : "");
+    setThresholdW(settings?.adaptivePowerThresholdW != null ? String(settings.adaptivePowerThresholdW) : "");
+  }, [settings]);
+
+  // blank inputs fall back to the global / built-in defaults
+  const ms = (value: string, unitMs: number) => (value.trim() === "" ? null : Math.round(Number(value) * unitMs));
+
+  const handleSave = () => {
+    onSave({
+      pollMode: mode,
+      healthIntervalMs: ms(healthSec, 1000),
+      energyIntervalMs: ms(energyMin, 60000),
+      adaptiveFastMs: ms(fastSec, 1000),
+      adaptiveSlowMs: ms(slowSec, 1000),
+      adaptivePowerThresholdW: thresholdW.trim() === "" ? null : Math.round(Number(thresholdW)),
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium">
+          <Timer className="h-4 w-4 text-muted-foreground" />
+          <span>Polling</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={mode} onValueChange={(v) => setMode(v as PollMode)}>
+            <SelectTrigger className="w-40" data-testid={`select-poll-mode-${deviceId}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="global">Global intervals</SelectItem>
+              <SelectItem value="custom">Custom intervals</SelectItem>
+              <SelectItem value="adaptive">Adaptive</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={disabled}
+            data-testid={`button-save-polling-${deviceId}`}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {mode !== "global" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-xs">Health interval (s, min 5)</Label>
+            <Input type="number" min="5" placeholder="global" value={healthSec} onChange={(e) => setHealthSec(e.target.value)} />
+          </div>
+          <div>
+            <Label className="text-xs">Energy interval (min, min 1)</Label>
+            <Input type="number" min="1" placeholder="global" value={energyMin} onChange={(e) => setEnergyMin(e.target.value)} />
+          </div>
+        </div>
+      )}
+
+      {mode === "adaptive" && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label className="text-xs">Fast (s)</Label>
+              <Input type="number" min="5" placeholder="10" value={fastSec} onChange={(e) => setFastSec(e.target.value)} />
+            </div>
+            <div>
+              <Label className="text-xs">Slow (s)</Label>
+              <Input type="number" min="5" placeholder="300" value={slowSec} onChange={(e) => setSlowSec(e.target.value)} />
+            </div>
+            <div>
+              <Label className="text-xs">Active above (W)</Label>
+              <Input type="number" min="0" placeholder="50" value={thresholdW} onChange={(e) => setThresholdW(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Polls at the fast rate while power is above the threshold or changing, at the health interval while steady,
+            and backs off to the slow rate when idle or offline.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
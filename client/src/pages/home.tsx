@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { PageLayout } from "@/components/page-layout";
 import TuyaCounter from "../components/TuyaCounter";
+import { SensorWidgets } from "@/components/SensorWidgets";
 import { PfSourceBadge } from "@/components/pf-source-badge";
 import { 
   Cpu, 
@@ -14,7 +15,8 @@ import {
   Zap,
   Gauge,
   Activity,
-  BarChart3
+  BarChart3,
+  Clock
 } from "lucide-react";
 
 interface LiveDevice {
@@ -26,6 +28,9 @@ interface LiveDevice {
   currentA: number;
   pf: number;
   hasPf?: boolean;
+  updatedAt?: string;
+  ageMs?: number;
+  stale?: boolean;
 }
 
 interface LiveDashboardData {
@@ -36,9 +41,24 @@ interface LiveDashboardData {
     offlineDevices: number;
   };
   devices: LiveDevice[];
+  cache?: {
+    updatedAt: string | null;
+    ageMs: number | null;
+    refreshAfterMs: number;
+    staleAfterMs: number;
+    staleDevices: number;
+  };
   timestamp: string;
 }
 
+// "12s", "4m", "2h" for how old a cached reading is
+function formatAge(ms: number) {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.round(s / 60)}m`;
+  return `${Math.round(s / 3600)}h`;
+}
+
 type FilterType = 'total' | 'online' | 'offline';
 
 export default function HomePage() {
@@ -319,6 +339,16 @@ export default function HomePage() {
                     {device.online ? "Online" : "Offline"}
                   </Badge>
                 </div>
+                {device.ageMs != null && (
+                  <div
+                    className={`flex items-center text-xs mt-2 ${device.stale ? "text-amber-600" : "text-muted-foreground"}`}
+                    data-testid={`age-${device.deviceId}`}
+                    title={device.updatedAt ? new Date(device.updatedAt).toLocaleString() : undefined}
+                  >
+                    <Clock className="h-3 w-3 mr-1" />
+                    {device.stale ? `Stale: last reading ${formatAge(device.ageMs)} ago` : `Updated ${formatAge(device.ageMs)} ago`}
+                  </div>
+                )}
               </CardHeader>
               <CardContent className="space-y-4">
                 {/* Power */}
@@ -374,13 +404,19 @@ export default function HomePage() {
         </div>
       )}
 
+      {/* Non-energy sensors (temperature, contact, leak, ...) */}
+      <div className="mt-8">
+        <SensorWidgets />
+      </div>
+
       {/* Data Source Info */}
       <div className="mt-8 text-center">
         <p className="text-xs text-muted-foreground">
-          Data sourced live from Tuya Cloud • Last updated: {dashboardData?.timestamp ? new Date(dashboardData.timestamp).toLocaleTimeString() : 'Never'}
+          Data sourced from Tuya Cloud via the poller cache • Last device list: {dashboardData?.cache?.updatedAt ? new Date(dashboardData.cache.updatedAt).toLocaleTimeString() : 'Never'}
+          {(dashboardData?.cache?.staleDevices ?? 0) > 0 && ` • ${dashboardData!.cache!.staleDevices} stale device(s)`}
         </p>
         <p className="text-xs text-muted-foreground mt-1">
-          Offline devices display 0 values • Auto-refresh every 10 seconds
+          Offline devices display 0 values • Auto-refresh every {Math.round(refreshMs / 1000)} seconds
         </p>
       </div>
 
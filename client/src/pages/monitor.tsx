@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Database, Activity, ChevronDown, ChevronUp, HardDrive, Settings } from "lucide-react";
 import { PageLayout } from "@/components/page-layout";
 import { PfSourceBadge } from "@/components/pf-source-badge";
+import { JobTimeline } from "@/components/JobTimeline";
+import { TuyaCallerBreakdown } from "@/components/TuyaCallerBreakdown";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -373,6 +375,12 @@ export default function MonitorPage() {
           </Card>
         )}
 
+        {/* Background job runs */}
+        <JobTimeline />
+
+        {/* Tuya API calls per caller */}
+        <TuyaCallerBreakdown />
+
         {/* Diagnostics */}
         <Card>
           <CardHeader>
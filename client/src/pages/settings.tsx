@@ -1,5 +1,6 @@
 import React from "react";
 import { PageLayout } from "@/components/page-layout";
+import BackfillPanel from "@/components/BackfillPanel";
 
 type PollerSettings = {
   energyEnabled: boolean;
@@ -9,8 +10,39 @@ type PollerSettings = {
   dashboardRefreshEnabled: boolean;
   dashboardRefreshMs: number;
   masterKillSwitch: boolean;
+  callsPerHourBudget: number;
+  monthlyCallQuota: number;
+  quotaAction: "stretch" | "warn" | "off";
+  quietWindows: QuietWindow[];
+  effective?: {
+    healthEnabled: boolean;
+    energyEnabled: boolean;
+    masterKillSwitch: boolean;
+    activeWindows: QuietWindow[];
+    nextTransition: { at: string; healthEnabled: boolean; energyEnabled: boolean; masterKillSwitch: boolean } | null;
+  };
 };
 
+type QuietWindow = {
+  target: "health" | "energy" | "killSwitch";
+  start: string;
+  end: string;
+  days?: number[];
+  label?: string;
+};
+
+const QUIET_TARGET_LABELS: Record<QuietWindow["target"], string> = {
+  health: "Pause health polling",
+  energy: "Pause energy polling",
+  killSwitch: "Engage kill switch",
+};
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeFlags(f: { healthEnabled: boolean; energyEnabled: boolean; masterKillSwitch: boolean }) {
+  if (f.masterKillSwitch) return "kill switch ON";
+  return `health ${f.healthEnabled ? "on" : "paused"}, energy ${f.energyEnabled ? "on" : "paused"}`;
+}
+
 export default function SettingsPage() {
   const [loading, setLoading] = React.useState(true);
   const [saving, setSaving] = React.useState(false);
@@ -46,7 +78,11 @@ export default function SettingsPage() {
     setMsg(`Pinging ${type}...`);
     const r = await fetch(`/api/pollers/ping-now?type=${type}`, { method: "POST" });
     const j = await r.json();
-    if (j.ok) setMsg(`Pinged ${type}: ${j.devices ?? 0} device(s) updated`);
+    if (j.ok) {
+      const counts: Record<string, number> = j.summary?.[type] ?? {};
+      const detail = Object.entries(counts).map(([k, v]) => `${v} ${k}`).join(", ");
+      setMsg(`Pinged ${type}: ${j.devices ?? 0} device(s)${detail ? ` (${detail})` : ""}`);
+    }
     else setMsg(`Ping failed: ${j.error || "unknown"}`);
   }
 
@@ -56,6 +92,14 @@ export default function SettingsPage() {
   const sec = (ms: number) => Math.round(ms / 1000);
   const min = (ms: number) => Math.round(ms / 60000);
 
+  const updateWindow = (i: number, patch: Partial<QuietWindow>) =>
+    setSettings({ ...settings, quietWindows: settings.quietWindows.map((w, j) => (j === i ? { ...w, ...patch } : w)) });
+  const toggleDay = (i: number, day: number) => {
+    const days = settings.quietWindows[i].days ?? [];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort();
+    updateWindow(i, { days: next.length ? next : undefined });
+  };
+
   return (
     <PageLayout 
       title="Poller Settings"
@@ -159,6 +203,128 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {/* Call budget */}
+      <section className="p-4 rounded-xl border">
+        <h2 className="text-lg font-medium">Tuya Call Budget</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Caps the pollers' device-list calls per hour. When the per-device cadences would exceed it,
+          every interval is stretched evenly. 0 = unlimited.
+        </p>
+        <div className="mt-3">
+          <label className="block text-sm mb-1">Calls per hour</label>
+          <input
+            type="number"
+            min="0"
+            value={settings.callsPerHourBudget}
+            onChange={(e) =>
+              setSettings({ ...settings, callsPerHourBudget: Math.max(0, Math.floor(Number(e.target.value))) })
+            }
+            className="border rounded px-2 py-1 w-40"
+          />
+        </div>
+        <p className="text-sm text-gray-600 mt-4">
+          Monthly quota of your Tuya plan (calendar month, UTC). When the end-of-month projection exceeds it,
+          the pollers either stretch their intervals to fit the remaining calls or only send a push warning. 0 = no quota.
+        </p>
+        <div className="mt-3 flex flex-wrap gap-4">
+          <div>
+            <label className="block text-sm mb-1">Calls per month</label>
+            <input
+              type="number"
+              min="0"
+              value={settings.monthlyCallQuota}
+              onChange={(e) =>
+                setSettings({ ...settings, monthlyCallQuota: Math.max(0, Math.floor(Number(e.target.value))) })
+              }
+              className="border rounded px-2 py-1 w-40"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">Over quota</label>
+            <select
+              value={settings.quotaAction}
+              onChange={(e) => setSettings({ ...settings, quotaAction: e.target.value as PollerSettings["quotaAction"] })}
+              className="border rounded px-2 py-1 w-40"
+            >
+              <option value="stretch">Stretch intervals</option>
+              <option value="warn">Warn only</option>
+              <option value="off">Do nothing</option>
+            </select>
+          </div>
+        </div>
+      </section>
+
+      {/* Quiet windows */}
+      <section className="p-4 rounded-xl border">
+        <h2 className="text-lg font-medium">Quiet Windows</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Recurring times (IST) when a poller pauses or the kill switch engages on its own. An end before the
+          start runs past midnight; no days selected means every day. The toggles above still apply: a window
+          never turns a disabled poller on.
+        </p>
+        {settings.effective && (
+          <div className="mt-3 text-sm" data-testid="quiet-effective">
+            <div>Now: <span className="font-medium">{describeFlags(settings.effective)}</span></div>
+            {settings.effective.nextTransition && (
+              <div className="text-gray-600">
+                Next change {new Date(settings.effective.nextTransition.at).toLocaleString()}:{" "}
+                {describeFlags(settings.effective.nextTransition)}
+              </div>
+            )}
+          </div>
+        )}
+        <div className="mt-3 space-y-3">
+          {settings.quietWindows.map((w, i) => (
+            <div key={i} className="border rounded p-2 flex flex-col gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={w.target}
+                  onChange={(e) => updateWindow(i, { target: e.target.value as QuietWindow["target"] })}
+                  className="border rounded px-2 py-1"
+                >
+                  {Object.entries(QUIET_TARGET_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input type="time" value={w.start} onChange={(e) => updateWindow(i, { start: e.target.value })} className="border rounded px-2 py-1" />
+                <span>to</span>
+                <input type="time" value={w.end} onChange={(e) => updateWindow(i, { end: e.target.value })} className="border rounded px-2 py-1" />
+                <button
+                  onClick={() => setSettings({ ...settings, quietWindows: settings.quietWindows.filter((_, j) => j !== i) })}
+                  className="ml-auto text-sm text-red-600"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {WEEKDAYS.map((d, day) => (
+                  <label key={d} className="flex items-center gap-1">
+                    <input type="checkbox" checked={w.days?.includes(day) ?? false} onChange={() => toggleDay(i, day)} />
+                    {d}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setSettings({ ...settings, quietWindows: [...settings.quietWindows, { target: "health", start: "23:00", end: "06:00" }] })}
+          className="mt-3 px-3 py-1 rounded border"
+        >
+          Add window
+        </button>
+      </section>
+
+      {/* Gap backfill */}
+      <section className="p-4 rounded-xl border">
+        <h2 className="text-lg font-medium">Gap Backfill</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Recovers samples missed during restarts or while the kill switch was on from each device's
+          Tuya log (last 7 days), then rebuilds the affected rollups and daily totals.
+        </p>
+        <BackfillPanel />
+      </section>
+
       {/* Master Kill Switch */}
       <section className="p-4 rounded-xl border border-red-200 bg-red-50">
         <h2 className="text-lg font-medium text-red-700">Master Kill Switch</h2>
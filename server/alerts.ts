@@ -1,11 +1,21 @@
 // server/alerts.ts
 import { PrismaClient } from "@prisma/client";
 import { sendPushAll } from "./push";
+import { isSensorMetric, sensorMetricKeys } from "./sensors";
 
 const prisma = new PrismaClient();
 
 type MetricKey = "powerW" | "voltageV" | "currentA" | "pfEst";
 
+const ELECTRICAL_METRICS: MetricKey[] = ["powerW", "voltageV", "currentA", "pfEst"];
+
+/**
+ * Metrics a rule can watch: the electrical ones plus every sensor metric.
+ */
+export function alertMetrics(): string[] {
+  return [...ELECTRICAL_METRICS, ...sensorMetricKeys()];
+}
+
 export function compare(op: string, a: number, b: number) {
   switch (op) {
     case ">": return a > b;
@@ -28,6 +38,62 @@ export function sseBroadcast(event: string, data: any) {
   clients.forEach(c => c.write(payload));
 }
 
+type Sample = { tsUtc: Date; powerW: number | null; voltageV: any; currentA: any; pfEst: any };
+
+function metricValue(metric: MetricKey, s: Sample) {
+  return metric === "powerW" ? Number(s.powerW ?? 0) :
+    metric === "voltageV" ? Number(s.voltageV ?? 0) :
+    metric === "currentA" ? Number(s.currentA ?? 0) :
+    Number(s.pfEst ?? 0);
+}
+
+/**
+ * Does `metric op threshold` hold for every health sample of the last durationS
+ * seconds? (durationS 0 = just the latest sample.) Shared by alerts and automations.
+ */
+export async function checkCondition(
+  c: { deviceId: string; metric: string; op: string; threshold: number; durationS: number },
+  now = new Date()
+): Promise<{ holds: boolean; value?: number }> {
+  if (isSensorMetric(c.metric)) return checkSensorCondition(c, now);
+  const metric = c.metric as MetricKey;
+
+  // pull recent health samples for the device
+  const select = { tsUtc: true, powerW: true, voltageV: true, currentA: true, pfEst: true };
+  const samples: Sample[] = c.durationS > 0
+    ? await prisma.rawHealth.findMany({
+        where: { deviceId: c.deviceId, channel: "", tsUtc: { gte: new Date(now.getTime() - c.durationS * 1000) } },
+        orderBy: { tsUtc: "asc" },
+        select,
+      })
+    : await prisma.rawHealth.findMany({ where: { deviceId: c.deviceId, channel: "" }, orderBy: { tsUtc: "desc" }, take: 1, select });
+  if (samples.length === 0) return { holds: false };
+
+  const holds = samples.every(s => compare(c.op, metricValue(metric, s), c.threshold));
+  return { holds, value: metricValue(metric, samples[samples.length - 1]) };
+}
+
+/**
+ * checkCondition for sensor metrics, over SensorReading rows.
+ */
+async function checkSensorCondition(
+  c: { deviceId: string; metric: string; op: string; threshold: number; durationS: number },
+  now: Date
+): Promise<{ holds: boolean; value?: number }> {
+  const where = { deviceId: c.deviceId, metric: c.metric };
+  const samples = c.durationS > 0
+    ? await prisma.sensorReading.findMany({
+        where: { ...where, tsUtc: { gte: new Date(now.getTime() - c.durationS * 1000) } },
+        orderBy: { tsUtc: "asc" },
+        select: { value: true },
+      })
+    : await prisma.sensorReading.findMany({ where, orderBy: { tsUtc: "desc" }, take: 1, select: { value: true } });
+  if (samples.length === 0) return { holds: false };
+
+  const holds = samples.every((s: { value: number }) => compare(c.op, s.value, c.threshold));
+  return { holds, value: samples[samples.length - 1].value };
+}
+
 // Fetch recent values and decide if a rule fires
 export async function evaluateRuleForDevice(ruleId: bigint) {
   const rule = await prisma.alertRule.findUnique({ where: { id: ruleId } });
@@ -35,26 +101,9 @@ export async function evaluateRuleForDevice(ruleId: bigint) {
 
   const metric = rule.metric as MetricKey;
   const now = new Date();
-  const since = new Date(now.getTime() - rule.durationS * 1000);
 
-  // pull recent health samples for the device
-  const samples = await prisma.rawHealth.findMany({
-    where: { deviceId: rule.deviceId, tsUtc: { gte: since } },
-    orderBy: { tsUtc: "asc" },
-    select: { tsUtc: true, powerW: true, voltageV: true, currentA: true, pfEst: true },
-  });
-  if (samples.length === 0) return;
-
-  const ok = samples.every(s => {
-    const v =
-      metric === "powerW" ? Number(s.powerW ?? 0) :
-      metric === "voltageV" ? Number(s.voltageV ?? 0) :
-      metric === "currentA" ? Number(s.currentA ?? 0) :
-      Number(s.pfEst ?? 0);
-    return compare(rule.op, v, rule.threshold);
-  });
-
-  if (!ok) return;
+  const { holds, value } = await checkCondition(rule, now);
+  if (!holds || value === undefined) return;
 
   // cooldown gate
   if (rule.lastFired) {
@@ -62,13 +111,6 @@ export async function evaluateRuleForDevice(ruleId: bigint) {
     if (elapsed < rule.cooldownS) return;
   }
 
-  const last = samples[samples.length - 1];
-  const value =
-    metric === "powerW" ? Number(last.powerW ?? 0) :
-    metric === "voltageV" ? Number(last.voltageV ?? 0) :
-    metric === "currentA" ? Number(last.currentA ?? 0) :
-    Number(last.pfEst ?? 0);
-
   const ev = await prisma.alertEvent.create({
     data: {
       ruleId: rule.id,
@@ -83,7 +125,7 @@ export async function evaluateRuleForDevice(ruleId: bigint) {
   
   // Send push notifications
   await sendPushAll({
-    title: "Power alert",
+    title: isSensorMetric(rule.metric) ? "Sensor alert" : "Power alert",
     body: ev.message || `Alert on ${ev.deviceId}`,
     url: "/alerts"
   });
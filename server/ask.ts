@@ -9,7 +9,7 @@ async function buildContext(req: Request) {
     const baseUrl = `http://${req.headers.host || 'localhost:5000'}`;
     
     // Fetch devices list with embedded status
-    const devicesResponse = await fetch(`${baseUrl}/api/devices`);
+    const devicesResponse = await fetch(`${baseUrl}/api/devices`, { headers: { "X-Tuya-Caller": "ask" } });
     const devicesData = await devicesResponse.json();
     const devices = devicesData?.result?.devices || [];
     
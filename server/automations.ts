@@ -0,0 +1,170 @@
+// server/automations.ts
+// Automation rules: alert-style metric conditions (or a daily IST time) that
+// run actions — device commands, push notifications, outbound HTTP calls.
+import { PrismaClient } from "@prisma/client";
+import { alertMetrics, checkCondition } from "./alerts";
+import { sendPushAll } from "./push";
+import { sendDeviceCommands, validateCommands, type DeviceCommandInput } from "./commands";
+import { getEffectivePollerSettings } from "./storage.poller";
+import { withTuyaCaller } from "./tuya";
+
+const prisma = new PrismaClient();
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+export type AutomationAction =
+  | { type: "command"; deviceId: string; commands: DeviceCommandInput[] }
+  | { type: "push"; title?: string; body?: string; url?: string }
+  | { type: "http"; url: string; method?: "GET" | "POST" | "PUT"; headers?: Record<string, string>; body?: any };
+
+type ActionResult = { type: string; status: "ok" | "failed" | "skipped"; detail: string };
+
+const OPS = [">", ">=", "<", "<=", "==", "!="];
+
+/**
+ * Validate a rule payload from the API. Returns an error message, or null if valid.
+ */
+export function validateAutomationRule(rule: any): string | null {
+  if (!rule?.name) return "name is required";
+  if (rule.triggerType === "metric") {
+    if (!rule.deviceId) return "deviceId is required for metric triggers";
+    if (!alertMetrics().includes(rule.metric)) return `metric must be one of ${alertMetrics().join(", ")}`;
+    if (!OPS.includes(rule.op)) return `op must be one of ${OPS.join(" ")}`;
+    if (typeof rule.threshold !== "number") return "threshold must be a number";
+    if (!Number.isInteger(rule.durationS) || rule.durationS < 0) return "durationS must be a whole number >= 0";
+  } else if (rule.triggerType === "schedule") {
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(rule.scheduleTime ?? "")) return "scheduleTime must be HH:MM (IST)";
+  } else {
+    return "triggerType must be 'metric' or 'schedule'";
+  }
+  if (rule.cooldownS != null && (!Number.isInteger(rule.cooldownS) || rule.cooldownS < 0)) {
+    return "cooldownS must be a whole number >= 0";
+  }
+
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) return "actions must be a non-empty array";
+  for (const a of rule.actions as AutomationAction[]) {
+    if (a?.type === "command") {
+      if (!a.deviceId) return "command actions need a deviceId";
+      const invalid = validateCommands(a.commands);
+      if (invalid) return invalid;
+    } else if (a?.type === "http") {
+      try {
+        const u = new URL(a.url);
+        if (u.protocol !== "http:" && u.protocol !== "https:") return "http actions need an http(s) url";
+      } catch {
+        return "http actions need a valid url";
+      }
+      if (a.method && !["GET", "POST", "PUT"].includes(a.method)) return "http method must be GET, POST or PUT";
+    } else if (a?.type !== "push") {
+      return "action type must be 'command', 'push' or 'http'";
+    }
+  }
+  return null;
+}
+
+function describeAction(a: AutomationAction) {
+  if (a.type === "command") return `${a.deviceId} ${JSON.stringify(a.commands)}`;
+  if (a.type === "http") return `${a.method ?? "POST"} ${a.url}`;
+  return a.title || "push notification";
+}
+
+async function runAction(rule: { id: number; name: string }, a: AutomationAction, trigger: string, firedAt: Date): Promise<ActionResult> {
+  try {
+    if (a.type === "command") {
+      const entry = await withTuyaCaller("automation", () =>
+        sendDeviceCommands(a.deviceId, a.commands, { actor: `automation:${rule.id}`, source: "automation" }));
+      return { type: a.type, status: entry.success ? "ok" : "failed", detail: entry.error ?? `command #${entry.id} sent` };
+    }
+
+    if (a.type === "push") {
+      await sendPushAll({ title: a.title || "Automation", body: a.body || `${rule.name}: ${trigger}`, url: a.url || "/automations" });
+      return { type: a.type, status: "ok", detail: "push sent to all subscriptions" };
+    }
+
+    const method = a.method ?? "POST";
+    const body = method === "GET" ? undefined
+      : JSON.stringify(a.body ?? { rule: { id: rule.id, name: rule.name }, trigger, firedAt: firedAt.toISOString() });
+    const resp = await fetch(a.url, {
+      method,
+      headers: { "Content-Type": "application/json", ...(a.headers ?? {}) },
+      body,
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    return { type: a.type, status: resp.ok ? "ok" : "failed", detail: `HTTP ${resp.status}` };
+  } catch (e: any) {
+    return { type: a.type, status: "failed", detail: e?.message || String(e) };
+  }
+}
+
+/**
+ * Run a rule's actions (or just log them in dry-run) and record the execution.
+ * The master kill switch blocks every action, including outbound HTTP.
+ */
+export async function executeAutomation(ruleId: number, trigger: string, opts: { dryRun?: boolean } = {}) {
+  const rule = await prisma.automationRule.findUnique({ where: { id: ruleId } });
+  if (!rule) throw new Error(`Automation rule ${ruleId} not found`);
+
+  const now = new Date();
+  const actions = (rule.actions ?? []) as AutomationAction[];
+  const dryRun = opts.dryRun ?? rule.dryRun;
+  const settings = await getEffectivePollerSettings();
+
+  let results: ActionResult[];
+  let outcome: string;
+  if (settings.masterKillSwitch) {
+    results = actions.map((a) => ({ type: a.type, status: "skipped", detail: "blocked by master kill switch" }));
+    outcome = "blocked";
+  } else if (dryRun) {
+    results = actions.map((a) => ({ type: a.type, status: "skipped", detail: `dry run: would run ${describeAction(a)}` }));
+    outcome = "dry-run";
+  } else {
+    results = [];
+    for (const a of actions) results.push(await runAction(rule, a, trigger, now)); // in order: commands before notifications
+    const ok = results.filter((r) => r.status === "ok").length;
+    outcome = ok === results.length ? "success" : ok > 0 ? "partial" : "failed";
+  }
+
+  await prisma.automationRule.update({ where: { id: rule.id }, data: { lastFired: now } });
+  const run = await prisma.automationRun.create({
+    data: { ruleId: rule.id, tsUtc: now, trigger, dryRun, outcome, results }
+  });
+  console.log(`[AUTOMATION] ${rule.name} (${trigger}) -> ${outcome}`);
+  return run;
+}
+
+function inCooldown(rule: { lastFired: Date | null; cooldownS: number }, now: Date) {
+  return !!rule.lastFired && (now.getTime() - rule.lastFired.getTime()) / 1000 < rule.cooldownS;
+}
+
+/**
+ * Evaluate metric-triggered automations for a device (called after each health sample).
+ */
+export async function evaluateAutomationsForDevice(deviceId: string) {
+  const rules = await prisma.automationRule.findMany({ where: { deviceId, triggerType: "metric", isActive: true } });
+  const now = new Date();
+  for (const rule of rules) {
+    if (inCooldown(rule, now)) continue;
+    const { holds, value } = await checkCondition({
+      deviceId,
+      metric: rule.metric!,
+      op: rule.op!,
+      threshold: rule.threshold!,
+      durationS: rule.durationS ?? 0,
+    }, now);
+    if (!holds) continue;
+    await executeAutomation(rule.id, `${rule.metric} ${rule.op} ${rule.threshold} for ${rule.durationS ?? 0}s (got ${value})`);
+  }
+}
+
+/**
+ * Run schedule-triggered automations due at this IST minute ("HH:MM").
+ */
+export async function runScheduledAutomations(istTime: string) {
+  const rules = await prisma.automationRule.findMany({ where: { triggerType: "schedule", scheduleTime: istTime, isActive: true } });
+  const now = new Date();
+  for (const rule of rules) {
+    // guard against double runs within the same minute
+    if (rule.lastFired && now.getTime() - rule.lastFired.getTime() < 60_000) continue;
+    await executeAutomation(rule.id, `daily at ${istTime} IST`);
+  }
+}
@@ -0,0 +1,372 @@
+// server/backfill.ts
+// Gap backfill: find holes in RawHealth / RawEnergy (restarts, kill switch),
+// recover the missing window from the device's DP report log
+// (/v1.0/devices/{id}/logs), store the reports as source "backfill" samples,
+// then rebuild the affected rollups and daily totals.
+import { PrismaClient } from "@prisma/client";
+import { tuyaForDevice } from "./tuya";
+import { ingestEnergy, ingestHealth } from "./ingest";
+import { type TuyaStatus } from "./normalize";
+import { deviceCadence } from "./logic/cadence";
+import { storage } from "./storage";
+import { getEffectivePollerSettings, getPollerSettings } from "./storage.poller";
+import { recomputeRange } from "./jobs/rollups";
+import { isRealtimeActive, RECONCILE_INTERVAL_MS } from "./jobs/realtime";
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tuya keeps device logs for about a week on the standard plan
+const LOOKBACK_DAYS = Number(process.env.BACKFILL_LOOKBACK_DAYS) || 7;
+// A hole counts as a gap when longer than this, or 3x the device's expected interval
+const MIN_GAP_MS = Number(process.env.BACKFILL_MIN_GAP_MS) || 10 * 60 * 1000;
+const LOG_PAGE_SIZE = 100;
+const MAX_LOG_PAGES_PER_WINDOW = 200; // safety net: 20,000 reports
+
+const HEALTH_CODES = new Set(["cur_power", "cur_voltage", "cur_current"]);
+const ENERGY_CODES = new Set(["add_ele"]);
+
+type Stream = "health" | "energy";
+
+export type Gap = { stream: Stream; from: Date; to: Date };
+
+export type DeviceBackfill = {
+  deviceId: string;
+  gaps: Gap[];
+  skipped: number; // gaps inside windows fetched by an earlier pass
+  healthInserted: number;
+  energyInserted: number;
+  apiCalls: number;
+  error?: string;
+};
+
+export type BackfillProgress = {
+  runId: number;
+  trigger: string;
+  status: "running" | "done" | "failed" | "blocked";
+  fromUtc: Date;
+  toUtc: Date;
+  startedAt: Date;
+  finishedAt: Date | null;
+  devicesTotal: number;
+  devicesDone: number;
+  currentDevice: string | null;
+  gaps: number;
+  healthInserted: number;
+  energyInserted: number;
+  apiCalls: number;
+  devices: DeviceBackfill[];
+  error: string | null;
+};
+
+let progress: BackfillProgress | null = null;
+let inFlight: Promise<BackfillProgress> | null = null;
+
+class BackfillBlockedError extends Error {
+  constructor() {
+    super("Blocked by master kill switch");
+    this.name = "BackfillBlockedError";
+  }
+}
+
+/**
+ * Longest interval the pollers would leave between two samples of this device
+ * (the idle cadence for adaptive devices); null when the stream is disabled.
+ */
+async function expectedIntervalMs(deviceId: string, stream: Stream): Promise<number | null> {
+  const [settings, deviceSettings] = await Promise.all([getPollerSettings(), storage.getDeviceSettings(deviceId)]);
+  const cadence = deviceCadence(settings, deviceSettings, { online: true, powerW: 0 });
+  const ms = stream === "health" ? cadence.healthMs : cadence.energyMs;
+  if (ms == null) return null;
+  return isRealtimeActive() ? Math.max(ms, RECONCILE_INTERVAL_MS) : ms;
+}
+
+async function streamTimestamps(deviceId: string, stream: Stream, from: Date, to: Date) {
+  const before = { tsUtc: { lt: from } };
+  const inRange = { tsUtc: { gte: from, lt: to } };
+  const latest = { orderBy: { tsUtc: "desc" as const }, select: { tsUtc: true } };
+  const ordered = { orderBy: { tsUtc: "asc" as const }, select: { tsUtc: true } };
+  const [last, rows] = stream === "health"
+    ? await Promise.all([
+        // per-phase rows share the total's timestamps
+        prisma.rawHealth.findFirst({ where: { deviceId, channel: "", ...before }, ...latest }),
+        prisma.rawHealth.findMany({ where: { deviceId, channel: "", ...inRange }, ...ordered }),
+      ])
+    : await Promise.all([
+        prisma.rawEnergy.findFirst({ where: { deviceId, ...before }, ...latest }),
+        prisma.rawEnergy.findMany({ where: { deviceId, ...inRange }, ...ordered }),
+      ]);
+  return { before: last?.tsUtc, times: rows.map((r) => r.tsUtc.getTime()) };
+}
+
+/**
+ * Holes between consecutive samples in [from, to). The stretch after the last
+ * sample is left to the live pollers; the stretch before the first one counts
+ * only if the device was already known then.
+ */
+export async function findGaps(deviceId: string, from: Date, to: Date): Promise<Gap[]> {
+  const device = await prisma.device.findUnique({ where: { deviceId }, select: { firstSeenUtc: true } });
+  const gaps: Gap[] = [];
+
+  for (const stream of ["health", "energy"] as Stream[]) {
+    const interval = await expectedIntervalMs(deviceId, stream);
+    if (interval == null) continue;
+    const minGap = Math.max(MIN_GAP_MS, 3 * interval);
+
+    const { before, times } = await streamTimestamps(deviceId, stream, from, to);
+    let last = before ? before.getTime() : device?.firstSeenUtc ? Math.max(device.firstSeenUtc.getTime(), from.getTime()) : null;
+    for (const t of times) {
+      if (last != null && t - last > minGap) {
+        gaps.push({ stream, from: new Date(Math.max(last, from.getTime())), to: new Date(t) });
+      }
+      last = t;
+    }
+  }
+  return gaps;
+}
+
+type LogEntry = { code: string; value: any; event_time: number };
+
+/**
+ * Every DP report in [from, to), following next_row_key across pages.
+ */
+async function fetchLogs(deviceId: string, from: Date, to: Date, onCall: () => void): Promise<LogEntry[]> {
+  const tuya = await tuyaForDevice(deviceId);
+  const entries: LogEntry[] = [];
+  let rowKey: string | undefined;
+
+  for (let page = 0; page < MAX_LOG_PAGES_PER_WINDOW; page++) {
+    // Tuya OpenAPI: GET /v1.0/devices/{device_id}/logs (type 7 = data point report)
+    const resp: any = await tuya.request({
+      path: `/v1.0/devices/${deviceId}/logs`,
+      method: "GET",
+      query: {
+        type: "7",
+        start_time: from.getTime(),
+        end_time: to.getTime(),
+        size: LOG_PAGE_SIZE,
+        ...(rowKey ? { start_row_key: rowKey } : {})
+      }
+    });
+    onCall();
+    if (resp?.masterKillSwitchEnabled) throw new BackfillBlockedError();
+    if (!resp?.success) throw new Error(resp?.msg || `Tuya error ${resp?.code ?? "unknown"}`);
+
+    const logs: LogEntry[] = resp.result?.logs ?? [];
+    entries.push(...logs);
+    if (!resp.result?.has_next || !resp.result?.next_row_key || logs.length === 0) break;
+    rowKey = resp.result.next_row_key;
+  }
+  return entries;
+}
+
+/**
+ * Replay DP reports oldest-first, carrying forward the latest value of every
+ * DP, so each report time yields a full status snapshot (like a poll would).
+ */
+export function reportsToSnapshots(entries: LogEntry[]): Array<{ ts: Date; codes: Set<string>; status: TuyaStatus }> {
+  const byTime = new Map<number, LogEntry[]>();
+  for (const e of entries) {
+    const t = Number(e.event_time);
+    if (!Number.isFinite(t)) continue;
+    if (!byTime.has(t)) byTime.set(t, []);
+    byTime.get(t)!.push(e);
+  }
+
+  const current = new Map<string, any>();
+  return Array.from(byTime.keys()).sort((a, b) => a - b).map((t) => {
+    const reports = byTime.get(t)!;
+    for (const e of reports) current.set(e.code, e.value);
+    return {
+      ts: new Date(t),
+      codes: new Set(reports.map((e) => e.code)),
+      status: Array.from(current.entries()).map(([code, value]) => ({ code, value })) as TuyaStatus,
+    };
+  });
+}
+
+// Overlapping health/energy gaps share one log fetch
+function fetchWindows(gaps: Gap[]): Array<{ from: Date; to: Date }> {
+  const sorted = [...gaps].sort((a, b) => a.from.getTime() - b.from.getTime());
+  const windows: Array<{ from: Date; to: Date }> = [];
+  for (const g of sorted) {
+    const last = windows[windows.length - 1];
+    if (last && g.from.getTime() <= last.to.getTime()) {
+      if (g.to > last.to) last.to = g.to;
+    } else {
+      windows.push({ from: g.from, to: g.to });
+    }
+  }
+  return windows;
+}
+
+const inside = (gaps: Gap[], stream: Stream, t: number) =>
+  gaps.some((g) => g.stream === stream && t > g.from.getTime() && t < g.to.getTime());
+
+/**
+ * Drop the gaps that lie inside a window an earlier pass already fetched:
+ * the device log had nothing more to give for them.
+ */
+async function untriedGaps(deviceId: string, gaps: Gap[], from: Date): Promise<Gap[]> {
+  if (gaps.length === 0) return gaps;
+  const tried = await prisma.backfillAttempt.findMany({
+    where: { deviceId, toUtc: { gt: from } },
+    select: { fromUtc: true, toUtc: true }
+  });
+  return gaps.filter((g) => !tried.some((a: { fromUtc: Date; toUtc: Date }) => a.fromUtc <= g.from && a.toUtc >= g.to));
+}
+
+async function backfillDevice(deviceId: string, from: Date, to: Date, p: BackfillProgress): Promise<DeviceBackfill> {
+  const found = await findGaps(deviceId, from, to);
+  // a manual pass retries everything it finds
+  const gaps = p.trigger === "manual" ? found : await untriedGaps(deviceId, found, from);
+  const result: DeviceBackfill = { deviceId, gaps, skipped: found.length - gaps.length, healthInserted: 0, energyInserted: 0, apiCalls: 0 };
+  p.gaps += result.gaps.length;
+
+  let minTs = Infinity;
+  let maxTs = -Infinity;
+  for (const window of fetchWindows(result.gaps)) {
+    const entries = await fetchLogs(deviceId, window.from, window.to, () => { result.apiCalls++; p.apiCalls++; });
+    const inserted = result.healthInserted + result.energyInserted;
+
+    for (const snap of reportsToSnapshots(entries)) {
+      const t = snap.ts.getTime();
+      const codes = Array.from(snap.codes);
+      if (codes.some((c) => HEALTH_CODES.has(c)) && inside(result.gaps, "health", t)) {
+        if ((await ingestHealth(deviceId, snap.status, true, snap.ts, "backfill")) === "stored") {
+          result.healthInserted++;
+          p.healthInserted++;
+        }
+      }
+      if (codes.some((c) => ENERGY_CODES.has(c)) && inside(result.gaps, "energy", t)) {
+        if ((await ingestEnergy(deviceId, snap.status, true, snap.ts, "backfill")) === "stored") {
+          result.energyInserted++;
+          p.energyInserted++;
+        }
+      }
+      minTs = Math.min(minTs, t);
+      maxTs = Math.max(maxTs, t);
+    }
+
+    await prisma.backfillAttempt.create({
+      data: { deviceId, fromUtc: window.from, toUtc: window.to, recovered: result.healthInserted + result.energyInserted - inserted }
+    });
+  }
+
+  if (result.healthInserted + result.energyInserted > 0) {
+    await recomputeRange(new Date(minTs), new Date(maxTs + 1), deviceId);
+  }
+  return result;
+}
+
+async function runBackfill(p: BackfillProgress, deviceIds: string[]): Promise<BackfillProgress> {
+  try {
+    // windows that ended before the look-back can't come up again
+    await prisma.backfillAttempt.deleteMany({ where: { toUtc: { lt: new Date(p.toUtc.getTime() - LOOKBACK_DAYS * DAY_MS) } } });
+    for (const deviceId of deviceIds) {
+      p.currentDevice = deviceId;
+      try {
+        p.devices.push(await backfillDevice(deviceId, p.fromUtc, p.toUtc, p));
+      } catch (e: any) {
+        if (e instanceof BackfillBlockedError) throw e;
+        console.error(`[BACKFILL] Device ${deviceId} failed:`, e);
+        p.devices.push({ deviceId, gaps: [], skipped: 0, healthInserted: 0, energyInserted: 0, apiCalls: 0, error: e?.message || String(e) });
+      }
+      p.devicesDone++;
+    }
+    p.status = "done";
+  } catch (e: any) {
+    p.status = e instanceof BackfillBlockedError ? "blocked" : "failed";
+    p.error = e?.message || String(e);
+  }
+
+  p.currentDevice = null;
+  p.finishedAt = new Date();
+  await prisma.backfillRun.update({
+    where: { id: p.runId },
+    data: {
+      status: p.status,
+      finishedAt: p.finishedAt,
+      devices: p.devicesDone,
+      gaps: p.gaps,
+      healthInserted: p.healthInserted,
+      energyInserted: p.energyInserted,
+      apiCalls: p.apiCalls,
+      error: p.error,
+      detail: p.devices
+    }
+    // runs in the background: a lost history row must not become an unhandled rejection
+  }).catch((e: any) => console.error(`[BACKFILL] Could not record run #${p.runId}:`, e));
+  console.log(`[BACKFILL] Run #${p.runId} ${p.status}: ${p.gaps} gap(s), ${p.healthInserted} health + ${p.energyInserted} energy sample(s), ${p.apiCalls} call(s)`);
+  return p;
+}
+
+/**
+ * Start a backfill pass in the background. Only one runs at a time: while one
+ * is in progress this returns it with started=false.
+ */
+export async function startBackfill(opts: {
+  trigger: "manual" | "startup" | "scheduled";
+  deviceIds?: string[];
+  from?: Date;
+  to?: Date;
+}): Promise<{ started: boolean; progress: BackfillProgress }> {
+  if (inFlight && progress) return { started: false, progress };
+
+  const toUtc = opts.to ?? new Date();
+  const fromUtc = opts.from ?? new Date(toUtc.getTime() - LOOKBACK_DAYS * DAY_MS);
+  const settings = await getEffectivePollerSettings();
+  const deviceIds = opts.deviceIds?.length
+    ? opts.deviceIds
+    : (await prisma.device.findMany({ where: { removedAtUtc: null }, select: { deviceId: true } })).map((d: { deviceId: string }) => d.deviceId);
+
+  const run = await prisma.backfillRun.create({
+    data: { trigger: opts.trigger, status: settings.masterKillSwitch ? "blocked" : "running", fromUtc, toUtc }
+  });
+  const p: BackfillProgress = {
+    runId: run.id,
+    trigger: opts.trigger,
+    status: "running",
+    fromUtc,
+    toUtc,
+    startedAt: run.startedAt,
+    finishedAt: null,
+    devicesTotal: deviceIds.length,
+    devicesDone: 0,
+    currentDevice: null,
+    gaps: 0,
+    healthInserted: 0,
+    energyInserted: 0,
+    apiCalls: 0,
+    devices: [],
+    error: null,
+  };
+  progress = p;
+
+  if (settings.masterKillSwitch) {
+    p.status = "blocked";
+    p.error = "Blocked by master kill switch";
+    p.finishedAt = new Date();
+    await prisma.backfillRun.update({ where: { id: run.id }, data: { finishedAt: p.finishedAt, error: p.error } });
+    return { started: false, progress: p };
+  }
+
+  console.log(`[BACKFILL] Run #${run.id} (${opts.trigger}) over ${deviceIds.length} device(s), ${fromUtc.toISOString()} to ${toUtc.toISOString()}`);
+  inFlight = runBackfill(p, deviceIds).finally(() => { inFlight = null; });
+  return { started: true, progress: p };
+}
+
+/**
+ * The current (or most recent) run's progress, if any ran since startup.
+ */
+export function getBackfillProgress(): BackfillProgress | null {
+  return progress;
+}
+
+/**
+ * Past runs, newest first.
+ */
+export async function listBackfillRuns(take = 20) {
+  return prisma.backfillRun.findMany({ orderBy: { startedAt: "desc" }, take });
+}
@@ -0,0 +1,132 @@
+// server/commands.ts
+// Guarded device control: whitelist + per-device "control allowed" flag,
+// every attempt (sent or refused) recorded in the DeviceCommand audit table.
+import { PrismaClient } from "@prisma/client";
+import { tuyaForDevice } from "./tuya";
+import { storage } from "./storage";
+
+const prisma = new PrismaClient();
+
+export type DeviceCommandInput = { code: string; value: any };
+
+export type CommandSource = "ui" | "api" | "automation";
+
+// DP codes we are willing to send, with the value each accepts
+const WHITELIST: Record<string, (value: any) => boolean> = {
+  switch_1: (v) => typeof v === "boolean",
+  countdown_1: (v) => Number.isInteger(v) && v >= 0 && v <= 86400, // seconds
+};
+
+export const ALLOWED_COMMAND_CODES = Object.keys(WHITELIST);
+
+export class CommandRejectedError extends Error {
+  constructor(message: string, public readonly status: number, public readonly auditId?: number) {
+    super(message);
+    this.name = "CommandRejectedError";
+  }
+}
+
+/**
+ * Check codes and values against the whitelist. Returns an error message, or null if valid.
+ */
+export function validateCommands(commands: unknown): string | null {
+  if (!Array.isArray(commands) || commands.length === 0) return "commands must be a non-empty array of { code, value }";
+  for (const cmd of commands as DeviceCommandInput[]) {
+    const check = WHITELIST[cmd?.code];
+    if (!check) return `Command '${cmd?.code}' is not allowed (allowed: ${ALLOWED_COMMAND_CODES.join(", ")})`;
+    if (!check(cmd.value)) return `Invalid value for '${cmd.code}'`;
+  }
+  return null;
+}
+
+async function audit(data: {
+  deviceId: string;
+  actor: string;
+  source: CommandSource;
+  commands: DeviceCommandInput[];
+  success: boolean;
+  error?: string;
+  tuyaResponse?: any;
+  resultingStatus?: any;
+}) {
+  return prisma.deviceCommand.create({ data });
+}
+
+/**
+ * Send whitelisted commands to a device that has control enabled, then read
+ * its status back. Throws CommandRejectedError (already audited) when refused.
+ */
+export async function sendDeviceCommands(
+  deviceId: string,
+  commands: DeviceCommandInput[],
+  opts: { actor: string; source: CommandSource }
+) {
+  const base = { deviceId, actor: opts.actor, source: opts.source, commands };
+
+  const invalid = validateCommands(commands);
+  if (invalid) {
+    const row = await audit({ ...base, commands: Array.isArray(commands) ? commands : [], success: false, error: invalid });
+    throw new CommandRejectedError(invalid, 400, row.id);
+  }
+
+  const settings = await storage.getDeviceSettings(deviceId);
+  if (!settings?.controlAllowed) {
+    const error = "Control is not allowed for this device (enable it in device settings)";
+    const row = await audit({ ...base, success: false, error });
+    throw new CommandRejectedError(error, 403, row.id);
+  }
+
+  let tuya: Awaited<ReturnType<typeof tuyaForDevice>>;
+  let tuyaResponse: any;
+  try {
+    // resolving the device's account can fail too (account removed or inactive)
+    tuya = await tuyaForDevice(deviceId);
+    // Tuya OpenAPI: POST /v1.0/devices/{device_id}/commands
+    tuyaResponse = await tuya.request({
+      path: `/v1.0/devices/${deviceId}/commands`,
+      method: "POST",
+      body: { commands }
+    });
+  } catch (e: any) {
+    await audit({ ...base, success: false, error: e?.message || String(e) });
+    throw e;
+  }
+
+  if (tuyaResponse?.masterKillSwitchEnabled) {
+    const error = "Blocked by master kill switch";
+    const row = await audit({ ...base, success: false, error, tuyaResponse });
+    throw new CommandRejectedError(error, 409, row.id);
+  }
+
+  const success = Boolean(tuyaResponse?.success);
+  let resultingStatus: any = null;
+  if (success) {
+    try {
+      const statusResp: any = await tuya.request({ path: `/v1.0/devices/${deviceId}/status`, method: "GET" });
+      resultingStatus = statusResp?.result ?? null;
+    } catch (e) {
+      console.warn(`[COMMANDS] Could not read back status for ${deviceId}:`, e);
+    }
+  }
+
+  const row = await audit({
+    ...base,
+    success,
+    error: success ? undefined : (tuyaResponse?.msg || `Tuya error ${tuyaResponse?.code ?? "unknown"}`),
+    tuyaResponse,
+    resultingStatus,
+  });
+  console.log(`[COMMANDS] ${opts.source}:${opts.actor} -> ${deviceId} ${JSON.stringify(commands)}: ${success ? "ok" : row.error}`);
+  return row;
+}
+
+/**
+ * Most recent audit entries, newest first (optionally for one device).
+ */
+export async function listDeviceCommands(deviceId?: string, take = 100) {
+  return prisma.deviceCommand.findMany({
+    where: deviceId ? { deviceId } : undefined,
+    orderBy: { tsUtc: "desc" },
+    take,
+  });
+}
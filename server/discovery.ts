@@ -0,0 +1,241 @@
+// server/discovery.ts
+import { PrismaClient } from "@prisma/client";
+import { getTuyaAccounts, getTuyaClient, rememberDeviceAccount } from "./tuya";
+import { rememberDeviceCategory } from "./sensors";
+
+const prisma = new PrismaClient();
+
+const LIST_PATH = "/v1.0/iot-01/associated-users/devices";
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50; // safety net: 5,000 devices
+
+export type DiscoveredDevice = {
+  id: string;
+  name?: string;
+  product_name?: string;
+  product_id?: string;
+  category?: string;
+  category_name?: string;
+  online: boolean;
+  accountId: string;
+  // true when this account's list call failed and the entry comes from its previous cycle
+  stale?: boolean;
+  status?: Array<{ code: string; value: any }>;
+  active_time?: number;
+  update_time?: number;
+  [key: string]: any;
+};
+
+export type AccountDiscovery = {
+  accountId: string;
+  name: string;
+  devices: number;
+  pages: number;
+  // listed: this cycle fetched the account's devices (possibly cut short at
+  // MAX_PAGES); complete: the whole list, so missing devices count as removed
+  listed: boolean;
+  complete: boolean;
+};
+
+export type DiscoverySnapshot = {
+  devices: DiscoveredDevice[];
+  removed: string[];
+  discoveredAt: Date;
+  pages: number;
+  // false when any account's list call was blocked (kill switch), returned garbage or
+  // was cut short; no device of that account is then flagged as removed
+  complete: boolean;
+  accounts: AccountDiscovery[];
+};
+
+let lastSnapshot: DiscoverySnapshot | null = null;
+// last complete device list per account, served (marked stale) while that account is failing
+const lastByAccount = new Map<string, DiscoveredDevice[]>();
+let inFlight: Promise<DiscoverySnapshot> | null = null;
+
+type PageWalk = {
+  devices: DiscoveredDevice[];
+  pages: number;
+  complete: boolean;
+  truncated: boolean; // the devices are real, but the walk stopped before the end of the list
+};
+
+/**
+ * Walk every page of the associated-users device list.
+ * Supports both the `last_row_key` cursor variant and plain `page_no` paging.
+ */
+async function fetchAllPages(accountId: string): Promise<PageWalk> {
+  const tuya = await getTuyaClient(accountId);
+  const byId = new Map<string, DiscoveredDevice>();
+  let pageNo = 1;
+  let lastRowKey: string | undefined;
+  let pages = 0;
+
+  while (pages < MAX_PAGES) {
+    const query: Record<string, any> = lastRowKey
+      ? { last_row_key: lastRowKey, page_size: PAGE_SIZE, size: PAGE_SIZE }
+      : { page_no: pageNo, page_size: PAGE_SIZE, size: PAGE_SIZE };
+
+    const resp: any = await tuya.request({ path: LIST_PATH, method: "GET", query });
+    pages++;
+
+    if (resp?.masterKillSwitchEnabled || !resp?.success || !resp?.result) {
+      return { devices: Array.from(byId.values()), pages, complete: false, truncated: false };
+    }
+
+    const result = resp.result;
+    const list: any[] = result.devices ?? result.list ?? [];
+    for (const d of list) {
+      const id = d.id ?? d.device_id;
+      if (!id) continue;
+      byId.set(id, { ...d, id, accountId, online: Boolean(d.online) });
+    }
+
+    const hasMore = result.has_more ?? list.length >= PAGE_SIZE;
+    if (!hasMore || list.length === 0) {
+      return { devices: Array.from(byId.values()), pages, complete: true, truncated: false };
+    }
+
+    if (result.last_row_key) {
+      if (result.last_row_key === lastRowKey) {
+        console.warn(`[DISCOVERY] Page cursor did not advance for account ${accountId}; device list may be truncated`);
+        return { devices: Array.from(byId.values()), pages, complete: false, truncated: true };
+      }
+      lastRowKey = result.last_row_key;
+    } else {
+      pageNo++;
+    }
+  }
+
+  // a truncated list must not mark the devices beyond it removed
+  console.warn(`[DISCOVERY] Stopped after ${MAX_PAGES} pages for account ${accountId}; device list may be truncated`);
+  return { devices: Array.from(byId.values()), pages, complete: false, truncated: true };
+}
+
+/**
+ * Upsert every freshly listed device, and flag the ones that left the accounts
+ * that listed completely. Devices of failing or truncated accounts are not flagged.
+ */
+async function persist(devices: DiscoveredDevice[], completeAccounts: string[], allComplete: boolean, now: Date): Promise<string[]> {
+  for (const device of devices) {
+    rememberDeviceAccount(device.id, device.accountId);
+    rememberDeviceCategory(device.id, device.category);
+    await prisma.device.upsert({
+      where: { deviceId: device.id },
+      update: {
+        accountId: device.accountId,
+        name: device.name,
+        productName: device.product_name,
+        productId: device.product_id,
+        category: device.category,
+        lastSeenUtc: now,
+        lastOnlineUtc: device.online ? now : undefined,
+        lastStatus: device.status,
+        removedAtUtc: null
+      },
+      create: {
+        deviceId: device.id,
+        accountId: device.accountId,
+        name: device.name,
+        productName: device.product_name,
+        productId: device.product_id,
+        category: device.category,
+        firstSeenUtc: now,
+        lastSeenUtc: now,
+        lastOnlineUtc: device.online ? now : undefined,
+        lastStatus: device.status
+      }
+    });
+  }
+
+  // untagged rows predate accounts; only judge them once every account has listed
+  const scope = allComplete
+    ? [{ accountId: { in: completeAccounts } }, { accountId: null }]
+    : [{ accountId: { in: completeAccounts } }];
+  const gone = await prisma.device.findMany({
+    where: {
+      removedAtUtc: null,
+      deviceId: { notIn: devices.map((d) => d.id) },
+      OR: scope
+    },
+    select: { deviceId: true }
+  });
+  const removed = gone.map((d: { deviceId: string }) => d.deviceId);
+
+  if (removed.length > 0) {
+    await prisma.device.updateMany({
+      where: { deviceId: { in: removed } },
+      data: { removedAtUtc: now }
+    });
+    console.log(`[DISCOVERY] Marked ${removed.length} device(s) as removed: ${removed.join(", ")}`);
+  }
+  return removed;
+}
+
+async function runDiscovery(): Promise<DiscoverySnapshot> {
+  const now = new Date();
+  const byId = new Map<string, DiscoveredDevice>();
+  const fresh: DiscoveredDevice[] = [];
+  const accounts: AccountDiscovery[] = [];
+  let pages = 0;
+
+  for (const account of await getTuyaAccounts()) {
+    let result: PageWalk = { devices: [], pages: 0, complete: false, truncated: false };
+    try {
+      result = await fetchAllPages(account.id);
+    } catch (e: any) {
+      console.warn(`[DISCOVERY] Account ${account.id} failed: ${e?.message || e}`);
+    }
+    pages += result.pages;
+
+    // Keep serving an account's previous list rather than pretending it is empty,
+    // but flag it so pollers don't store stale status as fresh samples. A truncated
+    // list is fresh as far as it goes; it just can't tell which devices left.
+    const listed = result.complete || result.truncated;
+    const list = listed
+      ? result.devices
+      : (lastByAccount.get(account.id) ?? []).map((d) => ({ ...d, stale: true }));
+    if (result.complete) lastByAccount.set(account.id, result.devices);
+
+    for (const d of list) {
+      if (byId.has(d.id)) continue; // same device shared into two accounts: first one wins
+      byId.set(d.id, d);
+      if (listed) fresh.push(d);
+    }
+    accounts.push({ accountId: account.id, name: account.name, devices: list.length, pages: result.pages, listed, complete: result.complete });
+  }
+
+  const completeAccounts = accounts.filter((a) => a.complete).map((a) => a.accountId);
+  const complete = accounts.length > 0 && completeAccounts.length === accounts.length;
+  const removed = fresh.length > 0 ? await persist(fresh, completeAccounts, complete, now) : [];
+
+  const devices = Array.from(byId.values());
+  console.log(`[DISCOVERY] ${devices.length} device(s) across ${accounts.length} account(s), ${pages} page(s)`);
+  const snapshot: DiscoverySnapshot = { devices, removed, discoveredAt: now, pages, complete, accounts };
+  if (accounts.some((a) => a.listed)) lastSnapshot = snapshot;
+  return snapshot;
+}
+
+/**
+ * Run a discovery cycle (or reuse one that is younger than maxAgeMs).
+ * Concurrent callers share the same in-flight cycle, so the list is
+ * fetched and the Device table upserted only once per cycle.
+ */
+export async function discoverDevices(opts: { maxAgeMs?: number } = {}): Promise<DiscoverySnapshot> {
+  const maxAgeMs = opts.maxAgeMs ?? 0;
+  if (lastSnapshot && Date.now() - lastSnapshot.discoveredAt.getTime() <= maxAgeMs) {
+    return lastSnapshot;
+  }
+  if (!inFlight) {
+    inFlight = runDiscovery().finally(() => { inFlight = null; });
+  }
+  return inFlight;
+}
+
+/**
+ * Convenience: just the device list from a (possibly cached) discovery cycle.
+ */
+export async function getDiscoveredDevices(opts: { maxAgeMs?: number } = {}): Promise<DiscoveredDevice[]> {
+  const snapshot = await discoverDevices(opts);
+  return snapshot.devices;
+}
@@ -0,0 +1,162 @@
+// server/dpscale.ts
+// Per-device DP scaling from GET /v1.0/devices/{id}/specifications, cached in
+// memory and on the Device row, with per-product overrides for broken specs.
+import { PrismaClient } from "@prisma/client";
+import { currentTuyaCaller, tuyaForDevice, type TuyaCaller } from "./tuya";
+import { DEFAULT_DP_SCALES, normalizeFromStatus, scaleDp, type DpScaleMap, type TuyaStatus } from "./normalize";
+
+const prisma = new PrismaClient();
+
+const SPEC_TTL_MS = 7 * 24 * 60 * 60 * 1000; // specs only change with firmware updates
+const RETRY_AFTER_MS = 10 * 60 * 1000;       // after a failed fetch, use defaults this long
+const OVERRIDE_TTL_MS = 60 * 1000;
+
+const specCache = new Map<string, { scales: DpScaleMap; productId: string | null; expiresAt: number }>();
+const inFlight = new Map<string, Promise<DpScaleMap>>();
+let overrideCache: { byProduct: Map<string, DpScaleMap>; expiresAt: number } | null = null;
+// specification requests sent to Tuya per caller, so the poller can charge its own to its budget
+const specFetches = new Map<TuyaCaller, number>();
+
+/**
+ * Pull the integer DPs out of a specifications result.
+ * `values` is a JSON string like {"unit":"W","min":0,"max":99999,"scale":1,"step":1}.
+ */
+export function parseSpecification(result: any): DpScaleMap {
+  const scales: DpScaleMap = {};
+  // status entries describe what the device reports; functions are the fallback
+  const entries = [...(result?.functions ?? []), ...(result?.status ?? [])];
+  for (const entry of entries) {
+    if (!entry?.code || !/^(integer|value)$/i.test(String(entry.type ?? ""))) continue;
+    let values: any;
+    try {
+      values = typeof entry.values === "string" ? JSON.parse(entry.values) : entry.values;
+    } catch {
+      continue;
+    }
+    const scale = Number(values?.scale ?? 0);
+    if (!Number.isInteger(scale) || scale < 0 || scale > 6) continue;
+    scales[entry.code] = {
+      scale,
+      unit: String(values?.unit ?? ""),
+      min: values?.min != null ? Number(values.min) : undefined,
+      max: values?.max != null ? Number(values.max) : undefined,
+      source: "spec",
+    };
+  }
+  return scales;
+}
+
+async function loadOverrides(): Promise<Map<string, DpScaleMap>> {
+  if (overrideCache && overrideCache.expiresAt > Date.now()) return overrideCache.byProduct;
+  const rows = await prisma.dpScaleOverride.findMany();
+  const byProduct = new Map<string, DpScaleMap>();
+  for (const row of rows) {
+    const map = byProduct.get(row.productId) ?? {};
+    map[row.code] = { scale: row.scale, unit: row.unit ?? DEFAULT_DP_SCALES[row.code]?.unit ?? "", source: "override" };
+    byProduct.set(row.productId, map);
+  }
+  overrideCache = { byProduct, expiresAt: Date.now() + OVERRIDE_TTL_MS };
+  return byProduct;
+}
+
+async function fetchSpec(deviceId: string): Promise<{ scales: DpScaleMap; productId: string | null }> {
+  const device = await prisma.device.findUnique({
+    where: { deviceId },
+    select: { productId: true, dpSpecs: true, dpSpecsFetchedUtc: true }
+  });
+  const productId = device?.productId ?? null;
+
+  // persisted copy survives restarts so we don't re-spend calls on every boot
+  if (device?.dpSpecs && device.dpSpecsFetchedUtc && Date.now() - device.dpSpecsFetchedUtc.getTime() < SPEC_TTL_MS) {
+    return { scales: device.dpSpecs as DpScaleMap, productId };
+  }
+
+  const tuya = await tuyaForDevice(deviceId);
+  const caller = currentTuyaCaller();
+  specFetches.set(caller, (specFetches.get(caller) ?? 0) + 1);
+  const resp: any = await tuya.request({ path: `/v1.0/devices/${deviceId}/specifications`, method: "GET" });
+  if (resp?.masterKillSwitchEnabled || !resp?.success || !resp?.result) {
+    throw new Error(resp?.msg || "specification unavailable");
+  }
+
+  const scales = parseSpecification(resp.result);
+  await prisma.device.updateMany({
+    where: { deviceId },
+    data: { dpSpecs: scales, dpSpecsFetchedUtc: new Date() }
+  });
+  return { scales, productId };
+}
+
+async function loadSpec(deviceId: string) {
+  const cached = specCache.get(deviceId);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  try {
+    const { scales, productId } = await fetchSpec(deviceId);
+    const entry = { scales, productId, expiresAt: Date.now() + SPEC_TTL_MS };
+    specCache.set(deviceId, entry);
+    return entry;
+  } catch (e: any) {
+    console.warn(`[DPSCALE] Using default scales for ${deviceId}: ${e?.message || e}`);
+    const device = await prisma.device.findUnique({ where: { deviceId }, select: { productId: true } }).catch(() => null);
+    const entry = { scales: {}, productId: device?.productId ?? null, expiresAt: Date.now() + RETRY_AFTER_MS };
+    specCache.set(deviceId, entry);
+    return entry;
+  }
+}
+
+/**
+ * Effective scales for a device: defaults, then its specification, then any
+ * override for its product. Never throws; falls back to the defaults.
+ */
+export async function getDpScales(deviceId: string): Promise<DpScaleMap> {
+  let pending = inFlight.get(deviceId);
+  if (!pending) {
+    pending = (async () => {
+      const { scales, productId } = await loadSpec(deviceId);
+      const overrides = productId ? (await loadOverrides()).get(productId) : undefined;
+      return { ...DEFAULT_DP_SCALES, ...scales, ...(overrides ?? {}) };
+    })().finally(() => inFlight.delete(deviceId));
+    inFlight.set(deviceId, pending);
+  }
+  return pending;
+}
+
+/**
+ * normalizeFromStatus with the device's own scales.
+ */
+export async function normalizeDeviceStatus(deviceId: string, status: TuyaStatus) {
+  return normalizeFromStatus(status, await getDpScales(deviceId));
+}
+
+/**
+ * Annotate raw DPs (status or log entries) with their scaled value and unit
+ * so clients never apply their own factors.
+ */
+export async function annotateDps<T extends { code: string; value: any }>(deviceId: string, dps: T[]): Promise<Array<T & { scaledValue?: number; unit?: string }>> {
+  const scales = await getDpScales(deviceId);
+  return dps.map((dp) => {
+    const scaled = scaleDp(dp.code, dp.value, scales);
+    return scaled ? { ...dp, scaledValue: scaled.value, unit: scaled.unit } : dp;
+  });
+}
+
+/**
+ * Drop the cached spec (and persisted copy) so the next lookup refetches it.
+ */
+export async function refreshDpScales(deviceId: string): Promise<DpScaleMap> {
+  specCache.delete(deviceId);
+  await prisma.device.updateMany({ where: { deviceId }, data: { dpSpecsFetchedUtc: null } });
+  return getDpScales(deviceId);
+}
+
+/**
+ * How many specification requests `caller` has sent since startup.
+ */
+export function specFetchCount(caller: TuyaCaller): number {
+  return specFetches.get(caller) ?? 0;
+}
+
+export function clearDpScaleOverrideCache() {
+  overrideCache = null;
+}
@@ -7,7 +7,11 @@ import { setupVite, serveStatic, log } from "./vite";
 import { startPollerSupervisor } from "./jobs/poller";
 import { startRollupScheduler } from "./jobs/rollups";
 import { startRetentionScheduler } from "./jobs/retention";
+import { startRealtimeIngestion, stopRealtimeIngestion } from "./jobs/realtime";
+import { startAutomationScheduler } from "./jobs/automations";
+import { startBackfillScheduler } from "./jobs/backfill";
 import { ensureCounterRow } from "./storage.tuyaCounters";
+import { isLeader, startLeaderElection } from "./leader";
 
 const prisma = new PrismaClient();
 
@@ -79,15 +83,32 @@ app.use((req, res, next) => {
     console.error("[SEED] Failed to seed AppSettings:", error);
   }
   
+  // Elect the scheduler leader: with several replicas only the lease holder runs
+  // background jobs. The schedulers below start everywhere and skip their runs
+  // while this instance is a standby; the realtime subscription follows leadership.
+  await startLeaderElection({
+    onElected: startRealtimeIngestion,
+    onDemoted: stopRealtimeIngestion,
+  });
+
   // Start background pollers for data ingestion
   startPollerSupervisor();
   
+  // Start realtime ingestion from the Tuya message service (opt-in)
+  if (isLeader()) startRealtimeIngestion();
+  
   // Start rollup scheduler for aggregating time-series data
   startRollupScheduler();
   
   // Start retention scheduler for data cleanup
   startRetentionScheduler();
 
+  // Start scheduler for time-triggered automation rules
+  startAutomationScheduler();
+
+  // Start gap backfill scheduler (recovers missed samples from device logs)
+  startBackfillScheduler();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
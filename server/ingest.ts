@@ -0,0 +1,212 @@
+// server/ingest.ts
+// Shared sample pipeline used by the pollers and the realtime message consumer:
+// normalizeDeviceStatus -> RawHealth / RawEnergy -> detectAnomalies -> evaluateAlertsForDevice -> evaluateAutomationsForDevice
+// Sensor categories (see sensors.ts) take the health stream into SensorReading instead.
+// Rows are stamped with the device-reported observation time plus the server receive time;
+// a live sample the device hasn't updated since the last stored one is skipped.
+import { PrismaClient } from "@prisma/client";
+import { type TuyaStatus } from "./normalize";
+import { normalizeDeviceStatus } from "./dpscale";
+import { detectAnomalies } from "./logic/anomaly";
+import { storage } from "./storage";
+import { evaluateAlertsForDevice } from "./alerts";
+import { evaluateAutomationsForDevice } from "./automations";
+import { getDeviceCategory, isSensorCategory, storeSensorReadings } from "./sensors";
+
+const prisma = new PrismaClient();
+
+/**
+ * What happened to one device's sample for one stream (health or energy).
+ * "offline" health samples are still stored, zeroed, so outages show up in charts.
+ */
+export type IngestOutcome = "stored" | "duplicate" | "skipped-by-settings" | "offline" | "no-data" | "error";
+
+/**
+ * Where a sample came from. Backfilled samples are historical, so they skip
+ * anomaly detection, alerts and automations.
+ */
+export type SampleSource = "live" | "backfill";
+
+type Stream = "health" | "energy";
+
+// A device that hasn't reported for this long is stored again, at receive time,
+// so steady loads keep showing up in charts (and stay under backfill's 10 min gap floor).
+// Not for incremental energy counters, where a repeated reading would count twice.
+const REPEAT_AFTER_MS = Number(process.env.INGEST_REPEAT_AFTER_MS) || 5 * 60 * 1000;
+// Device times further ahead of our clock than this are not trusted
+const MAX_CLOCK_AHEAD_MS = 60 * 1000;
+
+// Latest stored live observation per stream and device, seeded from the DB on first use
+const lastObserved = new Map<string, number>();
+
+/**
+ * When the device observed the state in a Tuya payload: the newest DP `t`,
+ * else the device's `update_time`, else the fallback (usually the receive time).
+ * Tuya mixes seconds and milliseconds; both are accepted.
+ */
+export function deviceObservedAt(
+  payload: { status?: Array<{ code: string; value: any; t?: number }>; update_time?: number }, fallback: Date
+): Date {
+  const toMs = (t: number) => (t < 1e12 ? t * 1000 : t);
+  const dpTimes = (payload.status ?? []).map((dp) => Number(dp.t) || 0).filter((t) => t > 0);
+  if (dpTimes.length > 0) return new Date(toMs(Math.max(...dpTimes)));
+  if (payload.update_time) return new Date(toMs(Number(payload.update_time)));
+  return fallback;
+}
+
+async function lastObservedAt(deviceId: string, stream: Stream): Promise<number> {
+  const key = `${stream}:${deviceId}`;
+  const cached = lastObserved.get(key);
+  if (cached !== undefined) return cached;
+  const row = stream === "health"
+    ? await prisma.rawHealth.findFirst({ where: { deviceId, channel: "" }, orderBy: { tsUtc: "desc" }, select: { tsUtc: true } })
+    : await prisma.rawEnergy.findFirst({ where: { deviceId }, orderBy: { tsUtc: "desc" }, select: { tsUtc: true } });
+  const at = row?.tsUtc.getTime() ?? 0;
+  lastObserved.set(key, at);
+  return at;
+}
+
+/**
+ * Timestamp for a live sample, or null when it repeats the last stored
+ * observation (the device hasn't reported since the previous poll) and
+ * `repeat` is off or REPEAT_AFTER_MS hasn't passed.
+ */
+async function liveSampleTime(
+  deviceId: string, stream: Stream, observedAt: Date, receivedAt: Date, repeat: boolean = true
+): Promise<Date | null> {
+  const observed = observedAt.getTime() > receivedAt.getTime() + MAX_CLOCK_AHEAD_MS ? receivedAt : observedAt;
+  const last = await lastObservedAt(deviceId, stream);
+  if (observed.getTime() > last) return observed;
+  if (repeat && receivedAt.getTime() - last >= REPEAT_AFTER_MS) return receivedAt;
+  return null;
+}
+
+async function isStorageEnabled(deviceId: string): Promise<boolean> {
+  const deviceSettings = await storage.getDeviceSettings(deviceId);
+  return deviceSettings?.dataStorageEnabled ?? true; // Default to enabled if no settings found
+}
+
+/**
+ * Store one energy sample. ts is the observation time; receivedAt when the
+ * server got it (defaults to now).
+ */
+export async function ingestEnergy(
+  deviceId: string, status: TuyaStatus, online: boolean, ts: Date, source: SampleSource = "live", receivedAt: Date = new Date()
+): Promise<IngestOutcome> {
+  // Offline devices don't consume energy so we skip recording
+  if (!online) return "offline";
+
+  const normalized = await normalizeDeviceStatus(deviceId, status);
+  if (normalized.addEleKwh === undefined) return "no-data";
+  const settings = await storage.getDeviceSettings(deviceId);
+  if (!(settings?.dataStorageEnabled ?? true)) return "skipped-by-settings";
+
+  // each incremental reading is energy since the previous report: store it once
+  const repeat = settings?.energyCounterMode !== "incremental";
+  const tsUtc = source === "live" ? await liveSampleTime(deviceId, "energy", ts, receivedAt, repeat) : ts;
+  if (!tsUtc) return "duplicate";
+
+  await prisma.rawEnergy.create({
+    data: {
+      deviceId,
+      tsUtc,
+      receivedAtUtc: receivedAt,
+      addEleKwh: normalized.addEleKwh,
+      source
+    }
+  });
+  if (source === "live") lastObserved.set(`energy:${deviceId}`, tsUtc.getTime());
+  return "stored";
+}
+
+/**
+ * Store one sensor sample (temperature, contact state, ...), then run alert
+ * and automation rules. Offline sensors store nothing: a zeroed temperature
+ * would read as a real value.
+ */
+async function ingestSensor(
+  deviceId: string, category: string, status: TuyaStatus, online: boolean, ts: Date, source: SampleSource
+): Promise<IngestOutcome> {
+  if (!online) return "offline";
+  if (!(await isStorageEnabled(deviceId))) return "skipped-by-settings";
+
+  const stored = await storeSensorReadings(deviceId, category, status, ts, source);
+  if (stored === 0) return "no-data";
+  if (source === "backfill") return "stored";
+
+  await evaluateAlertsForDevice(deviceId);
+  await evaluateAutomationsForDevice(deviceId);
+  return "stored";
+}
+
+/**
+ * Store one health sample, then run anomaly detection and alert rules. ts is
+ * the observation time; receivedAt when the server got it (defaults to now).
+ */
+export async function ingestHealth(
+  deviceId: string, status: TuyaStatus, online: boolean, ts: Date, source: SampleSource = "live", receivedAt: Date = new Date()
+): Promise<IngestOutcome> {
+  const category = await getDeviceCategory(deviceId);
+  if (category && isSensorCategory(category)) return ingestSensor(deviceId, category, status, online, ts, source);
+
+  const normalized = await normalizeDeviceStatus(deviceId, status);
+
+  // If device is offline, zero out all electrical readings since device is powered off or disconnected
+  const finalValues = online ? normalized : {
+    powerW: 0,
+    voltageV: 0,
+    currentA: 0,
+    pfEst: 0,
+    addEleKwh: 0
+  };
+
+  if (!(await isStorageEnabled(deviceId))) return "skipped-by-settings";
+
+  // an offline sample is the server's own observation, stamped when received
+  const tsUtc = source === "live" ? await liveSampleTime(deviceId, "health", online ? ts : receivedAt, receivedAt) : ts;
+  if (!tsUtc) return "duplicate";
+
+  await prisma.rawHealth.create({
+    data: {
+      deviceId,
+      tsUtc,
+      receivedAtUtc: receivedAt,
+      powerW: finalValues.powerW != null ? Math.round(finalValues.powerW) : undefined,
+      voltageV: finalValues.voltageV,
+      currentA: finalValues.currentA,
+      pfEst: finalValues.pfEst,
+      imbalancePct: online ? normalized.imbalancePct : undefined,
+      online,
+      source
+    }
+  });
+  // Per-phase / per-outlet rows alongside the device total (channel "")
+  if (online && normalized.channels.length > 0) {
+    await prisma.rawHealth.createMany({
+      data: normalized.channels.map((c) => ({
+        deviceId,
+        tsUtc,
+        receivedAtUtc: receivedAt,
+        channel: c.channel,
+        powerW: c.powerW != null ? Math.round(c.powerW) : undefined,
+        voltageV: c.voltageV,
+        currentA: c.currentA,
+        pfEst: c.pfEst,
+        online,
+        source
+      }))
+    });
+  }
+  if (source === "backfill") return online ? "stored" : "offline";
+  lastObserved.set(`health:${deviceId}`, tsUtc.getTime());
+
+  await detectAnomalies(deviceId, {
+    voltageV: finalValues.voltageV,
+    pfEst: finalValues.pfEst,
+    online
+  }, tsUtc);
+
+  await evaluateAlertsForDevice(deviceId);
+  await evaluateAutomationsForDevice(deviceId);
+  return online ? "stored" : "offline";
+}
@@ -0,0 +1,136 @@
+// server/jobRuns.ts
+// Run history for background jobs (poller fetch cycles, rollups, daily kWh,
+// retention, manual rollup recomputes), persisted in JobRun so stalls and
+// failures are visible after the fact.
+import { PrismaClient, type Prisma } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export type JobName = "poller" | "rollup" | "daily-kwh" | "retention" | "rollup-recompute";
+export type JobStatus = "running" | "ok" | "partial" | "failed";
+
+export const JOB_NAMES: JobName[] = ["poller", "rollup", "daily-kwh", "retention", "rollup-recompute"];
+
+/**
+ * What a finished run reports. status defaults to "failed" when error is set, else "ok".
+ */
+export type JobOutcome = {
+  status?: Exclude<JobStatus, "running">;
+  counts?: Prisma.InputJsonObject;
+  error?: string;
+};
+
+const MAX_ERROR_LENGTH = 4000;
+
+function finalStatus(o: JobOutcome): Exclude<JobStatus, "running"> {
+  return o.status ?? (o.error ? "failed" : "ok");
+}
+
+function truncate(error: string | undefined) {
+  return error && error.length > MAX_ERROR_LENGTH ? error.slice(0, MAX_ERROR_LENGTH) + "…" : error;
+}
+
+/**
+ * Record a run that already finished (one insert; used for the frequent poller cycles).
+ * Never throws: losing a history row must not break the job itself.
+ */
+export async function recordJobRun(job: JobName, trigger: string, startedAt: Date, outcome: JobOutcome) {
+  const finishedAt = new Date();
+  try {
+    await prisma.jobRun.create({
+      data: {
+        job,
+        trigger,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        status: finalStatus(outcome),
+        counts: outcome.counts ?? undefined,
+        error: truncate(outcome.error)
+      }
+    });
+  } catch (e: any) {
+    console.warn(`[JOBS] Could not record ${job} run: ${e?.message || e}`);
+  }
+}
+
+/**
+ * Run a job with a JobRun row that is "running" until it finishes, so a hung
+ * run shows up too. Errors thrown by fn are recorded and returned as a failed outcome.
+ */
+export async function runTrackedJob(job: JobName, trigger: string, fn: () => Promise<JobOutcome>): Promise<JobOutcome> {
+  const startedAt = new Date();
+  const row = await prisma.jobRun.create({ data: { job, trigger, startedAt, status: "running" } })
+    .catch((e: any) => { console.warn(`[JOBS] Could not record ${job} run: ${e?.message || e}`); return null; });
+
+  let outcome: JobOutcome;
+  try {
+    outcome = await fn();
+  } catch (e: any) {
+    console.error(`[JOBS] ${job} run failed:`, e);
+    outcome = { status: "failed", error: e?.message || String(e) };
+  }
+
+  const finishedAt = new Date();
+  if (row) {
+    await prisma.jobRun.update({
+      where: { id: row.id },
+      data: {
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        status: finalStatus(outcome),
+        counts: outcome.counts ?? undefined,
+        error: truncate(outcome.error)
+      }
+    }).catch((e: any) => console.warn(`[JOBS] Could not finish ${job} run: ${e?.message || e}`));
+  }
+  return outcome;
+}
+
+/**
+ * Runs newest first, optionally filtered.
+ */
+export async function listJobRuns(opts: { job?: string; status?: string; since?: Date; limit?: number } = {}) {
+  const runs = await prisma.jobRun.findMany({
+    where: {
+      job: opts.job || undefined,
+      status: opts.status || undefined,
+      startedAt: opts.since ? { gte: opts.since } : undefined
+    },
+    orderBy: { startedAt: "desc" },
+    take: Math.min(Math.max(opts.limit ?? 100, 1), 1000)
+  });
+  return runs.map((r: any) => ({ ...r, id: r.id.toString() }));
+}
+
+/**
+ * Per job: the latest run, the latest successful run and failures in the last 24 hours.
+ */
+export async function getJobSummary() {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const summary = [];
+  for (const job of JOB_NAMES) {
+    const [last, lastOk, failures24h, runs24h] = await Promise.all([
+      prisma.jobRun.findFirst({ where: { job }, orderBy: { startedAt: "desc" } }),
+      prisma.jobRun.findFirst({ where: { job, status: "ok" }, orderBy: { startedAt: "desc" }, select: { startedAt: true } }),
+      prisma.jobRun.count({ where: { job, status: "failed", startedAt: { gte: since } } }),
+      prisma.jobRun.count({ where: { job, startedAt: { gte: since } } })
+    ]);
+    summary.push({
+      job,
+      lastRun: last ? { ...last, id: last.id.toString() } : null,
+      lastOkAt: lastOk?.startedAt ?? null,
+      runs24h,
+      failures24h
+    });
+  }
+  return summary;
+}
+
+/**
+ * Delete history older than the cutoff. Returns the number of rows removed.
+ */
+export async function pruneJobRuns(olderThan: Date): Promise<number> {
+  const result = await prisma.jobRun.deleteMany({ where: { startedAt: { lt: olderThan } } });
+  return result.count;
+}
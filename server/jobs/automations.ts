@@ -0,0 +1,23 @@
+import * as cron from "node-cron";
+import { istClock } from "../time";
+import { runScheduledAutomations } from "../automations";
+import { isLeader } from "../leader";
+
+/**
+ * Start the automation scheduler: every minute, run schedule-triggered rules
+ * whose scheduleTime ("HH:MM" IST) matches the current IST minute.
+ * Metric-triggered rules are evaluated from ingest, after each health sample.
+ * Only the scheduler leader fires rules, so multiple replicas don't act twice.
+ */
+export function startAutomationScheduler() {
+  console.log("[AUTOMATION] Starting automation scheduler...");
+
+  cron.schedule('* * * * *', async () => {
+    if (!isLeader()) return;
+    try {
+      await runScheduledAutomations(istClock(new Date()));
+    } catch (error) {
+      console.error("[AUTOMATION] Scheduled run failed:", error);
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import * as cron from "node-cron";
+import { startBackfill } from "../backfill";
+import { isLeader } from "../leader";
+import { withTuyaCaller } from "../tuya";
+
+// Automatic passes are on unless BACKFILL_AUTO=0; the manual trigger always works
+const AUTO_ENABLED = !["0", "false", "no"].includes(String(process.env.BACKFILL_AUTO || "").toLowerCase());
+// Give the pollers a couple of minutes after boot so the restart gap has a closing sample
+const STARTUP_DELAY_MS = 2 * 60 * 1000;
+
+async function run(trigger: "startup" | "scheduled") {
+  if (!isLeader()) return;
+  try {
+    const { started, progress } = await withTuyaCaller("backfill", () => startBackfill({ trigger }));
+    if (!started) console.log(`[BACKFILL] Skipped ${trigger} pass: run #${progress.runId} is ${progress.status}`);
+  } catch (error) {
+    console.error(`[BACKFILL] Error starting ${trigger} pass:`, error);
+  }
+}
+
+/**
+ * Start the gap backfill scheduler: one pass shortly after startup, then every 6 hours
+ */
+export function startBackfillScheduler() {
+  if (!AUTO_ENABLED) {
+    console.log("[BACKFILL] Automatic backfill disabled (BACKFILL_AUTO=0)");
+    return;
+  }
+  console.log("[BACKFILL] Starting backfill scheduler...");
+
+  setTimeout(() => run("startup"), STARTUP_DELAY_MS);
+
+  cron.schedule('17 */6 * * *', () => run("scheduled"));
+}
@@ -1,207 +1,451 @@
-import { PrismaClient } from "@prisma/client";
-import { tuya } from "../tuya";
-import { normalizeFromStatus, type TuyaStatus } from "../normalize";
-import { detectAnomalies } from "../logic/anomaly";
+import type { DeviceSettings } from "@shared/schema";
+import { discoverDevices, type DiscoveredDevice, type DiscoverySnapshot } from "../discovery";
+import { type TuyaStatus } from "../normalize";
+import { normalizeDeviceStatus, specFetchCount } from "../dpscale";
+import { deviceObservedAt, ingestEnergy, ingestHealth, type IngestOutcome } from "../ingest";
+import { mapWithConcurrency } from "../logic/pool";
+import { deviceCadence, type Cadence } from "../logic/cadence";
 import { storage } from "../storage";
-import { evaluateAlertsForDevice } from "../alerts";
-import { getPollerSettings } from "../storage.poller";
+import { getEffectivePollerSettings, getPollerSettings, type PollerSettings } from "../storage.poller";
+import { isRealtimeActive, RECONCILE_INTERVAL_MS } from "./realtime";
+import { recordJobRun, type JobOutcome } from "../jobRuns";
+import { isLeader } from "../leader";
+import { quotaCallsPerHourCap, refreshQuota } from "../quota";
+import { withTuyaCaller } from "../tuya";
+import { recordSnapshot } from "../liveState";
 
-const prisma = new PrismaClient();
+export type DeviceTickResult = {
+  deviceId: string;
+  name: string | null;
+  online: boolean;
+  health?: IngestOutcome;
+  energy?: IngestOutcome;
+  error?: string;
+};
 
-let energyTimer: NodeJS.Timeout | null = null;
-let healthTimer: NodeJS.Timeout | null = null;
+export type TickResult = {
+  ok: boolean;
+  devices: number;
+  streams: { health: boolean; energy: boolean };
+  summary: { health: Record<string, number>; energy: Record<string, number> };
+  results: DeviceTickResult[];
+  durationMs: number;
+};
 
-export async function energyTickOnce(): Promise<{ ok: boolean; devices: number }> {
+type Streams = { health: boolean; energy: boolean };
+
+// Per-device schedule kept by the supervisor; intervals are recomputed every
+// wake-up so settings edits apply without a restart
+type DeviceSchedule = {
+  deviceId: string;
+  name: string | null;
+  online: boolean;
+  powerW?: number;
+  prevPowerW?: number;
+  lastHealthAt: number; // last attempt (0 = never)
+  lastEnergyAt: number;
+  cadence: Cadence;
+};
+
+const WAKE_MIN_MS = 1000;
+const WAKE_MAX_MS = 5000; // also how quickly settings changes are noticed
+// Another caller's device list this fresh is reused instead of fetching again
+const SHARED_SNAPSHOT_MAX_AGE_MS = 2000;
+const HOUR_MS = 60 * 60 * 1000;
+// Devices ingested in parallel per cycle (normalize, DB writes, alert rules)
+const INGEST_CONCURRENCY = Math.max(1, Number(process.env.POLLER_CONCURRENCY) || 8);
+
+const schedules = new Map<string, DeviceSchedule>();
+// Tuya calls made by the supervisor in the last hour, for the calls-per-hour budget
+const callLog: Array<{ at: number; calls: number }> = [];
+let lastCountedSnapshot: DiscoverySnapshot | null = null;
+let lastFetchAt = 0;
+let listPages = 1;
+let stretch = 1;
+// supervisor list calls per hour at the current cadences, before any stretch
+let plannedPerHour = 0;
+let deferredByBudget = 0;
+let cycleTimer: NodeJS.Timeout | null = null;
+// supervisor liveness, for /api/jobs/status
+let supervisorStartedAt: number | null = null;
+let lastWakeAt = 0;
+let wakeCount = 0;
+let lastSupervisorError: { at: number; message: string } | null = null;
+// effective flags seen at the previous wake-up, to log quiet window transitions
+let lastFlags: string | null = null;
+
+function summarize(results: DeviceTickResult[], stream: "health" | "energy") {
+  const counts: Record<string, number> = {};
+  for (const r of results) {
+    const outcome = r[stream];
+    if (outcome) counts[outcome] = (counts[outcome] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * JobRun outcome of one fetch cycle: "partial" if any device failed.
+ */
+function cycleOutcome(snapshot: DiscoverySnapshot, results: DeviceTickResult[]): JobOutcome {
+  const failed = results.filter((r) => r.error);
+  return {
+    status: failed.length > 0 ? "partial" : "ok",
+    counts: {
+      devices: snapshot.devices.length,
+      sampled: results.length,
+      failed: failed.length,
+      pages: snapshot.pages,
+      incompleteAccounts: snapshot.accounts.filter((a) => !a.complete).map((a) => a.accountId),
+      health: summarize(results, "health"),
+      energy: summarize(results, "energy"),
+    },
+    error: failed.length > 0 ? failed.map((r) => `${r.deviceId}: ${r.error}`).join("\n") : undefined,
+  };
+}
+
+const LIST_UNAVAILABLE: JobOutcome = { status: "failed", error: "Device list unavailable (kill switch or Tuya error)" };
+
+/**
+ * Fan one device's fetched state out to the requested stream(s), stamped with
+ * the device-reported time and the time the device list was received.
+ */
+async function ingestDevice(device: DiscoveredDevice, streams: Streams, receivedAt: Date): Promise<DeviceTickResult> {
+  const status = (device.status ?? []) as TuyaStatus;
+  const observedAt = deviceObservedAt(device, receivedAt);
+  const result: DeviceTickResult = { deviceId: device.id, name: device.name ?? null, online: device.online };
   try {
-    console.log("[ENERGY] Starting energy tick...");
-    
-    // Fetch all devices from Tuya API
-    const devicesResp = await tuya.request({
-      path: "/v1.0/iot-01/associated-users/devices",
-      method: "GET",
-      query: { page_no: 1, page_size: 100 }
-    });
+    if (streams.health) result.health = await ingestHealth(device.id, status, device.online, observedAt, "live", receivedAt);
+    if (streams.energy) result.energy = await ingestEnergy(device.id, status, device.online, observedAt, "live", receivedAt);
+  } catch (e: any) {
+    result.error = e?.message || String(e);
+    if (streams.health && !result.health) result.health = "error";
+    if (streams.energy && !result.energy) result.energy = "error";
+    console.error(`[POLLER] Device ${device.id} failed:`, e);
+  }
+  return result;
+}
 
-    const devices = (devicesResp as any)?.result?.devices || [];
-    console.log(`[ENERGY] Found ${devices.length} devices`);
-
-    for (const device of devices) {
-      const now = new Date();
-      
-      // Upsert device record
-      await prisma.device.upsert({
-        where: { deviceId: device.id },
-        update: {
-          name: device.name,
-          productName: device.product_name,
-          category: device.category,
-          lastSeenUtc: now,
-          lastOnlineUtc: device.online ? now : undefined,
-          lastStatus: device.status
-        },
-        create: {
-          deviceId: device.id,
-          name: device.name,
-          productName: device.product_name,
-          category: device.category,
-          firstSeenUtc: now,
-          lastSeenUtc: now,
-          lastOnlineUtc: device.online ? now : undefined,
-          lastStatus: device.status
-        }
-      });
+/**
+ * One ingestion cycle: fetch every device's state once, then fan out to
+ * health and/or energy storage from that single payload.
+ */
+export async function deviceTickOnce(streams: Streams): Promise<TickResult> {
+  const started = Date.now();
+  const empty = (ok: boolean): TickResult => ({
+    ok, devices: 0, streams, summary: { health: {}, energy: {} }, results: [], durationMs: Date.now() - started
+  });
+
+  try {
+    const label = [streams.health && "health", streams.energy && "energy"].filter(Boolean).join("+");
+    console.log(`[POLLER] Starting device tick (${label})...`);
 
-      // Extract and normalize energy data
-      const normalized = normalizeFromStatus(device.status as TuyaStatus);
-      
-      // Check if data storage is enabled for this device
-      const deviceSettings = await storage.getDeviceSettings(device.id);
-      const dataStorageEnabled = deviceSettings?.dataStorageEnabled ?? true; // Default to enabled if no settings found
-      
-      // Record energy data if available, storage is enabled, and device is online
-      // Offline devices don't consume energy so we skip recording
-      if (normalized.addEleKwh !== undefined && dataStorageEnabled && device.online) {
-        await prisma.rawEnergy.create({
-          data: {
-            deviceId: device.id,
-            tsUtc: now,
-            addEleKwh: normalized.addEleKwh
-          }
-        });
-      }
+    // Fetch all devices (every page, every account) via the shared discovery service
+    const snapshot = await discoverDevices();
+    if (!snapshot.accounts.some((a) => a.listed)) {
+      console.log("[POLLER] Device list unavailable (kill switch or Tuya error); skipping tick");
+      await recordJobRun("poller", "manual", new Date(started), LIST_UNAVAILABLE);
+      return empty(false);
     }
-    
-    console.log("[ENERGY] Energy tick completed");
-    return { ok: true, devices: devices.length };
-  } catch (error) {
-    console.error("[ENERGY] Error in energy tick:", error);
-    return { ok: false, devices: 0 };
+    recordSnapshot(snapshot, "poller");
+    // devices of an account whose list call failed carry last cycle's status
+    const devices = snapshot.devices.filter((d) => !d.stale);
+
+    const results = await mapWithConcurrency(devices, INGEST_CONCURRENCY, (device) =>
+      ingestDevice(device, streams, snapshot.discoveredAt));
+
+    const tick: TickResult = {
+      ok: true,
+      devices: devices.length,
+      streams,
+      summary: { health: summarize(results, "health"), energy: summarize(results, "energy") },
+      results,
+      durationMs: Date.now() - started,
+    };
+    console.log(`[POLLER] Device tick completed: ${devices.length} devices in ${tick.durationMs}ms`, tick.summary);
+    await recordJobRun("poller", "manual", new Date(started), cycleOutcome(snapshot, results));
+    return tick;
+  } catch (error: any) {
+    console.error("[POLLER] Error in device tick:", error);
+    await recordJobRun("poller", "manual", new Date(started), { status: "failed", error: error?.message || String(error) });
+    return empty(false);
   }
 }
 
-export async function healthTickOnce(): Promise<{ ok: boolean; devices: number }> {
-  try {
-    console.log("[HEALTH] Starting health tick...");
-    
-    // Fetch all devices from Tuya API
-    const devicesResp = await tuya.request({
-      path: "/v1.0/iot-01/associated-users/devices", 
-      method: "GET",
-      query: { page_no: 1, page_size: 100 }
-    });
+// With realtime messages flowing, polling only reconciles missed events
+function pollInterval(ms: number | null) {
+  if (ms == null) return null;
+  return isRealtimeActive() ? Math.max(ms, RECONCILE_INTERVAL_MS) : ms;
+}
+
+/**
+ * The calls-per-hour budget in force: the configured one, tightened by the
+ * monthly quota's cap while that is throttling. 0 = unlimited.
+ */
+function effectiveBudget(s: PollerSettings) {
+  const quotaCap = quotaCallsPerHourCap();
+  if (quotaCap == null) return s.callsPerHourBudget;
+  // at least one device-list walk per hour, or the hourly deferral would stop polling outright
+  const cap = Math.max(quotaCap, listPages);
+  return s.callsPerHourBudget > 0 ? Math.min(s.callsPerHourBudget, cap) : cap;
+}
+
+function usedLastHour(now: number) {
+  while (callLog.length && callLog[0].at <= now - HOUR_MS) callLog.shift();
+  return callLog.reduce((sum, e) => sum + e.calls, 0);
+}
+
+function recomputeCadences(s: PollerSettings, overrides: Map<string, DeviceSettings>) {
+  for (const sched of Array.from(schedules.values())) {
+    const c = deviceCadence(s, overrides.get(sched.deviceId), sched);
+    sched.cadence = { ...c, healthMs: pollInterval(c.healthMs), energyMs: pollInterval(c.energyMs) };
+  }
+
+  // Every fetch is one device-list walk shared by whichever devices are due, so the
+  // fastest cadence sets the call rate. Over budget, stretch all intervals evenly.
+  const fastest = Math.min(...Array.from(schedules.values()).flatMap((d) =>
+    [d.cadence.healthMs, d.cadence.energyMs].filter((ms): ms is number => ms != null)));
+  plannedPerHour = Number.isFinite(fastest) ? listPages * HOUR_MS / fastest : 0;
+  const budget = effectiveBudget(s);
+  stretch = budget > 0 ? Math.max(1, plannedPerHour / budget) : 1;
+}
+
+function nextAt(last: number, ms: number | null) {
+  return ms == null ? Infinity : last + ms * stretch;
+}
+
+// Due now, or close enough that it should ride along with this fetch
+function isDue(now: number, last: number, ms: number | null) {
+  if (ms == null) return false;
+  return now >= nextAt(last, ms) - Math.max(WAKE_MIN_MS, 0.1 * ms * stretch);
+}
 
-    const devices = (devicesResp as any)?.result?.devices || [];
-    console.log(`[HEALTH] Found ${devices.length} devices`);
-
-    for (const device of devices) {
-      const now = new Date();
-      
-      // Upsert device record
-      await prisma.device.upsert({
-        where: { deviceId: device.id },
-        update: {
-          name: device.name,
-          productName: device.product_name,
-          category: device.category,
-          lastSeenUtc: now,
-          lastOnlineUtc: device.online ? now : undefined,
-          lastStatus: device.status
-        },
-        create: {
-          deviceId: device.id,
-          name: device.name,
-          productName: device.product_name,
-          category: device.category,
-          firstSeenUtc: now,
-          lastSeenUtc: now,
-          lastOnlineUtc: device.online ? now : undefined,
-          lastStatus: device.status
-        }
+function dueStreams(now: number, d: DeviceSchedule): Streams {
+  return {
+    health: isDue(now, d.lastHealthAt, d.cadence.healthMs),
+    energy: isDue(now, d.lastEnergyAt, d.cadence.energyMs),
+  };
+}
+
+function msUntilNextDue(now: number) {
+  let next = Infinity;
+  for (const d of Array.from(schedules.values())) {
+    next = Math.min(next, nextAt(d.lastHealthAt, d.cadence.healthMs), nextAt(d.lastEnergyAt, d.cadence.energyMs));
+  }
+  return next - now;
+}
+
+async function syncSchedules(devices: DiscoveredDevice[], s: PollerSettings, overrides: Map<string, DeviceSettings>) {
+  const seen = new Set<string>();
+  for (const device of devices) {
+    seen.add(device.id);
+    const powerW = (await normalizeDeviceStatus(device.id, (device.status ?? []) as TuyaStatus)).powerW;
+    const existing = schedules.get(device.id);
+    if (existing) {
+      existing.name = device.name ?? null;
+      existing.online = device.online;
+      existing.prevPowerW = existing.powerW;
+      existing.powerW = powerW;
+    } else {
+      // New devices are due immediately: the list we just fetched already has their state
+      schedules.set(device.id, {
+        deviceId: device.id,
+        name: device.name ?? null,
+        online: device.online,
+        powerW,
+        lastHealthAt: 0,
+        lastEnergyAt: 0,
+        cadence: deviceCadence(s, overrides.get(device.id), { online: device.online, powerW }),
       });
+    }
+  }
+  for (const id of Array.from(schedules.keys())) {
+    if (!seen.has(id)) schedules.delete(id);
+  }
+}
 
-      // Extract and normalize health data
-      const normalized = normalizeFromStatus(device.status as TuyaStatus);
-      
-      // If device is offline, zero out all electrical readings since device is powered off or disconnected
-      const finalValues = device.online ? normalized : {
-        powerW: 0,
-        voltageV: 0,
-        currentA: 0,
-        pfEst: 0,
-        addEleKwh: 0
-      };
-      
-      // Check if data storage is enabled for this device
-      const deviceSettings = await storage.getDeviceSettings(device.id);
-      const dataStorageEnabled = deviceSettings?.dataStorageEnabled ?? true; // Default to enabled if no settings found
-      
-      // Record health metrics only if storage is enabled
-      if (dataStorageEnabled) {
-        await prisma.rawHealth.create({
-          data: {
-            deviceId: device.id,
-            tsUtc: now,
-            powerW: finalValues.powerW,
-            voltageV: finalValues.voltageV,
-            currentA: finalValues.currentA,
-            pfEst: finalValues.pfEst,
-            online: device.online
-          }
-        });
-
-        // Run anomaly detection only if storage is enabled
-        await detectAnomalies(device.id, {
-          voltageV: finalValues.voltageV,
-          pfEst: finalValues.pfEst,
-          online: device.online
-        }, now);
-
-        // Evaluate alert rules for this device
-        await evaluateAlertsForDevice(device.id);
-      }
+function noteQuietWindowChange(s: PollerSettings) {
+  const flags = `health ${s.healthEnabled ? "on" : "off"}, energy ${s.energyEnabled ? "on" : "off"}, kill switch ${s.masterKillSwitch ? "on" : "off"}`;
+  if (lastFlags != null && flags !== lastFlags) console.log(`[POLLER] Effective settings changed: ${flags}`);
+  lastFlags = flags;
+}
+
+/**
+ * One supervisor wake-up: fetch the device list if any device is due (and the
+ * budget allows), ingest the due devices, and return how long to sleep.
+ */
+async function superviseOnce(): Promise<number> {
+  // standby replica: keep waking so polling resumes soon after this instance is elected
+  if (!isLeader()) return WAKE_MAX_MS;
+  const s = await getEffectivePollerSettings();
+  noteQuietWindowChange(s);
+  if (s.masterKillSwitch || (!s.healthEnabled && !s.energyEnabled)) {
+    plannedPerHour = 0;
+    return WAKE_MAX_MS;
+  }
+
+  const overrides = new Map((await storage.getAllDeviceSettings()).map((d) => [d.deviceId, d]));
+  recomputeCadences(s, overrides);
+  // a new quota cap (or its removal) applies from this wake-up
+  const capBefore = quotaCallsPerHourCap();
+  await refreshQuota(s, plannedPerHour);
+  if (quotaCallsPerHourCap() !== capBefore) recomputeCadences(s, overrides);
+
+  let now = Date.now();
+  // with no known devices, look for new ones at the global cadence
+  const globalMs = Math.min(s.healthEnabled ? s.healthIntervalMs : Infinity, s.energyEnabled ? s.energyIntervalMs : Infinity);
+  const anyDue = schedules.size === 0
+    ? now - lastFetchAt >= globalMs
+    : Array.from(schedules.values()).some((d) => {
+        const due = dueStreams(now, d);
+        return due.health || due.energy;
+      });
+  if (!anyDue) return schedules.size === 0 ? lastFetchAt + globalMs - now : msUntilNextDue(now);
+
+  const budget = effectiveBudget(s);
+  if (budget > 0 && usedLastHour(now) + listPages > budget) {
+    deferredByBudget++;
+    // sleep until enough of the window has rolled off
+    return callLog.length ? callLog[0].at + HOUR_MS - now : WAKE_MAX_MS;
+  }
+
+  lastFetchAt = now;
+  const cycleStart = new Date(now);
+  const snapshot = await discoverDevices({ maxAgeMs: SHARED_SNAPSHOT_MAX_AGE_MS });
+  if (snapshot !== lastCountedSnapshot) {
+    lastCountedSnapshot = snapshot;
+    callLog.push({ at: Date.now(), calls: snapshot.pages });
+    if (snapshot.accounts.every((a) => a.listed)) listPages = Math.max(1, snapshot.pages);
+  }
+
+  now = Date.now();
+  if (!snapshot.accounts.some((a) => a.listed)) {
+    // Tuya unavailable: count this as an attempt so due devices back off one interval
+    for (const d of Array.from(schedules.values())) {
+      const due = dueStreams(now, d);
+      if (due.health) d.lastHealthAt = now;
+      if (due.energy) d.lastEnergyAt = now;
     }
-    
-    console.log("[HEALTH] Health tick completed");
-    return { ok: true, devices: devices.length };
-  } catch (error) {
-    console.error("[HEALTH] Error in health tick:", error);
-    return { ok: false, devices: 0 };
+    console.log("[POLLER] Device list unavailable (kill switch or Tuya error); skipping due devices");
+    await recordJobRun("poller", "supervisor", cycleStart, LIST_UNAVAILABLE);
+    return msUntilNextDue(now);
+  }
+
+  // every listed device's state is fresh, due or not: keep the dashboard cache current
+  recordSnapshot(snapshot, "poller");
+  // normalizing may fetch specifications on a cold cache; those calls count too
+  const specsBefore = specFetchCount("poller");
+  await syncSchedules(snapshot.devices, s, overrides);
+  const work: Array<{ device: DiscoveredDevice; due: Streams }> = [];
+  for (const device of snapshot.devices) {
+    const sched = schedules.get(device.id)!;
+    const due = dueStreams(now, sched);
+    if (!due.health && !due.energy) continue;
+    if (due.health) sched.lastHealthAt = now;
+    if (due.energy) sched.lastEnergyAt = now;
+    // account unavailable: back off like above, without storing stale status
+    if (device.stale) continue;
+    work.push({ device, due });
+  }
+  const results = await mapWithConcurrency(work, INGEST_CONCURRENCY, ({ device, due }) =>
+    ingestDevice(device, due, snapshot.discoveredAt));
+  const specCalls = specFetchCount("poller") - specsBefore;
+  if (specCalls > 0) callLog.push({ at: Date.now(), calls: specCalls });
+
+  // power readings may have moved adaptive devices onto a different cadence
+  recomputeCadences(s, overrides);
+  if (results.length > 0) {
+    console.log(`[POLLER] Sampled ${results.length}/${snapshot.devices.length} device(s)`, {
+      health: summarize(results, "health"),
+      energy: summarize(results, "energy"),
+    });
   }
+  await recordJobRun("poller", "supervisor", cycleStart, cycleOutcome(snapshot, results));
+  return msUntilNextDue(Date.now());
 }
 
-async function scheduleEnergy() {
-  const s = await getPollerSettings();
-  if (!s.energyEnabled) {
-    if (energyTimer) { clearTimeout(energyTimer); energyTimer = null; }
-    return; // no schedule while disabled
+async function runSupervisor() {
+  cycleTimer = null;
+  lastWakeAt = Date.now();
+  wakeCount++;
+  let sleepMs = WAKE_MAX_MS;
+  try {
+    sleepMs = await withTuyaCaller("poller", superviseOnce);
+  } catch (e: any) {
+    console.error("[POLLER] Supervisor error:", e);
+    lastSupervisorError = { at: Date.now(), message: e?.message || String(e) };
+    await recordJobRun("poller", "supervisor", new Date(lastWakeAt), { status: "failed", error: lastSupervisorError.message });
   }
-  if (energyTimer) clearTimeout(energyTimer);
-  energyTimer = setTimeout(async () => {
-    try { await energyTickOnce(); } catch (e) { console.error("energyTick error", e); }
-    scheduleEnergy(); // re-read interval next time
-  }, s.energyIntervalMs);
+  // wake at least every WAKE_MAX_MS to pick up settings changes and toggles
+  cycleTimer = setTimeout(runSupervisor, Math.min(WAKE_MAX_MS, Math.max(WAKE_MIN_MS, sleepMs)));
+}
+
+/**
+ * Supervisor list calls per hour the current settings would make, for quota projections.
+ */
+export function getPlannedCallsPerHour() {
+  return plannedPerHour;
 }
 
-async function scheduleHealth() {
+/**
+ * Current per-device schedule and budget usage, for /api/pollers/schedule.
+ */
+export async function getPollerSchedule() {
   const s = await getPollerSettings();
-  if (!s.healthEnabled) {
-    if (healthTimer) { clearTimeout(healthTimer); healthTimer = null; }
-    return;
-  }
-  if (healthTimer) clearTimeout(healthTimer);
-  healthTimer = setTimeout(async () => {
-    try { await healthTickOnce(); } catch (e) { console.error("healthTick error", e); }
-    scheduleHealth();
-  }, s.healthIntervalMs);
+  const now = Date.now();
+  const iso = (ms: number) => (Number.isFinite(ms) && ms > 0 ? new Date(ms).toISOString() : null);
+  return {
+    budget: {
+      callsPerHour: s.callsPerHourBudget,
+      quotaCapPerHour: quotaCallsPerHourCap(),
+      plannedPerHour: Math.round(plannedPerHour * 10) / 10,
+      usedLastHour: usedLastHour(now),
+      listPages,
+      stretch: Math.round(stretch * 100) / 100,
+      deferredByBudget,
+    },
+    realtimeActive: isRealtimeActive(),
+    devices: Array.from(schedules.values()).map((d) => ({
+      deviceId: d.deviceId,
+      name: d.name,
+      online: d.online,
+      powerW: d.powerW ?? null,
+      mode: d.cadence.mode,
+      state: d.cadence.state,
+      healthIntervalMs: d.cadence.healthMs != null ? Math.round(d.cadence.healthMs * stretch) : null,
+      energyIntervalMs: d.cadence.energyMs != null ? Math.round(d.cadence.energyMs * stretch) : null,
+      lastHealthAt: iso(d.lastHealthAt),
+      lastEnergyAt: iso(d.lastEnergyAt),
+      nextHealthAt: iso(nextAt(d.lastHealthAt, d.cadence.healthMs)),
+      nextEnergyAt: iso(nextAt(d.lastEnergyAt, d.cadence.energyMs)),
+    })),
+  };
+}
+
+/**
+ * Is the supervisor loop alive, and when did it last wake / fetch / fail?
+ */
+export function getSupervisorStatus() {
+  const iso = (ms: number) => (ms > 0 ? new Date(ms).toISOString() : null);
+  const sinceWakeMs = lastWakeAt > 0 ? Date.now() - lastWakeAt : null;
+  return {
+    started: supervisorStartedAt != null,
+    startedAt: supervisorStartedAt != null ? iso(supervisorStartedAt) : null,
+    // the loop wakes at least every WAKE_MAX_MS; much longer means it is stuck in a cycle
+    healthy: supervisorStartedAt != null && sinceWakeMs != null && sinceWakeMs < WAKE_MAX_MS * 12,
+    // another instance holds the scheduler lease; this one does not fetch
+    standby: !isLeader(),
+    lastWakeAt: iso(lastWakeAt),
+    lastFetchAt: iso(lastFetchAt),
+    wakeCount,
+    devicesScheduled: schedules.size,
+    lastError: lastSupervisorError ? { at: iso(lastSupervisorError.at), message: lastSupervisorError.message } : null,
+  };
 }
 
 export async function startPollerSupervisor() {
+  if (cycleTimer) return;
+  supervisorStartedAt = Date.now();
   const s = await getPollerSettings();
-  console.log(`[POLLER] Starting poller supervisor - Energy: ${s.energyEnabled ? s.energyIntervalMs + 'ms' : 'disabled'}, Health: ${s.healthEnabled ? s.healthIntervalMs + 'ms' : 'disabled'}`);
-  
-  await scheduleEnergy();
-  await scheduleHealth();
-  
-  // simple watcher: if user toggles from disabled->enabled, we need to re-schedule
-  setInterval(() => { scheduleEnergy(); scheduleHealth(); }, 5000);
-}
\ No newline at end of file
+  console.log(`[POLLER] Starting poller supervisor - Energy: ${s.energyEnabled ? s.energyIntervalMs + 'ms' : 'disabled'}, Health: ${s.healthEnabled ? s.healthIntervalMs + 'ms' : 'disabled'}, Budget: ${s.callsPerHourBudget > 0 ? s.callsPerHourBudget + ' calls/h' : 'unlimited'}`);
+  cycleTimer = setTimeout(runSupervisor, 0);
+}
@@ -0,0 +1,198 @@
+import { PrismaClient } from "@prisma/client";
+import { DEFAULT_ACCOUNT_ID, getTuyaAccounts, isSimulated, withTuyaCaller } from "../tuya";
+import { subscribeSimReports } from "../tuya.sim";
+import { LocalMessageSource, PulsarMessageSource, type DeviceMessage, type MessageSource } from "../tuya.mq";
+import { ingestEnergy, ingestHealth } from "../ingest";
+import { recordRealtime } from "../liveState";
+import { getEffectivePollerSettings } from "../storage.poller";
+
+const prisma = new PrismaClient();
+
+// Realtime ingestion is opt-in; polling stays the default path
+const MQ_ENABLED = ["1", "true", "yes"].includes(String(process.env.TUYA_MQ_ENABLED || "").toLowerCase());
+const MQ_URL = process.env.TUYA_MQ_URL || "";
+const MQ_ENV = process.env.TUYA_MQ_ENV || "event";
+
+// While messages flow, the health poller only runs this often to reconcile missed events
+export const RECONCILE_INTERVAL_MS = Number(process.env.TUYA_MQ_RECONCILE_MS) || 15 * 60 * 1000;
+
+const HEALTH_CODES = new Set(["cur_power", "cur_voltage", "cur_current"]);
+const ENERGY_CODES = new Set(["add_ele"]);
+
+// One message source per Tuya account (each cloud project has its own subscription),
+// or the single local stand-in
+const sources = new Map<string, MessageSource>();
+let running = false;
+let stopSimFeed: (() => void) | null = null;
+
+// Tuya reports only the DPs that changed, so keep the merged latest status per device
+const latestStatus = new Map<string, Map<string, any>>();
+
+const stats = {
+  startedAt: null as Date | null,
+  messages: 0,
+  statusReports: 0,
+  onlineEvents: 0,
+  healthStored: 0,
+  energyStored: 0,
+  dropped: 0,
+  errors: 0,
+  lastMessageAt: null as Date | null,
+};
+
+async function mergedStatus(deviceId: string, changes: Array<{ code: string; value: any }>) {
+  let merged = latestStatus.get(deviceId);
+  if (!merged) {
+    const device = await prisma.device.findUnique({ where: { deviceId }, select: { lastStatus: true } });
+    const stored = Array.isArray(device?.lastStatus) ? (device!.lastStatus as Array<{ code: string; value: any }>) : [];
+    merged = new Map(stored.map((dp) => [dp.code, dp.value]));
+    latestStatus.set(deviceId, merged);
+  }
+  for (const dp of changes) merged.set(dp.code, dp.value);
+  return Array.from(merged.entries()).map(([code, value]) => ({ code, value }));
+}
+
+async function handleMessage(msg: DeviceMessage) {
+  const receivedAt = new Date();
+  stats.messages++;
+  stats.lastMessageAt = receivedAt;
+
+  const settings = await getEffectivePollerSettings();
+  if (settings.masterKillSwitch) {
+    stats.dropped++;
+    return;
+  }
+
+  try {
+    if (msg.type === "status") {
+      stats.statusReports++;
+      const status = await mergedStatus(msg.deviceId, msg.status);
+      await prisma.device.updateMany({
+        where: { deviceId: msg.deviceId },
+        data: { lastSeenUtc: msg.ts, lastOnlineUtc: msg.ts, lastStatus: status }
+      });
+      recordRealtime(msg.deviceId, status, true, msg.ts, receivedAt);
+
+      const codes = msg.status.map((dp) => dp.code);
+      if (settings.healthEnabled && codes.some((c) => HEALTH_CODES.has(c))) {
+        if ((await ingestHealth(msg.deviceId, status, true, msg.ts, "live", receivedAt)) === "stored") stats.healthStored++;
+      }
+      if (settings.energyEnabled && codes.some((c) => ENERGY_CODES.has(c))) {
+        if ((await ingestEnergy(msg.deviceId, status, true, msg.ts, "live", receivedAt)) === "stored") stats.energyStored++;
+      }
+      return;
+    }
+
+    // online / offline
+    stats.onlineEvents++;
+    const online = msg.type === "online";
+    await prisma.device.updateMany({
+      where: { deviceId: msg.deviceId },
+      data: online ? { lastSeenUtc: msg.ts, lastOnlineUtc: msg.ts } : { lastSeenUtc: msg.ts }
+    });
+    const status = await mergedStatus(msg.deviceId, []);
+    recordRealtime(msg.deviceId, status, online, msg.ts, receivedAt);
+    if (settings.healthEnabled) {
+      if ((await ingestHealth(msg.deviceId, status, online, msg.ts, "live", receivedAt)) === "stored") stats.healthStored++;
+    }
+  } catch (e) {
+    stats.errors++;
+    console.error(`[MQ] Failed to ingest ${msg.type} for ${msg.deviceId}:`, e);
+  }
+}
+
+/**
+ * True while every account's message source is connected and polling can back
+ * off; devices of a disconnected account still need regular polls.
+ */
+export function isRealtimeActive(): boolean {
+  const all = Array.from(sources.values());
+  return all.length > 0 && all.every((s) => s.isConnected());
+}
+
+export function getRealtimeStatus() {
+  const all = Array.from(sources.entries());
+  return {
+    enabled: MQ_ENABLED,
+    source: all[0]?.[1].name ?? null,
+    connected: isRealtimeActive(),
+    accounts: all.map(([accountId, s]) => ({ accountId, connected: s.isConnected() })),
+    reconcileIntervalMs: RECONCILE_INTERVAL_MS,
+    ...stats,
+  };
+}
+
+/**
+ * The in-process stand-in, when it is the active source (for tests and demos).
+ */
+export function getLocalMessageSource(): LocalMessageSource | null {
+  const local = Array.from(sources.values()).find((s) => s instanceof LocalMessageSource);
+  return (local as LocalMessageSource | undefined) ?? null;
+}
+
+function startSource(accountId: string, source: MessageSource) {
+  sources.set(accountId, source);
+  source.start((message) => withTuyaCaller("realtime", () => handleMessage(message)));
+}
+
+/**
+ * Subscribe every active Tuya account and drop the subscriptions of accounts that
+ * were removed or deactivated. Runs at start and after accounts change; an
+ * edited account (`changedAccountId`) resubscribes with its new credentials.
+ */
+export async function syncRealtimeSources(changedAccountId?: string) {
+  if (!running || getLocalMessageSource()) return;
+  const accounts = await getTuyaAccounts();
+  if (!running) return; // stopped (demoted) while the accounts loaded
+  const active = new Set(accounts.map((a) => a.id));
+
+  for (const [accountId, source] of Array.from(sources.entries())) {
+    if (active.has(accountId) && accountId !== changedAccountId) continue;
+    source.stop();
+    sources.delete(accountId);
+    console.log(`[MQ] Unsubscribed account ${accountId}`);
+  }
+  for (const account of accounts) {
+    if (sources.has(account.id) || account.endpoint.startsWith("sim://")) continue;
+    startSource(account.id, new PulsarMessageSource({
+      openApiUrl: account.endpoint,
+      accessId: account.accessId,
+      accessKey: account.secret,
+      // TUYA_MQ_URL belongs to the env account; others use their endpoint's message service
+      url: account.id === DEFAULT_ACCOUNT_ID ? MQ_URL || undefined : undefined,
+      env: MQ_ENV,
+    }));
+    console.log(`[MQ] Subscribed account ${account.id}`);
+  }
+}
+
+export async function startRealtimeIngestion() {
+  if (!MQ_ENABLED) {
+    console.log("[MQ] Realtime ingestion disabled (set TUYA_MQ_ENABLED=1 to enable)");
+    return;
+  }
+  if (running) return;
+  running = true;
+
+  if (isSimulated || MQ_URL.startsWith("local://")) {
+    const local = new LocalMessageSource();
+    startSource("local", local);
+    if (isSimulated) {
+      // the simulator's virtual devices publish through the stand-in
+      stopSimFeed = subscribeSimReports((report) => local.publish(report));
+    }
+  } else {
+    await syncRealtimeSources().catch((e) => console.error("[MQ] Failed to subscribe Tuya accounts:", e));
+  }
+
+  stats.startedAt = new Date();
+  console.log(`[MQ] Realtime ingestion started (${sources.size} source(s)); health polling reconciles every ${RECONCILE_INTERVAL_MS}ms while all are connected`);
+}
+
+export function stopRealtimeIngestion() {
+  running = false;
+  stopSimFeed?.();
+  stopSimFeed = null;
+  for (const source of Array.from(sources.values())) source.stop();
+  sources.clear();
+}
@@ -1,5 +1,8 @@
 import { PrismaClient } from "@prisma/client";
 import * as cron from "node-cron";
+import { pruneJobRuns, runTrackedJob } from "../jobRuns";
+import { pruneCallerCounts, pruneCounterBuckets } from "../storage.tuyaCounters";
+import { isLeader } from "../leader";
 
 const prisma = new PrismaClient();
 
@@ -10,14 +13,18 @@ const RETENTION_CONFIG = {
   ROLLUP_1M_MONTHS: Number(process.env.RETENTION_1M_MONTHS) || 13,
   ROLLUP_15M_YEARS: Number(process.env.RETENTION_15M_YEARS) || 5,
   ROLLUP_1H_YEARS: Number(process.env.RETENTION_1H_YEARS) || 7,
+  SENSOR_RAW_DAYS: Number(process.env.RETENTION_SENSOR_RAW_DAYS) || 90,
   DAILY_KWH_YEARS: Number(process.env.RETENTION_DAILY_YEARS) || 7,
-  EVENTS_YEARS: Number(process.env.RETENTION_EVENTS_YEARS) || 7
+  EVENTS_YEARS: Number(process.env.RETENTION_EVENTS_YEARS) || 7,
+  JOB_RUNS_DAYS: Number(process.env.RETENTION_JOB_RUNS_DAYS) || 14,
+  COUNTER_HOURS_DAYS: Number(process.env.RETENTION_COUNTER_HOURS_DAYS) || 62,
+  COUNTER_DAYS_YEARS: Number(process.env.RETENTION_COUNTER_DAYS_YEARS) || 2
 };
 
 /**
  * Delete RawHealth records older than configured retention period
  */
-async function cleanupRawHealth() {
+async function cleanupRawHealth(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - RETENTION_CONFIG.RAW_HEALTH_DAYS);
@@ -29,15 +36,17 @@ async function cleanupRawHealth() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} RawHealth records older than ${RETENTION_CONFIG.RAW_HEALTH_DAYS} days`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up RawHealth:", error);
+    throw error;
   }
 }
 
 /**
  * Delete RawEnergy records older than configured retention period
  */
-async function cleanupRawEnergy() {
+async function cleanupRawEnergy(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - RETENTION_CONFIG.RAW_ENERGY_DAYS);
@@ -49,15 +58,17 @@ async function cleanupRawEnergy() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} RawEnergy records older than ${RETENTION_CONFIG.RAW_ENERGY_DAYS} days`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up RawEnergy:", error);
+    throw error;
   }
 }
 
 /**
  * Delete Rollup1m records older than configured retention period
  */
-async function cleanupRollup1m() {
+async function cleanupRollup1m(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setMonth(cutoffDate.getMonth() - RETENTION_CONFIG.ROLLUP_1M_MONTHS);
@@ -69,15 +80,17 @@ async function cleanupRollup1m() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} Rollup1m records older than ${RETENTION_CONFIG.ROLLUP_1M_MONTHS} months`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up Rollup1m:", error);
+    throw error;
   }
 }
 
 /**
  * Delete Rollup15m records older than configured retention period
  */
-async function cleanupRollup15m() {
+async function cleanupRollup15m(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - RETENTION_CONFIG.ROLLUP_15M_YEARS);
@@ -89,15 +102,17 @@ async function cleanupRollup15m() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} Rollup15m records older than ${RETENTION_CONFIG.ROLLUP_15M_YEARS} years`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up Rollup15m:", error);
+    throw error;
   }
 }
 
 /**
  * Delete Rollup1h records older than configured retention period
  */
-async function cleanupRollup1h() {
+async function cleanupRollup1h(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - RETENTION_CONFIG.ROLLUP_1H_YEARS);
@@ -109,15 +124,47 @@ async function cleanupRollup1h() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} Rollup1h records older than ${RETENTION_CONFIG.ROLLUP_1H_YEARS} years`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up Rollup1h:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete SensorReading records older than configured retention period
+ * (hourly sensor rollups follow the Rollup1h retention)
+ */
+async function cleanupSensorData(): Promise<number> {
+  try {
+    const rawCutoff = new Date();
+    rawCutoff.setDate(rawCutoff.getDate() - RETENTION_CONFIG.SENSOR_RAW_DAYS);
+    const raw = await prisma.sensorReading.deleteMany({
+      where: {
+        tsUtc: { lt: rawCutoff }
+      }
+    });
+
+    const rollupCutoff = new Date();
+    rollupCutoff.setFullYear(rollupCutoff.getFullYear() - RETENTION_CONFIG.ROLLUP_1H_YEARS);
+    const rollups = await prisma.sensorRollup1h.deleteMany({
+      where: {
+        windowUtc: { lt: rollupCutoff }
+      }
+    });
+
+    console.log(`[RETENTION] Deleted ${raw.count} SensorReading records older than ${RETENTION_CONFIG.SENSOR_RAW_DAYS} days and ${rollups.count} SensorRollup1h records`);
+    return raw.count + rollups.count;
+  } catch (error) {
+    console.error("[RETENTION] Error cleaning up sensor data:", error);
+    throw error;
   }
 }
 
 /**
  * Delete DailyKwh records older than configured retention period
  */
-async function cleanupDailyKwh() {
+async function cleanupDailyKwh(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - RETENTION_CONFIG.DAILY_KWH_YEARS);
@@ -129,15 +176,17 @@ async function cleanupDailyKwh() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} DailyKwh records older than ${RETENTION_CONFIG.DAILY_KWH_YEARS} years`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up DailyKwh:", error);
+    throw error;
   }
 }
 
 /**
  * Delete Event records older than configured retention period
  */
-async function cleanupEvents() {
+async function cleanupEvents(): Promise<number> {
   try {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - RETENTION_CONFIG.EVENTS_YEARS);
@@ -149,25 +198,74 @@ async function cleanupEvents() {
     });
     
     console.log(`[RETENTION] Deleted ${result.count} Event records older than ${RETENTION_CONFIG.EVENTS_YEARS} years`);
+    return result.count;
   } catch (error) {
     console.error("[RETENTION] Error cleaning up Events:", error);
+    throw error;
   }
 }
 
 /**
- * Run all retention cleanup jobs
+ * Delete JobRun history older than configured retention period
  */
-async function runRetentionCleanup() {
+async function cleanupJobRuns(): Promise<number> {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - RETENTION_CONFIG.JOB_RUNS_DAYS);
+  const count = await pruneJobRuns(cutoffDate);
+  console.log(`[RETENTION] Deleted ${count} JobRun records older than ${RETENTION_CONFIG.JOB_RUNS_DAYS} days`);
+  return count;
+}
+
+/**
+ * Delete Tuya call counter buckets: hourly after a couple of months, daily and per-caller after years
+ */
+async function cleanupCounterBuckets(): Promise<number> {
+  const hourCutoff = new Date();
+  hourCutoff.setDate(hourCutoff.getDate() - RETENTION_CONFIG.COUNTER_HOURS_DAYS);
+  const dayCutoff = new Date();
+  dayCutoff.setFullYear(dayCutoff.getFullYear() - RETENTION_CONFIG.COUNTER_DAYS_YEARS);
+  const count = await pruneCounterBuckets("hour", hourCutoff) + await pruneCounterBuckets("day", dayCutoff)
+    + await pruneCallerCounts(dayCutoff);
+  console.log(`[RETENTION] Deleted ${count} Tuya counter buckets`);
+  return count;
+}
+
+/**
+ * Run all retention cleanup jobs, recorded as one "retention" job run.
+ * A failing step doesn't stop the ones after it (the run is then "partial").
+ */
+async function runRetentionCleanup(trigger: string) {
   console.log("[RETENTION] Starting retention cleanup with configuration:", RETENTION_CONFIG);
-  
-  await cleanupRawHealth();
-  await cleanupRawEnergy();
-  await cleanupRollup1m();
-  await cleanupRollup15m();
-  await cleanupRollup1h();
-  await cleanupDailyKwh();
-  await cleanupEvents();
-  
+
+  await runTrackedJob("retention", trigger, async () => {
+    const steps: Array<[string, () => Promise<number>]> = [
+      ["rawHealth", cleanupRawHealth],
+      ["rawEnergy", cleanupRawEnergy],
+      ["rollup1m", cleanupRollup1m],
+      ["rollup15m", cleanupRollup15m],
+      ["rollup1h", cleanupRollup1h],
+      ["sensorData", cleanupSensorData],
+      ["dailyKwh", cleanupDailyKwh],
+      ["events", cleanupEvents],
+      ["jobRuns", cleanupJobRuns],
+      ["counterBuckets", cleanupCounterBuckets],
+    ];
+    const counts: Record<string, number> = {};
+    const errors: string[] = [];
+    for (const [name, step] of steps) {
+      try {
+        counts[name] = await step();
+      } catch (e: any) {
+        errors.push(`${name}: ${e?.message || e}`);
+      }
+    }
+    return {
+      status: errors.length === 0 ? "ok" : errors.length < steps.length ? "partial" : "failed",
+      counts,
+      error: errors.length ? errors.join("\n") : undefined
+    };
+  });
+
   console.log("[RETENTION] Retention cleanup completed");
 }
 
@@ -179,8 +277,9 @@ export function startRetentionScheduler() {
   
   // Run nightly at 02:00 UTC
   cron.schedule('0 2 * * *', () => {
+    if (!isLeader()) return;
     console.log("[RETENTION] Running scheduled retention cleanup...");
-    runRetentionCleanup();
+    runRetentionCleanup("scheduled");
   }, {
     timezone: 'UTC'
   });
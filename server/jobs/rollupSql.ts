@@ -0,0 +1,211 @@
+// server/jobs/rollupSql.ts
+// Set-based rollup statements: each builds every window of many devices in one
+// INSERT ... SELECT ... GROUP BY date_trunc, upserting on the rollup's unique key.
+// Timestamps are passed as ISO text and cast to timestamp: the columns are
+// timestamp without time zone holding UTC, and the cast drops the "Z".
+import { PrismaClient } from "@prisma/client";
+import { ELECTRICAL_QUANTITIES, STAT_COLUMNS, STAT_KINDS, statColumn } from "../logic/stats";
+
+const prisma = new PrismaClient();
+
+export type Granularity = "1m" | "15m" | "1h";
+
+/**
+ * One device's span [from, to) to build; bounds are aligned to the level's window
+ */
+export type DeviceRange = { deviceId: string; from: Date; to: Date };
+
+// RawHealth column behind each electrical statistic (see server/logic/stats.ts)
+const RAW_COLUMNS = { VoltageV: "voltageV", CurrentA: "currentA", Pf: "pfEst" } as const;
+
+const STAT_INSERT = STAT_COLUMNS.map((c) => `"${c}"`).join(", ");
+const STAT_UPDATE = STAT_COLUMNS.map((c) => `"${c}" = EXCLUDED."${c}"`).join(", ");
+
+// min/avg/max/p95 of the raw samples in a minute, aliased to the rollup columns
+const SAMPLE_STATS = ELECTRICAL_QUANTITIES.map((q) => {
+  const v = `"${RAW_COLUMNS[q]}"::float8`;
+  return `min(${v}) AS "${statColumn("min", q)}", avg(${v}) AS "${statColumn("avg", q)}", ` +
+    `max(${v}) AS "${statColumn("max", q)}", percentile_cont(0.95) WITHIN GROUP (ORDER BY ${v}) AS "${statColumn("p95", q)}"`;
+}).join(",\n         ");
+
+// The same from finer rollups: overall min/max, sample-weighted mean, p95 of their p95
+const CHILD_STATS = ELECTRICAL_QUANTITIES.map((q) => {
+  const [min, avg, max, p95] = STAT_KINDS.map((k) => `s."${statColumn(k, q)}"`);
+  return `min(${min}), sum(${avg} * s."samples") / nullif(sum(CASE WHEN ${avg} IS NOT NULL THEN s."samples" END), 0), ` +
+    `max(${max}), percentile_cont(0.95) WITHIN GROUP (ORDER BY ${p95})`;
+}).join(",\n       ");
+
+const RANGES = `r AS (
+  SELECT * FROM unnest($1::text[], $2::timestamp[], $3::timestamp[]) AS r("deviceId", "fromUtc", "toUtc")
+)`;
+
+// Time-weighted minutes: each sample holds its power until the next sample or
+// for at most $4 ms (see server/logic/integrate.ts), so samples up to $4 ms
+// before a range still count; each hold is split across the minutes it covers.
+// The energy counter is per device (channel ""); a minute with only an energy
+// reading still gets a row, with its lastAddEle
+const ROLLUP_1M_SQL = `
+WITH ${RANGES},
+s AS (
+  SELECT h."deviceId", h."channel", h."tsUtc", h."powerW", h."voltageV", h."currentA", h."pfEst", r."fromUtc", r."toUtc",
+         least(lead(h."tsUtc") OVER w, h."tsUtc" + $4::integer * interval '1 millisecond', r."toUtc") AS "heldTo"
+  FROM "RawHealth" h
+  JOIN r ON h."deviceId" = r."deviceId"
+        AND h."tsUtc" >= r."fromUtc" - $4::integer * interval '1 millisecond' AND h."tsUtc" < r."toUtc"
+  WINDOW w AS (PARTITION BY h."deviceId", h."channel" ORDER BY h."tsUtc")
+),
+held AS (
+  SELECT s."deviceId", s."channel", m AS "windowUtc", s."powerW",
+         extract(epoch FROM least(s."heldTo", m + interval '1 minute') - greatest(s."tsUtc", m)) AS secs
+  FROM s,
+  LATERAL generate_series(
+    date_trunc('minute', greatest(s."tsUtc", s."fromUtc")), s."heldTo" - interval '1 millisecond', interval '1 minute'
+  ) AS m
+  WHERE s."powerW" IS NOT NULL AND s."heldTo" > greatest(s."tsUtc", s."fromUtc")
+),
+a AS (
+  SELECT "deviceId", "channel", "windowUtc", sum(secs) AS secs, sum("powerW" * secs) AS ws,
+         min("powerW") AS "minPowerW", max("powerW") AS "maxPowerW"
+  FROM held WHERE secs > 0
+  GROUP BY 1, 2, 3
+),
+n AS (
+  SELECT "deviceId", "channel", date_trunc('minute', "tsUtc") AS "windowUtc", count(*)::int AS samples,
+         ${SAMPLE_STATS}
+  FROM s WHERE "tsUtc" >= "fromUtc"
+  GROUP BY 1, 2, 3
+),
+e AS (
+  SELECT DISTINCT ON (s."deviceId", date_trunc('minute', s."tsUtc"))
+         s."deviceId", ''::text AS "channel", date_trunc('minute', s."tsUtc") AS "windowUtc", s."addEleKwh"
+  FROM "RawEnergy" s
+  JOIN r ON s."deviceId" = r."deviceId" AND s."tsUtc" >= r."fromUtc" AND s."tsUtc" < r."toUtc"
+  ORDER BY s."deviceId", date_trunc('minute', s."tsUtc"), s."tsUtc" DESC
+)
+INSERT INTO "Rollup1m" ("deviceId", "channel", "windowUtc", "avgPowerW", "minPowerW", "maxPowerW", "lastAddEle", "kwh", "samples", "coverage", ${STAT_INSERT})
+SELECT "deviceId", "channel", "windowUtc",
+       round(a.ws / nullif(a.secs, 0))::int, a."minPowerW", a."maxPowerW",
+       e."addEleKwh",
+       a.ws / 3600000.0,
+       coalesce(n.samples, 0),
+       coalesce(a.secs, 0) / 60.0,
+       ${STAT_COLUMNS.map((c) => `n."${c}"`).join(", ")}
+FROM a
+FULL JOIN n USING ("deviceId", "channel", "windowUtc")
+FULL JOIN e USING ("deviceId", "channel", "windowUtc")
+ON CONFLICT ("deviceId", "channel", "windowUtc") DO UPDATE SET
+  "avgPowerW" = EXCLUDED."avgPowerW", "minPowerW" = EXCLUDED."minPowerW", "maxPowerW" = EXCLUDED."maxPowerW",
+  "lastAddEle" = EXCLUDED."lastAddEle", "kwh" = EXCLUDED."kwh",
+  "samples" = EXCLUDED."samples", "coverage" = EXCLUDED."coverage", ${STAT_UPDATE}`;
+
+/**
+ * Coarser windows from the level below (see combineRollups in server/logic/integrate.ts):
+ * coverage-weighted mean power, overall min/max, summed kWh and samples, and the
+ * voltage/current/power-factor statistics (combineElectricalStats). `share` is
+ * one source window's part of a target window; missing source windows count as uncovered.
+ * Rows from before time weighting have no coverage and count as fully covered.
+ */
+function fromLowerLevelSql(target: string, source: string, bucket: string, share: number) {
+  return `
+WITH ${RANGES}
+INSERT INTO "${target}" ("deviceId", "channel", "windowUtc", "avgPowerW", "minPowerW", "maxPowerW", "kwh", "samples", "coverage", ${STAT_INSERT})
+SELECT s."deviceId", s."channel", ${bucket},
+       round(
+         sum(s."avgPowerW" * coalesce(s."coverage", 1))
+         / nullif(sum(CASE WHEN s."avgPowerW" IS NOT NULL THEN coalesce(s."coverage", 1) END), 0)
+       )::int,
+       min(s."minPowerW"), max(s."maxPowerW"), sum(s."kwh"),
+       sum(s."samples")::int, sum(coalesce(s."coverage", 1)) * ${share},
+       ${CHILD_STATS}
+FROM "${source}" s
+JOIN r ON s."deviceId" = r."deviceId" AND s."windowUtc" >= r."fromUtc" AND s."windowUtc" < r."toUtc"
+GROUP BY 1, 2, 3
+ON CONFLICT ("deviceId", "channel", "windowUtc") DO UPDATE SET
+  "avgPowerW" = EXCLUDED."avgPowerW", "minPowerW" = EXCLUDED."minPowerW", "maxPowerW" = EXCLUDED."maxPowerW",
+  "kwh" = EXCLUDED."kwh", "samples" = EXCLUDED."samples", "coverage" = EXCLUDED."coverage", ${STAT_UPDATE}`;
+}
+
+const INSERT_SQL: Record<Granularity, string> = {
+  "1m": ROLLUP_1M_SQL,
+  "15m": fromLowerLevelSql(
+    "Rollup15m", "Rollup1m",
+    `date_trunc('hour', s."windowUtc") + floor(extract(minute FROM s."windowUtc") / 15) * interval '15 minutes'`,
+    1 / 15
+  ),
+  "1h": fromLowerLevelSql("Rollup1h", "Rollup15m", `date_trunc('hour', s."windowUtc")`, 1 / 4),
+};
+
+const iso = (d: Date | null | undefined) => (d ? d.toISOString() : null);
+
+/**
+ * Build (upsert) every window of the given ranges in one statement.
+ * maxHoldMs applies to 1m, the only level built from raw samples.
+ * Returns how many rollup rows were written.
+ */
+export async function insertRollups(granularity: Granularity, ranges: DeviceRange[], maxHoldMs: number): Promise<number> {
+  if (ranges.length === 0) return 0;
+  const params: unknown[] = [
+    ranges.map((r) => r.deviceId),
+    ranges.map((r) => iso(r.from)),
+    ranges.map((r) => iso(r.to))
+  ];
+  if (granularity === "1m") params.push(maxHoldMs);
+  return prisma.$executeRawUnsafe(INSERT_SQL[granularity], ...params);
+}
+
+/**
+ * Write many devices' marks for one level. receivedThroughUtc null keeps the stored value.
+ */
+export async function saveWatermarks(
+  granularity: Granularity,
+  marks: Array<{ deviceId: string; builtToUtc: Date; receivedThroughUtc?: Date }>
+) {
+  if (marks.length === 0) return;
+  await prisma.$executeRawUnsafe(`
+    INSERT INTO "RollupWatermark" ("deviceId", "granularity", "builtToUtc", "receivedThroughUtc", "updatedAt")
+    SELECT v."deviceId", $1::text, v."builtToUtc", v."receivedThroughUtc", now() AT TIME ZONE 'UTC'
+    FROM unnest($2::text[], $3::timestamp[], $4::timestamp[]) AS v("deviceId", "builtToUtc", "receivedThroughUtc")
+    ON CONFLICT ("deviceId", "granularity") DO UPDATE SET
+      "builtToUtc" = EXCLUDED."builtToUtc",
+      "receivedThroughUtc" = coalesce(EXCLUDED."receivedThroughUtc", "RollupWatermark"."receivedThroughUtc"),
+      "updatedAt" = EXCLUDED."updatedAt"`,
+    granularity,
+    marks.map((m) => m.deviceId),
+    marks.map((m) => iso(m.builtToUtc)),
+    marks.map((m) => iso(m.receivedThroughUtc))
+  );
+}
+
+/**
+ * Move devices' marks back to `to` (never forward), so the next pass rebuilds from there
+ */
+export async function lowerWatermarks(granularity: Granularity, marks: Array<{ deviceId: string; to: Date }>) {
+  if (marks.length === 0) return;
+  await prisma.$executeRawUnsafe(`
+    UPDATE "RollupWatermark" w SET "builtToUtc" = v."toUtc", "updatedAt" = now() AT TIME ZONE 'UTC'
+    FROM unnest($2::text[], $3::timestamp[]) AS v("deviceId", "toUtc")
+    WHERE w."deviceId" = v."deviceId" AND w."granularity" = $1 AND w."builtToUtc" > v."toUtc"`,
+    granularity,
+    marks.map((m) => m.deviceId),
+    marks.map((m) => iso(m.to))
+  );
+}
+
+/**
+ * Per device, the earliest observation time among raw samples received since its
+ * 1m mark's receivedThroughUtc but observed before its builtToUtc (late or backfilled data)
+ */
+export async function findLateSamples(): Promise<Map<string, Date>> {
+  const rows = await prisma.$queryRawUnsafe<Array<{ deviceId: string; tsUtc: Date }>>(`
+    WITH w AS (SELECT * FROM "RollupWatermark" WHERE "granularity" = '1m' AND "receivedThroughUtc" IS NOT NULL)
+    SELECT l."deviceId", min(l."tsUtc") AS "tsUtc"
+    FROM (
+      SELECT s."deviceId", s."tsUtc" FROM "RawHealth" s
+      JOIN w ON w."deviceId" = s."deviceId" AND s."receivedAtUtc" >= w."receivedThroughUtc" AND s."tsUtc" < w."builtToUtc"
+      UNION ALL
+      SELECT s."deviceId", s."tsUtc" FROM "RawEnergy" s
+      JOIN w ON w."deviceId" = s."deviceId" AND s."receivedAtUtc" >= w."receivedThroughUtc" AND s."tsUtc" < w."builtToUtc"
+    ) l
+    GROUP BY l."deviceId"`);
+  return new Map(rows.map((r) => [r.deviceId, r.tsUtc]));
+}
@@ -1,348 +1,822 @@
 import { PrismaClient } from "@prisma/client";
 import * as cron from "node-cron";
 import { floorToMinute, getPreviousIstDayStart, getIstDayStart } from "../time";
+import { runTrackedJob } from "../jobRuns";
+import { isLeader } from "../leader";
+import { combineRollups, integrateWindow } from "../logic/integrate";
+import { energyFromCounter, type EnergyCounterMode } from "../logic/energyCounter";
+import { combineElectricalStats, electricalStats, STAT_SELECT } from "../logic/stats";
+import {
+  type DeviceRange, type Granularity,
+  findLateSamples, insertRollups, lowerWatermarks, saveWatermarks
+} from "./rollupSql";
 
 const prisma = new PrismaClient();
 
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// A sample's receive time is set before it is written (for polls, when the
+// device list was fetched), so each pass rescans this much of the previous one
+// for late arrivals that were still being written when it ran
+const RECEIVE_LAG_MS = 2 * MINUTE_MS;
+
+// Longest a power sample is assumed to hold when no newer one follows. Above the
+// poller's 5-minute idle cadence and the ingest repeat, so steady devices stay covered.
+const MAX_HOLD_MS = Number(process.env.ROLLUP_MAX_HOLD_MS) || 6 * MINUTE_MS;
+
+/**
+ * One rollup table: how its windows are sized, where they come from and how one is built.
+ */
+type RollupLevel = {
+  granularity: Granularity;
+  stepMs: number;
+  lookbackMs: number; // where a device without a watermark or rollups starts
+  batchMs: number; // span of one set-based statement (a multiple of stepMs)
+  // per-window path, kept for benchmark mode
+  build: (deviceId: string, windowStart: Date, channel: string) => Promise<boolean>; // false: nothing to write
+  // timestamps + channels of the source rows (raw samples or the level below) in [from, to)
+  sources: (deviceId: string, from: Date, to: Date) => Promise<Array<{ ts: Date; channel: string }>>;
+  lastWindow: (deviceId: string) => Promise<Date | null>;
+};
+
+type RollupWatermarkRow = { deviceId: string; builtToUtc: Date; receivedThroughUtc: Date | null };
+
+/**
+ * Progress of a rollup pass, for GET /api/rollups/progress
+ */
+export type RollupProgress = {
+  status: "idle" | "running" | "done" | "failed";
+  trigger: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  level: Granularity | null; // level being built
+  batch: number; // statements done / planned for that level
+  batches: number;
+  rows: number; // rollup rows written in this pass, all levels
+  rowsPerSec: number | null;
+};
+
+function idleProgress(): RollupProgress {
+  return { status: "idle", trigger: null, startedAt: null, finishedAt: null, level: null, batch: 0, batches: 0, rows: 0, rowsPerSec: null };
+}
+
+// the scheduled builders and manual recomputes can overlap, so each has its own
+const progress = { builders: idleProgress(), recompute: idleProgress() };
+
+export function getRollupProgress() {
+  return progress;
+}
+
+function startProgress(p: RollupProgress, trigger: string) {
+  Object.assign(p, idleProgress(), { status: "running", trigger, startedAt: new Date().toISOString() });
+}
+
+function finishProgress(p: RollupProgress, failed: boolean) {
+  p.status = failed ? "failed" : "done";
+  p.finishedAt = new Date().toISOString();
+}
+
+function floorTo(d: Date, stepMs: number): Date {
+  return new Date(Math.floor(d.getTime() / stepMs) * stepMs);
+}
+
+async function getWatermarks(granularity: Granularity) {
+  const rows = await prisma.rollupWatermark.findMany({ where: { granularity } });
+  return new Map<string, RollupWatermarkRow>(rows.map((r: RollupWatermarkRow) => [r.deviceId, r]));
+}
+
 /**
- * Build 1-minute rollups from RawHealth data
+ * Where a device without a watermark starts: after its newest existing rollup
+ * (tables built before watermarks existed), else the level's look-back
  */
-async function buildRollup1m() {
+async function initialStart(level: RollupLevel, deviceId: string, now: Date): Promise<Date> {
+  const last = await level.lastWindow(deviceId);
+  return last
+    ? new Date(last.getTime() + level.stepMs)
+    : floorTo(new Date(now.getTime() - level.lookbackMs), level.stepMs);
+}
+
+/**
+ * Build (upsert) every window of the given device ranges with set-based
+ * statements, one per batchMs slice of time so a long catch-up reports progress
+ * and no statement grows unbounded. Returns how many rollup rows were written.
+ */
+async function buildRanges(level: RollupLevel, ranges: DeviceRange[], p?: RollupProgress): Promise<number> {
+  const todo = ranges.filter((r) => r.from < r.to);
+  if (todo.length === 0) return 0;
+
+  // slices start on batch boundaries, so no window is split between two statements
+  const start = floorTo(new Date(Math.min(...todo.map((r) => r.from.getTime()))), level.batchMs).getTime();
+  const end = Math.max(...todo.map((r) => r.to.getTime()));
+  const batches = Math.ceil((end - start) / level.batchMs);
+  const tag = `[ROLLUP${level.granularity.toUpperCase()}]`;
+  const passStarted = p?.startedAt ? new Date(p.startedAt).getTime() : Date.now();
+  if (p) Object.assign(p, { level: level.granularity, batch: 0, batches });
+
+  let rows = 0;
+  for (let batch = 1, sliceStart = start; sliceStart < end; batch++, sliceStart += level.batchMs) {
+    const sliceEnd = Math.min(sliceStart + level.batchMs, end);
+    const slice = todo
+      .map((r) => ({
+        deviceId: r.deviceId,
+        from: new Date(Math.max(r.from.getTime(), sliceStart)),
+        to: new Date(Math.min(r.to.getTime(), sliceEnd))
+      }))
+      .filter((r) => r.from < r.to);
+    const written = await insertRollups(level.granularity, slice, MAX_HOLD_MS);
+    rows += written;
+
+    if (p) {
+      p.batch = batch;
+      p.rows += written;
+      p.rowsPerSec = Math.round(p.rows / Math.max(0.001, (Date.now() - passStarted) / 1000));
+    }
+    if (batches > 1) {
+      console.log(`${tag} Batch ${batch}/${batches} (${new Date(sliceStart).toISOString()}): ${written} row(s), ${slice.length} device(s)`);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Build (upsert) every window of one device in [from, to) that has source rows,
+ * one window at a time. The set-based path replaced this; benchmark mode still
+ * runs it for comparison. Returns how many rollup rows were written.
+ */
+async function buildCells(level: RollupLevel, deviceId: string, from: Date, to: Date): Promise<number> {
+  const windows = new Map<string, { windowStart: Date; channel: string }>();
+  for (const { ts, channel } of await level.sources(deviceId, from, to)) {
+    const windowStart = floorTo(ts, level.stepMs);
+    windows.set(`${windowStart.getTime()}|${channel}`, { windowStart, channel });
+  }
+  let rows = 0;
+  for (const { windowStart, channel } of Array.from(windows.values())) {
+    if (await level.build(deviceId, windowStart, channel)) rows++;
+  }
+  return rows;
+}
+
+/**
+ * Build 1-minute rollups from RawHealth and RawEnergy data.
+ * Each device resumes at its watermark, or earlier when samples observed before
+ * it were received since the last pass; rebuilt minutes move the 15m mark back.
+ */
+async function buildRollup1m(p?: RollupProgress): Promise<number> {
   try {
     console.log("[ROLLUP1M] Building 1-minute rollups...");
-    
-    // Get the last processed window or start from 1 hour ago
-    const lastRollup = await prisma.rollup1m.findFirst({
-      orderBy: { windowUtc: 'desc' }
-    });
-    
-    const startTime = lastRollup 
-      ? new Date(lastRollup.windowUtc.getTime() + 60000) // Next minute
-      : new Date(Date.now() - 60 * 60 * 1000); // 1 hour ago
-    
-    const endTime = floorToMinute(new Date()); // Current minute floor
-    
-    // Process each minute window
-    for (let windowStart = floorToMinute(startTime); windowStart < endTime; windowStart.setMinutes(windowStart.getMinutes() + 1)) {
-      const windowEnd = new Date(windowStart.getTime() + 60000);
-      
-      // Get unique devices with health data in this window
-      const devicesInWindow = await prisma.rawHealth.groupBy({
-        by: ['deviceId'],
-        where: {
-          tsUtc: { gte: windowStart, lt: windowEnd }
-        }
-      });
-      
-      for (const { deviceId } of devicesInWindow) {
-        // Get health data for this device in this window
-        const healthData = await prisma.rawHealth.findMany({
-          where: {
-            deviceId,
-            tsUtc: { gte: windowStart, lt: windowEnd }
-          },
-          select: { powerW: true },
-          orderBy: { tsUtc: 'asc' }
-        });
-        
-        if (healthData.length === 0) continue;
-        
-        const powerValues = healthData.filter(h => h.powerW !== null).map(h => h.powerW!);
-        
-        let avgPowerW: number | undefined;
-        let minPowerW: number | undefined;
-        let maxPowerW: number | undefined;
-        let kwh: number | undefined;
-        
-        if (powerValues.length > 0) {
-          avgPowerW = Math.round(powerValues.reduce((sum, p) => sum + p, 0) / powerValues.length);
-          minPowerW = Math.min(...powerValues);
-          maxPowerW = Math.max(...powerValues);
-          kwh = avgPowerW / 60 / 1000; // Convert W to kWh for 1 minute
-        }
-        
-        // Get the latest addEleKwh value in this window
-        const energyData = await prisma.rawEnergy.findFirst({
-          where: {
-            deviceId,
-            tsUtc: { gte: windowStart, lt: windowEnd }
-          },
-          select: { addEleKwh: true },
-          orderBy: { tsUtc: 'desc' }
-        });
-        
-        const lastAddEle = energyData?.addEleKwh;
-        
-        // Create rollup record
-        await prisma.rollup1m.create({
-          data: {
-            deviceId,
-            windowUtc: windowStart,
-            avgPowerW,
-            minPowerW,
-            maxPowerW,
-            lastAddEle,
-            kwh
-          }
-        });
-      }
+
+    const now = new Date();
+    const endTime = floorToMinute(now); // Current minute floor
+    const receivedThrough = new Date(now.getTime() - RECEIVE_LAG_MS);
+    const marks = await getWatermarks("1m");
+    const late = await findLateSamples();
+
+    // devices with a mark, plus any that reported (health or energy) recently without one yet
+    const since = new Date(now.getTime() - ROLLUP_1M.lookbackMs);
+    const recent = [
+      ...await prisma.rawHealth.groupBy({ by: ['deviceId'], where: { tsUtc: { gte: since } } }),
+      ...await prisma.rawEnergy.groupBy({ by: ['deviceId'], where: { tsUtc: { gte: since } } })
+    ];
+    const deviceIds = Array.from(new Set(Array.from(marks.keys()).concat(recent.map((r: { deviceId: string }) => r.deviceId))));
+
+    const ranges: DeviceRange[] = [];
+    for (const deviceId of deviceIds) {
+      const mark = marks.get(deviceId);
+      let from = mark ? mark.builtToUtc : await initialStart(ROLLUP_1M, deviceId, now);
+      const lateTs = late.get(deviceId);
+      if (lateTs && lateTs < from) from = floorToMinute(lateTs);
+      ranges.push({ deviceId, from, to: from < endTime ? endTime : from });
     }
-    
+
+    const built = await buildRanges(ROLLUP_1M, ranges, p);
+    await saveWatermarks("1m", ranges.map((r) => ({ deviceId: r.deviceId, builtToUtc: r.to, receivedThroughUtc: receivedThrough })));
+    await lowerWatermarks("15m", ranges.map((r) => ({ deviceId: r.deviceId, to: floorTo(r.from, ROLLUP_15M.stepMs) })));
+
     console.log("[ROLLUP1M] 1-minute rollups completed");
+    return built;
   } catch (error) {
     console.error("[ROLLUP1M] Error building 1-minute rollups:", error);
+    throw error;
+  }
+}
+
+/**
+ * Build one device's 1-minute rollup for the window starting at windowStart.
+ * channel "" is the device total; phases/outlets get their own rows.
+ * Power is integrated over time (see integrateWindow), so samples before the
+ * window whose hold reaches into it count too.
+ */
+async function rollupMinute(deviceId: string, windowStart: Date, channel: string = ""): Promise<boolean> {
+  const windowEnd = new Date(windowStart.getTime() + 60000);
+
+  // Get health data for this device in and just before this window
+  const healthData = await prisma.rawHealth.findMany({
+    where: {
+      deviceId,
+      channel,
+      tsUtc: { gte: new Date(windowStart.getTime() - MAX_HOLD_MS), lt: windowEnd }
+    },
+    select: { tsUtc: true, powerW: true, voltageV: true, currentA: true, pfEst: true },
+    orderBy: { tsUtc: 'asc' }
+  });
+  
+  const integral = integrateWindow(
+    healthData.map((h: { tsUtc: Date; powerW: number | null }) => ({ ts: h.tsUtc, powerW: h.powerW })),
+    windowStart, windowEnd, MAX_HOLD_MS
+  );
+  const stats = electricalStats(
+    healthData
+      .filter((h: { tsUtc: Date }) => h.tsUtc >= windowStart)
+      .map((h: { voltageV: unknown; currentA: unknown; pfEst: unknown }) => ({ voltageV: h.voltageV, currentA: h.currentA, pf: h.pfEst }))
+  );
+  
+  // Get the latest addEleKwh value in this window (the energy counter is per device, not per channel)
+  const energyData = channel !== "" ? null : await prisma.rawEnergy.findFirst({
+    where: {
+      deviceId,
+      tsUtc: { gte: windowStart, lt: windowEnd }
+    },
+    select: { addEleKwh: true },
+    orderBy: { tsUtc: 'desc' }
+  });
+  if (integral.samples === 0 && integral.coverage === 0 && !energyData) return false;
+  
+  const data = { ...integral, ...stats, lastAddEle: energyData?.addEleKwh ?? null };
+  
+  // Create or replace rollup record
+  await prisma.rollup1m.upsert({
+    where: { deviceId_channel_windowUtc: { deviceId, channel, windowUtc: windowStart } },
+    update: data,
+    create: { deviceId, channel, windowUtc: windowStart, ...data }
+  });
+  return true;
+}
+
+/**
+ * Build the 15-minute or 1-hour rollups of every device from the level below.
+ * Only whole windows below the lower level's watermark are built, so each one
+ * is final; rebuilt windows move the next level's mark back.
+ */
+async function buildFromLowerLevel(level: RollupLevel, lower: Granularity, next?: RollupLevel, p?: RollupProgress): Promise<number> {
+  const now = new Date();
+  const lowerMarks = await getWatermarks(lower);
+  const marks = await getWatermarks(level.granularity);
+
+  const ranges: DeviceRange[] = [];
+  for (const { deviceId, builtToUtc } of Array.from(lowerMarks.values())) {
+    const end = floorTo(builtToUtc, level.stepMs);
+    const from = marks.get(deviceId)?.builtToUtc ?? await initialStart(level, deviceId, now);
+    if (from < end) ranges.push({ deviceId, from, to: end });
   }
+
+  const built = await buildRanges(level, ranges, p);
+  await saveWatermarks(level.granularity, ranges.map((r) => ({ deviceId: r.deviceId, builtToUtc: r.to })));
+  if (next) await lowerWatermarks(next.granularity, ranges.map((r) => ({ deviceId: r.deviceId, to: floorTo(r.from, next.stepMs) })));
+  return built;
 }
 
 /**
  * Build 15-minute rollups from 1-minute rollups
  */
-async function buildRollup15m() {
+async function buildRollup15m(p?: RollupProgress): Promise<number> {
   try {
     console.log("[ROLLUP15M] Building 15-minute rollups...");
-    
-    // Get the last processed window or start from 4 hours ago
-    const lastRollup = await prisma.rollup15m.findFirst({
-      orderBy: { windowUtc: 'desc' }
-    });
-    
-    const startTime = lastRollup 
-      ? new Date(lastRollup.windowUtc.getTime() + 15 * 60000) // Next 15-minute window
-      : new Date(Date.now() - 4 * 60 * 60 * 1000); // 4 hours ago
-    
-    // Floor to 15-minute boundary
-    const startMinutes = Math.floor(startTime.getMinutes() / 15) * 15;
-    const alignedStart = new Date(startTime);
-    alignedStart.setMinutes(startMinutes, 0, 0);
-    
-    const endTime = new Date();
-    const endMinutes = Math.floor(endTime.getMinutes() / 15) * 15;
-    const alignedEnd = new Date(endTime);
-    alignedEnd.setMinutes(endMinutes, 0, 0);
-    
-    // Process each 15-minute window
-    for (let windowStart = alignedStart; windowStart < alignedEnd; windowStart.setMinutes(windowStart.getMinutes() + 15)) {
-      const windowEnd = new Date(windowStart.getTime() + 15 * 60000);
-      
-      // Get unique devices with 1m rollup data in this window
-      const devicesInWindow = await prisma.rollup1m.groupBy({
-        by: ['deviceId'],
-        where: {
-          windowUtc: { gte: windowStart, lt: windowEnd }
-        }
-      });
-      
-      for (const { deviceId } of devicesInWindow) {
-        // Aggregate 1-minute rollups for this device in this 15-minute window
-        const rollup1mData = await prisma.rollup1m.findMany({
-          where: {
-            deviceId,
-            windowUtc: { gte: windowStart, lt: windowEnd }
-          },
-          select: { avgPowerW: true, minPowerW: true, maxPowerW: true, kwh: true }
-        });
-        
-        if (rollup1mData.length === 0) continue;
-        
-        // Calculate aggregated values
-        const validAvgPowers = rollup1mData.filter(r => r.avgPowerW !== null).map(r => r.avgPowerW!);
-        const validMinPowers = rollup1mData.filter(r => r.minPowerW !== null).map(r => r.minPowerW!);
-        const validMaxPowers = rollup1mData.filter(r => r.maxPowerW !== null).map(r => r.maxPowerW!);
-        const validKwh = rollup1mData.filter(r => r.kwh !== null).map(r => Number(r.kwh!));
-        
-        const avgPowerW = validAvgPowers.length > 0 
-          ? Math.round(validAvgPowers.reduce((sum, p) => sum + p, 0) / validAvgPowers.length) 
-          : undefined;
-        
-        const minPowerW = validMinPowers.length > 0 ? Math.min(...validMinPowers) : undefined;
-        const maxPowerW = validMaxPowers.length > 0 ? Math.max(...validMaxPowers) : undefined;
-        const kwh = validKwh.length > 0 ? validKwh.reduce((sum, k) => sum + k, 0) : undefined;
-        
-        // Create 15-minute rollup
-        await prisma.rollup15m.create({
-          data: {
-            deviceId,
-            windowUtc: windowStart,
-            avgPowerW,
-            minPowerW,
-            maxPowerW,
-            kwh
-          }
-        });
-      }
-    }
-    
+    const built = await buildFromLowerLevel(ROLLUP_15M, "1m", ROLLUP_1H, p);
     console.log("[ROLLUP15M] 15-minute rollups completed");
+    return built;
   } catch (error) {
     console.error("[ROLLUP15M] Error building 15-minute rollups:", error);
+    throw error;
   }
 }
 
+/**
+ * Build one device's (or channel's) 15-minute rollup from its 1-minute rollups
+ */
+async function rollupQuarterHour(deviceId: string, windowStart: Date, channel: string = ""): Promise<boolean> {
+  const windowEnd = new Date(windowStart.getTime() + 15 * 60000);
+
+  // Aggregate 1-minute rollups for this device in this 15-minute window
+  const rollup1mData = await prisma.rollup1m.findMany({
+    where: {
+      deviceId,
+      channel,
+      windowUtc: { gte: windowStart, lt: windowEnd }
+    },
+    select: { avgPowerW: true, minPowerW: true, maxPowerW: true, kwh: true, samples: true, coverage: true, ...STAT_SELECT }
+  });
+  
+  if (rollup1mData.length === 0) return false;
+  
+  const data = { ...combineRollups(rollup1mData, 1 / 15), ...combineElectricalStats(rollup1mData) };
+  
+  // Create or replace 15-minute rollup
+  await prisma.rollup15m.upsert({
+    where: { deviceId_channel_windowUtc: { deviceId, channel, windowUtc: windowStart } },
+    update: data,
+    create: { deviceId, channel, windowUtc: windowStart, ...data }
+  });
+  return true;
+}
+
 /**
  * Build 1-hour rollups from 15-minute rollups
  */
-async function buildRollup1h() {
+async function buildRollup1h(p?: RollupProgress): Promise<number> {
   try {
     console.log("[ROLLUP1H] Building 1-hour rollups...");
-    
-    // Get the last processed window or start from 24 hours ago
-    const lastRollup = await prisma.rollup1h.findFirst({
-      orderBy: { windowUtc: 'desc' }
+    const built = await buildFromLowerLevel(ROLLUP_1H, "15m", undefined, p);
+    console.log("[ROLLUP1H] 1-hour rollups completed");
+    return built;
+  } catch (error) {
+    console.error("[ROLLUP1H] Error building 1-hour rollups:", error);
+    throw error;
+  }
+}
+
+/**
+ * Build one device's (or channel's) 1-hour rollup from its 15-minute rollups
+ */
+async function rollupHour(deviceId: string, windowStart: Date, channel: string = ""): Promise<boolean> {
+  const windowEnd = new Date(windowStart.getTime() + 60 * 60000);
+
+  // Aggregate 15-minute rollups for this device in this hour window
+  const rollup15mData = await prisma.rollup15m.findMany({
+    where: {
+      deviceId,
+      channel,
+      windowUtc: { gte: windowStart, lt: windowEnd }
+    },
+    select: { avgPowerW: true, minPowerW: true, maxPowerW: true, kwh: true, samples: true, coverage: true, ...STAT_SELECT }
+  });
+  
+  if (rollup15mData.length === 0) return false;
+  
+  const data = { ...combineRollups(rollup15mData, 1 / 4), ...combineElectricalStats(rollup15mData) };
+  
+  // Create or replace 1-hour rollup
+  await prisma.rollup1h.upsert({
+    where: { deviceId_channel_windowUtc: { deviceId, channel, windowUtc: windowStart } },
+    update: data,
+    create: { deviceId, channel, windowUtc: windowStart, ...data }
+  });
+  return true;
+}
+
+const ROLLUP_1M: RollupLevel = {
+  granularity: "1m",
+  stepMs: MINUTE_MS,
+  lookbackMs: HOUR_MS,
+  batchMs: 6 * HOUR_MS,
+  build: rollupMinute,
+  // each sample's minute plus the later minutes its hold may reach, and each energy
+  // reading's minute (device total); rollupMinute skips uncovered ones
+  sources: async (deviceId, from, to) => {
+    const rows = await prisma.rawHealth.findMany({
+      where: { deviceId, tsUtc: { gte: new Date(from.getTime() - MAX_HOLD_MS), lt: to } },
+      select: { tsUtc: true, channel: true }
     });
-    
-    const startTime = lastRollup 
-      ? new Date(lastRollup.windowUtc.getTime() + 60 * 60000) // Next hour
-      : new Date(Date.now() - 24 * 60 * 60 * 1000); // 24 hours ago
-    
-    // Floor to hour boundary
-    const alignedStart = new Date(startTime);
-    alignedStart.setMinutes(0, 0, 0);
-    
-    const endTime = new Date();
-    const alignedEnd = new Date(endTime);
-    alignedEnd.setMinutes(0, 0, 0);
-    
-    // Process each hour window
-    for (let windowStart = alignedStart; windowStart < alignedEnd; windowStart.setHours(windowStart.getHours() + 1)) {
-      const windowEnd = new Date(windowStart.getTime() + 60 * 60000);
-      
-      // Get unique devices with 15m rollup data in this window
-      const devicesInWindow = await prisma.rollup15m.groupBy({
-        by: ['deviceId'],
-        where: {
-          windowUtc: { gte: windowStart, lt: windowEnd }
+    const out: Array<{ ts: Date; channel: string }> = [];
+    for (const r of rows) {
+      const first = Math.max(floorTo(r.tsUtc, MINUTE_MS).getTime(), from.getTime());
+      const last = Math.min(r.tsUtc.getTime() + MAX_HOLD_MS, to.getTime());
+      for (let t = first; t < last; t += MINUTE_MS) out.push({ ts: new Date(t), channel: r.channel });
+    }
+    const energy = await prisma.rawEnergy.findMany({
+      where: { deviceId, tsUtc: { gte: from, lt: to } },
+      select: { tsUtc: true }
+    });
+    return out.concat(energy.map((r: { tsUtc: Date }) => ({ ts: r.tsUtc, channel: "" })));
+  },
+  lastWindow: async (deviceId) => (await prisma.rollup1m.findFirst({
+    where: { deviceId }, orderBy: { windowUtc: 'desc' }, select: { windowUtc: true }
+  }))?.windowUtc ?? null
+};
+
+const ROLLUP_15M: RollupLevel = {
+  granularity: "15m",
+  stepMs: 15 * MINUTE_MS,
+  lookbackMs: 4 * HOUR_MS,
+  batchMs: DAY_MS,
+  build: rollupQuarterHour,
+  sources: async (deviceId, from, to) => (await prisma.rollup1m.findMany({
+    where: { deviceId, windowUtc: { gte: from, lt: to } },
+    select: { windowUtc: true, channel: true }
+  })).map((r) => ({ ts: r.windowUtc, channel: r.channel })),
+  lastWindow: async (deviceId) => (await prisma.rollup15m.findFirst({
+    where: { deviceId }, orderBy: { windowUtc: 'desc' }, select: { windowUtc: true }
+  }))?.windowUtc ?? null
+};
+
+const ROLLUP_1H: RollupLevel = {
+  granularity: "1h",
+  stepMs: HOUR_MS,
+  lookbackMs: 24 * HOUR_MS,
+  batchMs: 7 * DAY_MS,
+  build: rollupHour,
+  sources: async (deviceId, from, to) => (await prisma.rollup15m.findMany({
+    where: { deviceId, windowUtc: { gte: from, lt: to } },
+    select: { windowUtc: true, channel: true }
+  })).map((r) => ({ ts: r.windowUtc, channel: r.channel })),
+  lastWindow: async (deviceId) => (await prisma.rollup1h.findFirst({
+    where: { deviceId }, orderBy: { windowUtc: 'desc' }, select: { windowUtc: true }
+  }))?.windowUtc ?? null
+};
+
+const ROLLUP_LEVELS = [ROLLUP_1M, ROLLUP_15M, ROLLUP_1H];
+
+// How far back a sensor metric without a watermark or rollups starts
+const SENSOR_LOOKBACK_MS = 24 * HOUR_MS;
+
+/**
+ * Build 1-hour rollups of sensor readings (temperature, contact state, ...).
+ * Each device/metric resumes at its own watermark, or earlier when readings
+ * observed before it were received since the last pass (late or backfilled).
+ */
+async function buildSensorRollup1h(): Promise<number> {
+  let built = 0;
+  try {
+    console.log("[ROLLUP-SENSOR] Building 1-hour sensor rollups...");
+
+    const now = new Date();
+    const end = new Date(now);
+    end.setUTCMinutes(0, 0, 0);
+    const receivedThrough = new Date(now.getTime() - RECEIVE_LAG_MS);
+
+    const marks = await prisma.sensorRollupWatermark.findMany();
+    const markOf = new Map<string, { builtToUtc: Date; receivedThroughUtc: Date | null }>(
+      marks.map((m: { deviceId: string; metric: string; builtToUtc: Date; receivedThroughUtc: Date | null }) => [`${m.deviceId}|${m.metric}`, m])
+    );
+
+    // metrics with a mark, plus any that reported recently without one yet
+    const recent = await prisma.sensorReading.groupBy({
+      by: ['deviceId', 'metric'],
+      where: { tsUtc: { gte: new Date(now.getTime() - SENSOR_LOOKBACK_MS) } }
+    });
+    const pairs = new Map<string, { deviceId: string; metric: string }>();
+    for (const r of [...marks, ...recent] as Array<{ deviceId: string; metric: string }>) {
+      pairs.set(`${r.deviceId}|${r.metric}`, { deviceId: r.deviceId, metric: r.metric });
+    }
+
+    for (const [key, { deviceId, metric }] of Array.from(pairs.entries())) {
+      const mark = markOf.get(key);
+      let from = mark?.builtToUtc ?? await initialSensorStart(deviceId, metric, now);
+
+      // re-roll the hours of readings that arrived after their hour was built
+      if (mark?.receivedThroughUtc) {
+        const late = await prisma.sensorReading.findFirst({
+          where: { deviceId, metric, tsUtc: { lt: from }, receivedAtUtc: { gte: mark.receivedThroughUtc, lt: receivedThrough } },
+          orderBy: { tsUtc: 'asc' },
+          select: { tsUtc: true }
+        });
+        if (late) {
+          from = new Date(late.tsUtc);
+          from.setUTCMinutes(0, 0, 0);
         }
+      }
+      if (from >= end) continue;
+
+      const readings = await prisma.sensorReading.findMany({
+        where: { deviceId, metric, tsUtc: { gte: from, lt: end } },
+        orderBy: { tsUtc: 'asc' },
+        select: { tsUtc: true, value: true }
       });
-      
-      for (const { deviceId } of devicesInWindow) {
-        // Aggregate 15-minute rollups for this device in this hour window
-        const rollup15mData = await prisma.rollup15m.findMany({
-          where: {
-            deviceId,
-            windowUtc: { gte: windowStart, lt: windowEnd }
-          },
-          select: { avgPowerW: true, minPowerW: true, maxPowerW: true, kwh: true }
-        });
-        
-        if (rollup15mData.length === 0) continue;
-        
-        // Calculate aggregated values
-        const validAvgPowers = rollup15mData.filter(r => r.avgPowerW !== null).map(r => r.avgPowerW!);
-        const validMinPowers = rollup15mData.filter(r => r.minPowerW !== null).map(r => r.minPowerW!);
-        const validMaxPowers = rollup15mData.filter(r => r.maxPowerW !== null).map(r => r.maxPowerW!);
-        const validKwh = rollup15mData.filter(r => r.kwh !== null).map(r => Number(r.kwh!));
-        
-        const avgPowerW = validAvgPowers.length > 0 
-          ? Math.round(validAvgPowers.reduce((sum, p) => sum + p, 0) / validAvgPowers.length) 
-          : undefined;
-        
-        const minPowerW = validMinPowers.length > 0 ? Math.min(...validMinPowers) : undefined;
-        const maxPowerW = validMaxPowers.length > 0 ? Math.max(...validMaxPowers) : undefined;
-        const kwh = validKwh.length > 0 ? validKwh.reduce((sum, k) => sum + k, 0) : undefined;
-        
-        // Create 1-hour rollup
-        await prisma.rollup1h.create({
-          data: {
-            deviceId,
-            windowUtc: windowStart,
-            avgPowerW,
-            minPowerW,
-            maxPowerW,
-            kwh
-          }
+      const byHour = new Map<number, number[]>();
+      for (const r of readings as Array<{ tsUtc: Date; value: number }>) {
+        const hour = floorTo(r.tsUtc, HOUR_MS).getTime();
+        const values = byHour.get(hour) ?? [];
+        values.push(r.value);
+        byHour.set(hour, values);
+      }
+
+      for (const [hour, values] of Array.from(byHour.entries())) {
+        const windowUtc = new Date(hour);
+        const data = {
+          avg: values.reduce((sum, v) => sum + v, 0) / values.length,
+          min: Math.min(...values),
+          max: Math.max(...values),
+          last: values[values.length - 1],
+          samples: values.length
+        };
+        await prisma.sensorRollup1h.upsert({
+          where: { deviceId_metric_windowUtc: { deviceId, metric, windowUtc } },
+          update: data,
+          create: { deviceId, metric, windowUtc, ...data }
         });
+        built++;
       }
+
+      await prisma.sensorRollupWatermark.upsert({
+        where: { deviceId_metric: { deviceId, metric } },
+        update: { builtToUtc: end, receivedThroughUtc: receivedThrough },
+        create: { deviceId, metric, builtToUtc: end, receivedThroughUtc: receivedThrough }
+      });
     }
-    
-    console.log("[ROLLUP1H] 1-hour rollups completed");
+
+    console.log("[ROLLUP-SENSOR] 1-hour sensor rollups completed");
+    return built;
   } catch (error) {
-    console.error("[ROLLUP1H] Error building 1-hour rollups:", error);
+    console.error("[ROLLUP-SENSOR] Error building 1-hour sensor rollups:", error);
+    throw error;
   }
 }
 
 /**
- * Compute daily kWh for the previous IST day using positive deltas of addEleKwh
+ * Where a sensor metric without a watermark starts: after its newest rollup
+ * (built before watermarks existed), else SENSOR_LOOKBACK_MS ago
+ */
+async function initialSensorStart(deviceId: string, metric: string, now: Date): Promise<Date> {
+  const last = await prisma.sensorRollup1h.findFirst({
+    where: { deviceId, metric }, orderBy: { windowUtc: 'desc' }, select: { windowUtc: true }
+  });
+  return last
+    ? new Date(last.windowUtc.getTime() + HOUR_MS)
+    : floorTo(new Date(now.getTime() - SENSOR_LOOKBACK_MS), HOUR_MS);
+}
+
+/**
+ * Compute daily kWh for one IST day (the previous day after midnight, today
+ * during the day) from each device's add_ele readings
+ */
+async function computeDailyKwh(trigger: string, day: Date) {
+  console.log(`[DAILY] Computing daily kWh for ${day.toISOString()} (${trigger})...`);
+  await runTrackedJob("daily-kwh", trigger, async () => {
+    const devices = await computeDailyKwhForDay(day);
+    return { counts: { day: day.toISOString(), devices } };
+  });
+}
+
+/**
+ * Compute (or recompute) daily kWh for one IST day, optionally for one device only.
+ * A day in progress gets its total so far. Each device's counter mode
+ * (DeviceSettings.energyCounterMode) decides how readings add up; see energyFromCounter.
+ * Returns how many devices got a DailyKwh row.
  */
-async function computeDailyKwh() {
+export async function computeDailyKwhForDay(dayStart: Date, onlyDeviceId?: string): Promise<number> {
   try {
-    console.log("[DAILY] Computing daily kWh for previous IST day...");
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
     
-    const now = new Date();
-    const previousDayStart = getPreviousIstDayStart(now);
-    const previousDayEnd = getIstDayStart(now);
-    
-    console.log(`[DAILY] Processing day: ${previousDayStart.toISOString()} to ${previousDayEnd.toISOString()}`);
+    console.log(`[DAILY] Processing day: ${dayStart.toISOString()} to ${dayEnd.toISOString()}`);
     
     // Get all devices that have energy data
     const devicesWithEnergy = await prisma.rawEnergy.groupBy({
       by: ['deviceId'],
       where: {
-        tsUtc: { gte: previousDayStart, lt: previousDayEnd }
+        deviceId: onlyDeviceId,
+        tsUtc: { gte: dayStart, lt: dayEnd }
       }
     });
+    const modes = await getCounterModes();
     
     for (const { deviceId } of devicesWithEnergy) {
-      // Get baseline (last sample before or at day start)
-      const baseline = await prisma.rawEnergy.findFirst({
+      const mode = modes.get(deviceId) ?? "cumulative";
+
+      // Baseline of a cumulative counter: last reading before the day
+      const baseline = mode === "incremental" ? null : await prisma.rawEnergy.findFirst({
         where: {
           deviceId,
-          tsUtc: { lte: previousDayStart }
+          tsUtc: { lt: dayStart }
         },
         orderBy: { tsUtc: 'desc' },
         select: { addEleKwh: true }
       });
       
-      // Get final reading of the day
-      const finalReading = await prisma.rawEnergy.findFirst({
+      const readings = await prisma.rawEnergy.findMany({
         where: {
           deviceId,
-          tsUtc: { gte: previousDayStart, lt: previousDayEnd }
+          tsUtc: { gte: dayStart, lt: dayEnd }
         },
-        orderBy: { tsUtc: 'desc' },
-        select: { addEleKwh: true }
+        orderBy: { tsUtc: 'asc' },
+        select: { tsUtc: true, receivedAtUtc: true, addEleKwh: true, source: true }
       });
       
-      if (!finalReading) continue;
-      
-      // Calculate kWh consumed during the day
-      const baselineKwh = baseline ? Number(baseline.addEleKwh) : 0;
-      const finalKwh = Number(finalReading.addEleKwh);
-      const dailyKwh = Math.max(0, finalKwh - baselineKwh); // Ensure positive
+      const { kwh, resets } = energyFromCounter(
+        (mode === "incremental" ? readings.filter((r: EnergyReading, i: number) => !isRepeatedReading(r, readings[i - 1])) : readings)
+          .map((r: EnergyReading) => Number(r.addEleKwh)),
+        mode,
+        baseline ? Number(baseline.addEleKwh) : null
+      );
+      const dailyKwh = Math.round(kwh * 10000) / 10000;
       
       // Upsert daily kWh record
       await prisma.dailyKwh.upsert({
         where: {
           deviceId_dayIst: {
             deviceId,
-            dayIst: previousDayStart
+            dayIst: dayStart
           }
         },
         update: {
-          kwh: dailyKwh
+          kwh: dailyKwh,
+          resets
         },
         create: {
           deviceId,
-          dayIst: previousDayStart,
-          kwh: dailyKwh
+          dayIst: dayStart,
+          kwh: dailyKwh,
+          resets
         }
       });
       
-      console.log(`[DAILY] Device ${deviceId}: ${dailyKwh} kWh`);
+      console.log(`[DAILY] Device ${deviceId}: ${dailyKwh} kWh${resets > 0 ? ` (${resets} counter reset(s))` : ""}`);
     }
     
     console.log("[DAILY] Daily kWh computation completed");
+    return devicesWithEnergy.length;
   } catch (error) {
     console.error("[DAILY] Error computing daily kWh:", error);
+    throw error;
+  }
+}
+
+type EnergyReading = { tsUtc: Date; receivedAtUtc: Date | null; addEleKwh: unknown; source: string };
+
+// A live reading stored again at receive time because the device hadn't reported
+// (see REPEAT_AFTER_MS in server/ingest.ts). Incremental devices no longer get
+// these, but rows stored before the device's mode was set may still be repeats.
+function isRepeatedReading(r: EnergyReading, prev: EnergyReading | undefined): boolean {
+  return r.source === "live" && prev !== undefined &&
+    r.receivedAtUtc?.getTime() === r.tsUtc.getTime() && Number(r.addEleKwh) === Number(prev.addEleKwh);
+}
+
+async function getCounterModes(): Promise<Map<string, EnergyCounterMode>> {
+  const rows = await prisma.deviceSettings.findMany({ select: { deviceId: true, energyCounterMode: true } });
+  return new Map<string, EnergyCounterMode>(
+    rows.map((r: { deviceId: string; energyCounterMode: string }) => [r.deviceId, r.energyCounterMode as EnergyCounterMode])
+  );
+}
+
+/**
+ * Recompute DailyKwh for every IST day touching [from, to), today included,
+ * e.g. after backfilled readings or a counter mode change. Days whose raw
+ * readings are past retention keep their stored totals.
+ */
+export async function recomputeDailyKwh(from: Date, to: Date, deviceId?: string): Promise<number> {
+  let days = 0;
+  const end = Math.min(to.getTime(), Date.now());
+  for (let day = getIstDayStart(from).getTime(); day < end; day += DAY_MS) {
+    await computeDailyKwhForDay(new Date(day), deviceId);
+    days++;
   }
+  return days;
 }
 
+let dailyRecomputeRunning = false;
+
 /**
- * Run all rollup builders
+ * Start recomputeDailyKwh in the background, recorded as a "daily-kwh" job run.
+ * from defaults to the device's (or any device's) first stored reading.
+ * Returns false (and starts nothing) while another daily recompute is running.
  */
-async function runRollupBuilders() {
-  await buildRollup1m();
-  await buildRollup15m(); 
-  await buildRollup1h();
+export function startDailyKwhRecompute(from: Date | undefined, to: Date, deviceId?: string): boolean {
+  if (dailyRecomputeRunning) return false;
+  dailyRecomputeRunning = true;
+  runTrackedJob("daily-kwh", "recompute", async () => {
+    const first = from ?? (await prisma.rawEnergy.findFirst({
+      where: { deviceId },
+      orderBy: { tsUtc: 'asc' },
+      select: { tsUtc: true }
+    }))?.tsUtc;
+    const days = first ? await recomputeDailyKwh(first, to, deviceId) : 0;
+    return { counts: { deviceId: deviceId ?? null, from: first?.toISOString() ?? null, to: to.toISOString(), days } };
+  }).finally(() => { dailyRecomputeRunning = false; });
+  return true;
+}
+
+/**
+ * Rebuild the devices' 1m/15m/1h rollups (all channels) covering [from, to), e.g. after
+ * backfilled samples landed in windows that were already rolled up.
+ * Windows are upserted, so overlapping the scheduled builders is harmless; windows
+ * whose source rows are gone (past raw retention) are left as they are.
+ */
+export async function rebuildRollups(deviceIds: string[], from: Date, to: Date, p?: RollupProgress): Promise<number> {
+  // widen to whole hours so every level covers the same span
+  const start = floorTo(from, HOUR_MS);
+  const end = new Date(Math.ceil(to.getTime() / HOUR_MS) * HOUR_MS);
+  const now = new Date();
+
+  let rows = 0;
+  for (const level of ROLLUP_LEVELS) {
+    // the window in progress is left to the scheduled builder
+    const stop = new Date(Math.min(end.getTime(), floorTo(now, level.stepMs).getTime()));
+    rows += await buildRanges(level, deviceIds.map((deviceId) => ({ deviceId, from: start, to: stop })), p);
+  }
+  console.log(`[ROLLUP] Rebuilt ${rows} row(s) for ${deviceIds.length} device(s) between ${start.toISOString()} and ${end.toISOString()}`);
+  return rows;
+}
+
+/**
+ * Rebuild every rollup level and DailyKwh for [from, to), for one device or for
+ * every device with samples in the range.
+ */
+export async function recomputeRange(from: Date, to: Date, deviceId?: string, p?: RollupProgress) {
+  const deviceIds = deviceId ? [deviceId] : await devicesWithSamples(from, to);
+  const rows = await rebuildRollups(deviceIds, from, to, p);
+  const days = await recomputeDailyKwh(from, to, deviceId);
+  return { devices: deviceIds.length, rows, days };
+}
+
+async function devicesWithSamples(from: Date, to: Date): Promise<string[]> {
+  const where = { tsUtc: { gte: from, lt: to } };
+  const rows = [
+    ...await prisma.rawHealth.groupBy({ by: ['deviceId'], where }),
+    ...await prisma.rawEnergy.groupBy({ by: ['deviceId'], where })
+  ];
+  return Array.from(new Set(rows.map((r: { deviceId: string }) => r.deviceId)));
+}
+
+/**
+ * Start recomputeRange in the background, recorded as a "rollup-recompute" job run.
+ * Returns false (and starts nothing) while another recompute is running.
+ */
+export function startRecompute(from: Date, to: Date, deviceId?: string): boolean {
+  const p = progress.recompute;
+  if (p.status === "running") return false;
+  startProgress(p, "manual");
+  runTrackedJob("rollup-recompute", "manual", async () => {
+    const counts = await recomputeRange(from, to, deviceId, p);
+    return { counts: { deviceId: deviceId ?? null, from: from.toISOString(), to: to.toISOString(), ...counts } };
+  }).then((outcome) => finishProgress(p, outcome.status === "failed"));
+  return true;
+}
+
+export type BenchmarkResult = {
+  granularity: Granularity;
+  perWindow: { rows: number; ms: number; rowsPerSec: number };
+  setBased: { rows: number; ms: number; rowsPerSec: number };
+  speedup: number;
+};
+
+/**
+ * Benchmark mode: build each level over [from, to) with the per-window path, then
+ * again with the set-based statements, and report rows per second for both.
+ * Both upsert the same rows, so running it against live tables is safe.
+ */
+export async function benchmarkRollups(from: Date, to: Date, deviceId?: string): Promise<BenchmarkResult[]> {
+  const deviceIds = deviceId ? [deviceId] : await devicesWithSamples(from, to);
+  const start = floorTo(from, HOUR_MS);
+  const now = new Date();
+
+  const timed = async (run: () => Promise<number>) => {
+    const t0 = Date.now();
+    const rows = await run();
+    const ms = Date.now() - t0;
+    return { rows, ms, rowsPerSec: Math.round(rows / Math.max(0.001, ms / 1000)) };
+  };
+
+  const results: BenchmarkResult[] = [];
+  for (const level of ROLLUP_LEVELS) {
+    const stop = new Date(Math.min(to.getTime(), floorTo(now, level.stepMs).getTime()));
+    const perWindow = await timed(async () => {
+      let rows = 0;
+      for (const id of deviceIds) rows += await buildCells(level, id, start, stop);
+      return rows;
+    });
+    const setBased = await timed(() => buildRanges(level, deviceIds.map((id) => ({ deviceId: id, from: start, to: stop }))));
+    const speedup = perWindow.rowsPerSec > 0 ? Math.round((setBased.rowsPerSec / perWindow.rowsPerSec) * 10) / 10 : 0;
+    results.push({ granularity: level.granularity, perWindow, setBased, speedup });
+    console.log(`[ROLLUP-BENCH] ${level.granularity}: per-window ${perWindow.rowsPerSec} rows/s, set-based ${setBased.rowsPerSec} rows/s (x${speedup})`);
+  }
+  return results;
+}
+
+/**
+ * Run all rollup builders, recorded as one "rollup" job run.
+ * A failing builder doesn't stop the ones after it (the run is then "partial").
+ * A pass still running (a long catch-up) makes the next scheduled one skip.
+ */
+async function runRollupBuilders(trigger: string) {
+  const p = progress.builders;
+  if (p.status === "running") {
+    console.log("[ROLLUP] Previous rollup pass still running, skipping");
+    return;
+  }
+  startProgress(p, trigger);
+  const outcome = await runTrackedJob("rollup", trigger, async () => {
+    const builders: Array<[string, (p: RollupProgress) => Promise<number>]> = [
+      ["rollup1m", buildRollup1m],
+      ["rollup15m", buildRollup15m],
+      ["rollup1h", buildRollup1h],
+      ["sensorRollup1h", buildSensorRollup1h],
+    ];
+    const counts: Record<string, number> = {};
+    const errors: string[] = [];
+    for (const [name, build] of builders) {
+      try {
+        counts[name] = await build(p);
+      } catch (e: any) {
+        errors.push(`${name}: ${e?.message || e}`);
+      }
+    }
+    return {
+      status: errors.length === 0 ? "ok" : errors.length < builders.length ? "partial" : "failed",
+      counts,
+      error: errors.length ? errors.join("\n") : undefined
+    };
+  });
+  finishProgress(p, outcome.status === "failed");
 }
 
 /**
@@ -353,19 +827,28 @@ export function startRollupScheduler() {
   
   // Every 5 minutes: build 1m/15m/1h rollups
   cron.schedule('*/5 * * * *', () => {
+    if (!isLeader()) return;
     console.log("[ROLLUP] Running scheduled rollup builders...");
-    runRollupBuilders();
+    runRollupBuilders("scheduled");
   });
   
   // Daily at 00:05 IST (18:35 UTC): compute daily kWh for previous day
   cron.schedule('35 18 * * *', () => {
+    if (!isLeader()) return;
     console.log("[ROLLUP] Running scheduled daily kWh computation...");
-    computeDailyKwh();
+    computeDailyKwh("scheduled", getPreviousIstDayStart(new Date()));
   }, {
     timezone: 'UTC'
   });
+
+  // Every 15 minutes: refresh today's running total
+  cron.schedule('*/15 * * * *', () => {
+    if (!isLeader()) return;
+    computeDailyKwh("intraday", getIstDayStart(new Date()));
+  });
   
-  // Run initial rollups on startup
+  // Run initial rollups on startup (the leader only; standbys catch up once elected)
+  if (!isLeader()) return;
   console.log("[ROLLUP] Running initial rollup builders...");
-  runRollupBuilders();
+  runRollupBuilders("startup");
 }
\ No newline at end of file
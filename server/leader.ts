@@ -0,0 +1,157 @@
+// server/leader.ts
+// Single-leader election for background jobs. With several replicas behind one
+// database only the holder of the "scheduler" lease row polls Tuya, builds
+// rollups and runs retention; the others serve the API and take over when the
+// lease is not renewed within its TTL.
+import os from "os";
+import { randomBytes } from "crypto";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const LEASE_NAME = "scheduler";
+// LEADER_ELECTION=0 makes this instance always the leader (single-instance deployments)
+const ELECTION_ENABLED = !["0", "false", "no"].includes(String(process.env.LEADER_ELECTION || "").toLowerCase());
+const LEASE_TTL_MS = Math.max(5000, Number(process.env.LEADER_LEASE_TTL_MS) || 30000);
+const RENEW_INTERVAL_MS = Math.floor(LEASE_TTL_MS / 3);
+
+export const INSTANCE_ID = process.env.INSTANCE_ID || `${os.hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+
+type LeaderCallbacks = {
+  onElected?: () => void;
+  onDemoted?: () => void;
+};
+
+let leader = !ELECTION_ENABLED;
+let started = false;
+let callbacks: LeaderCallbacks = {};
+let renewTimer: NodeJS.Timeout | null = null;
+// local estimate of when our lease lapses, for deciding to step down when the DB is unreachable
+let leaseExpiresAt = 0;
+let electedAt: number | null = leader ? Date.now() : null;
+let lastError: { at: number; message: string } | null = null;
+
+/**
+ * Whether this instance should run background jobs right now.
+ */
+export function isLeader(): boolean {
+  return leader;
+}
+
+/**
+ * Take or renew the lease in one statement: the row is written only if it is
+ * ours already or has expired. Timestamps come from the database clock, so
+ * skew between replicas does not matter.
+ */
+async function tryAcquire(): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ holderId: string }>>`
+    INSERT INTO "LeaderLease" ("name", "holderId", "host", "acquiredAt", "renewedAt", "expiresAt")
+    VALUES (
+      ${LEASE_NAME}, ${INSTANCE_ID}, ${os.hostname()},
+      now() AT TIME ZONE 'UTC', now() AT TIME ZONE 'UTC',
+      now() AT TIME ZONE 'UTC' + ${LEASE_TTL_MS}::integer * interval '1 millisecond'
+    )
+    ON CONFLICT ("name") DO UPDATE SET
+      "holderId" = EXCLUDED."holderId",
+      "host" = EXCLUDED."host",
+      "acquiredAt" = CASE WHEN "LeaderLease"."holderId" = EXCLUDED."holderId"
+                          THEN "LeaderLease"."acquiredAt" ELSE EXCLUDED."acquiredAt" END,
+      "renewedAt" = EXCLUDED."renewedAt",
+      "expiresAt" = EXCLUDED."expiresAt"
+    WHERE "LeaderLease"."holderId" = EXCLUDED."holderId"
+       OR "LeaderLease"."expiresAt" < now() AT TIME ZONE 'UTC'
+    RETURNING "holderId"`;
+  return rows.length > 0;
+}
+
+function setLeader(next: boolean) {
+  if (next === leader) return;
+  leader = next;
+  electedAt = next ? Date.now() : null;
+  console.log(`[LEADER] ${INSTANCE_ID} ${next ? "elected leader; starting background jobs" : "lost leadership; pausing background jobs"}`);
+  try {
+    (next ? callbacks.onElected : callbacks.onDemoted)?.();
+  } catch (e) {
+    console.error("[LEADER] Leadership callback failed:", e);
+  }
+}
+
+async function electOnce() {
+  const attemptAt = Date.now();
+  try {
+    const acquired = await tryAcquire();
+    if (acquired) leaseExpiresAt = attemptAt + LEASE_TTL_MS;
+    setLeader(acquired);
+  } catch (e: any) {
+    lastError = { at: Date.now(), message: e?.message || String(e) };
+    console.warn(`[LEADER] Lease renewal failed: ${lastError.message}`);
+    // another instance may take the lease once it lapses; stop one renew interval early
+    if (leader && Date.now() >= leaseExpiresAt - RENEW_INTERVAL_MS) setLeader(false);
+  }
+}
+
+async function electLoop() {
+  renewTimer = null;
+  await electOnce();
+  renewTimer = setTimeout(electLoop, RENEW_INTERVAL_MS);
+}
+
+/**
+ * Give the lease up so a standby takes over right away instead of after the TTL.
+ */
+export async function releaseLeadership() {
+  if (!ELECTION_ENABLED) return;
+  if (renewTimer) clearTimeout(renewTimer);
+  renewTimer = null;
+  try {
+    await prisma.leaderLease.deleteMany({ where: { name: LEASE_NAME, holderId: INSTANCE_ID } });
+  } catch (e: any) {
+    console.warn(`[LEADER] Could not release lease: ${e?.message || e}`);
+  }
+  setLeader(false);
+}
+
+/**
+ * Start competing for the scheduler lease. Resolves after the first attempt, so
+ * callers can start their schedulers knowing whether this instance leads.
+ * onElected / onDemoted fire on every later change of leadership.
+ */
+export async function startLeaderElection(cbs: LeaderCallbacks = {}) {
+  if (started) return;
+  started = true;
+  callbacks = cbs;
+
+  if (!ELECTION_ENABLED) {
+    console.log("[LEADER] Leader election disabled (LEADER_ELECTION=0); this instance runs all background jobs");
+    return;
+  }
+
+  console.log(`[LEADER] Instance ${INSTANCE_ID} competing for the scheduler lease (TTL ${LEASE_TTL_MS}ms)`);
+  await electLoop();
+
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => {
+      releaseLeadership().finally(() => process.exit(0));
+    });
+  }
+}
+
+/**
+ * This instance's view plus the current lease holder, for /api/health.
+ */
+export async function getLeaderStatus() {
+  const lease = ELECTION_ENABLED
+    ? await prisma.leaderLease.findUnique({ where: { name: LEASE_NAME } }).catch(() => null)
+    : null;
+  return {
+    instanceId: INSTANCE_ID,
+    electionEnabled: ELECTION_ENABLED,
+    isLeader: leader,
+    electedAt: electedAt != null ? new Date(electedAt).toISOString() : null,
+    leaderId: ELECTION_ENABLED ? lease?.holderId ?? null : INSTANCE_ID,
+    leaderHost: lease?.host ?? null,
+    leaseExpiresAt: lease?.expiresAt ?? null,
+    leaseTtlMs: LEASE_TTL_MS,
+    lastError: lastError ? { at: new Date(lastError.at).toISOString(), message: lastError.message } : null,
+  };
+}
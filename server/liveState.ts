@@ -0,0 +1,91 @@
+// server/liveState.ts
+// Latest known state of every device, kept in memory for the live dashboard.
+// Fed by the poller's device-list snapshots and by realtime messages; when
+// neither has refreshed it recently, one shared list fetch tops it up. Readers
+// never call Tuya per device, and concurrent readers share a single refresh.
+import { discoverDevices, type DiscoverySnapshot } from "./discovery";
+import { deviceObservedAt } from "./ingest";
+import { type TuyaStatus } from "./normalize";
+
+export type LiveStateSource = "poller" | "refresh" | "realtime";
+
+export type LiveDeviceState = {
+  deviceId: string;
+  accountId: string;
+  name: string;
+  category?: string;
+  online: boolean;
+  status: TuyaStatus;
+  observedAt: Date; // device-reported time of the state
+  updatedAt: Date;  // when this instance received it
+  source: LiveStateSource;
+};
+
+const states = new Map<string, LiveDeviceState>();
+// discoveredAt of the newest device list folded into the cache
+let lastSnapshotAt: Date | null = null;
+let refreshing: Promise<void> | null = null;
+
+/**
+ * Fold a discovery snapshot into the cache. Devices of an account whose list
+ * call failed keep their previous entry (and age); removed devices are dropped.
+ */
+export function recordSnapshot(snapshot: DiscoverySnapshot, source: LiveStateSource) {
+  if (!snapshot.accounts.some((a) => a.listed)) return;
+  if (lastSnapshotAt && snapshot.discoveredAt <= lastSnapshotAt) return; // already folded in
+  for (const device of snapshot.devices) {
+    if (device.stale) continue;
+    states.set(device.id, {
+      deviceId: device.id,
+      accountId: device.accountId,
+      name: device.name ?? device.id,
+      category: device.category,
+      online: device.online,
+      status: (device.status ?? []) as TuyaStatus,
+      observedAt: deviceObservedAt(device, snapshot.discoveredAt),
+      updatedAt: snapshot.discoveredAt,
+      source,
+    });
+  }
+  for (const id of snapshot.removed) states.delete(id);
+  lastSnapshotAt = snapshot.discoveredAt;
+}
+
+/**
+ * Apply a realtime report to a device already in the cache (the next snapshot
+ * adds unknown ones with their name and account).
+ */
+export function recordRealtime(deviceId: string, status: TuyaStatus, online: boolean, observedAt: Date, receivedAt: Date) {
+  const current = states.get(deviceId);
+  if (!current) return;
+  states.set(deviceId, { ...current, status, online, observedAt, updatedAt: receivedAt, source: "realtime" });
+}
+
+/**
+ * Make sure the cache is no older than maxAgeMs, fetching the device list once
+ * if it is. Concurrent callers await the same fetch. Errors leave the cache as is.
+ */
+export async function refreshLiveState(maxAgeMs: number): Promise<void> {
+  if (lastSnapshotAt && Date.now() - lastSnapshotAt.getTime() <= maxAgeMs) return;
+  if (!refreshing) {
+    refreshing = discoverDevices({ maxAgeMs })
+      .then((snapshot) => recordSnapshot(snapshot, "refresh"))
+      .catch((e: any) => console.warn(`[LIVE] Device list refresh failed: ${e?.message || e}`))
+      .finally(() => { refreshing = null; });
+  }
+  return refreshing;
+}
+
+/**
+ * Every cached device, in the order they were first seen.
+ */
+export function getLiveStates(): LiveDeviceState[] {
+  return Array.from(states.values());
+}
+
+/**
+ * When the newest device list was folded in (null before the first one).
+ */
+export function liveStateUpdatedAt(): Date | null {
+  return lastSnapshotAt;
+}
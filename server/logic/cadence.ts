@@ -0,0 +1,86 @@
+import type { DeviceSettings } from "@shared/schema";
+import type { PollerSettings } from "../storage.poller";
+
+export type PollMode = "global" | "custom" | "adaptive";
+
+// "default" for global/custom devices; the rest describe why an adaptive device
+// is on its current cadence
+export type CadenceState = "default" | "active" | "steady" | "idle" | "offline";
+
+export type Cadence = {
+  mode: PollMode;
+  state: CadenceState;
+  healthMs: number | null; // null = stream disabled globally
+  energyMs: number | null;
+};
+
+// Same floors the settings API enforces for the global intervals
+export const MIN_HEALTH_INTERVAL_MS = 5000;
+export const MIN_ENERGY_INTERVAL_MS = 60000;
+
+export const ADAPTIVE_DEFAULTS = {
+  fastMs: 10000,        // while drawing power or changing
+  slowMs: 300000,       // while idle or offline
+  powerThresholdW: 50,  // at or above this the device counts as active
+};
+
+// Adaptive thresholds
+const CHANGE_W = 10;      // a swing of at least 10 W between samples...
+const CHANGE_RATIO = 0.1; // ...or 10% of the previous reading counts as "changing"
+const IDLE_W = 2;         // below this (standby) the device counts as idle
+
+export type PowerObservation = {
+  online: boolean;
+  powerW?: number;
+  prevPowerW?: number;
+};
+
+function isChanging(obs: PowerObservation) {
+  if (obs.powerW == null || obs.prevPowerW == null) return false;
+  const delta = Math.abs(obs.powerW - obs.prevPowerW);
+  return delta >= CHANGE_W || (obs.prevPowerW > 0 && delta / obs.prevPowerW >= CHANGE_RATIO);
+}
+
+/**
+ * Work out how often one device should be sampled for health and energy.
+ * Global enable flags always win; per-device settings only change the interval.
+ */
+export function deviceCadence(global: PollerSettings, device: DeviceSettings | undefined, obs: PowerObservation): Cadence {
+  const mode: PollMode = device?.pollMode === "custom" || device?.pollMode === "adaptive" ? device.pollMode : "global";
+
+  let healthMs = global.healthIntervalMs;
+  let energyMs = global.energyIntervalMs;
+  if (mode !== "global") {
+    healthMs = Math.max(MIN_HEALTH_INTERVAL_MS, device?.healthIntervalMs ?? healthMs);
+    energyMs = Math.max(MIN_ENERGY_INTERVAL_MS, device?.energyIntervalMs ?? energyMs);
+  }
+
+  let state: CadenceState = "default";
+  if (mode === "adaptive") {
+    const fastMs = Math.max(MIN_HEALTH_INTERVAL_MS, device?.adaptiveFastMs ?? ADAPTIVE_DEFAULTS.fastMs);
+    const slowMs = Math.max(fastMs, device?.adaptiveSlowMs ?? ADAPTIVE_DEFAULTS.slowMs);
+    const threshold = device?.adaptivePowerThresholdW ?? ADAPTIVE_DEFAULTS.powerThresholdW;
+
+    if (!obs.online) {
+      state = "offline";
+      healthMs = slowMs;
+      energyMs = Math.max(energyMs, slowMs);
+    } else if ((obs.powerW ?? 0) >= threshold || isChanging(obs)) {
+      state = "active";
+      healthMs = fastMs;
+    } else if ((obs.powerW ?? 0) < IDLE_W) {
+      state = "idle";
+      healthMs = slowMs;
+      energyMs = Math.max(energyMs, slowMs);
+    } else {
+      state = "steady";
+    }
+  }
+
+  return {
+    mode,
+    state,
+    healthMs: global.healthEnabled ? healthMs : null,
+    energyMs: global.energyEnabled ? energyMs : null,
+  };
+}
@@ -0,0 +1,42 @@
+// Energy consumed over a span from a device's add_ele readings. Most plugs
+// report a cumulative counter, which can restart from zero after a power loss
+// or firmware update; some report the energy since their previous report.
+
+export type EnergyCounterMode = "cumulative" | "incremental";
+export const ENERGY_COUNTER_MODES: EnergyCounterMode[] = ["cumulative", "incremental"];
+
+// A cumulative counter dropping by less than this is reading jitter, not a reset
+export const RESET_TOLERANCE_KWH = 0.01;
+
+export type CounterEnergy = {
+  kwh: number;
+  resets: number; // counter resets detected (cumulative mode)
+};
+
+/**
+ * kWh consumed across `readings` (in time order). Cumulative counters add up
+ * their positive steps from `baseline` (the last reading before the span, if
+ * any); after a reset the counter restarts from zero, so the first reading of
+ * the new segment counts in full. Incremental readings are summed.
+ */
+export function energyFromCounter(readings: number[], mode: EnergyCounterMode, baseline: number | null = null): CounterEnergy {
+  if (mode === "incremental") {
+    return { kwh: readings.reduce((sum, r) => sum + Math.max(0, r), 0), resets: 0 };
+  }
+
+  let kwh = 0;
+  let resets = 0;
+  let prev = baseline;
+  for (const r of readings) {
+    if (prev === null || r >= prev) {
+      if (prev !== null) kwh += r - prev;
+      prev = r;
+    } else if (prev - r > RESET_TOLERANCE_KWH) {
+      kwh += r;
+      resets++;
+      prev = r;
+    }
+    // a small drop keeps prev, so the counter's recovery isn't counted twice
+  }
+  return { kwh, resets };
+}
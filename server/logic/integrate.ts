@@ -0,0 +1,107 @@
+// Time-weighted power integration for rollup windows. Each sample holds its
+// value until the next sample, but never longer than the maximum hold time, so
+// a sparse or silent device leaves part of the window uncovered instead of
+// being stretched over it. The set-based SQL in server/jobs/rollupSql.ts does
+// the same arithmetic.
+
+export type PowerSample = { ts: Date; powerW: number | null };
+
+export type WindowIntegral = {
+  avgPowerW: number | null; // time-weighted over the covered part of the window
+  minPowerW: number | null;
+  maxPowerW: number | null;
+  kwh: number | null; // integrated energy; null when nothing covers the window
+  samples: number; // samples observed inside the window
+  coverage: number; // share of the window covered by held samples, 0..1
+};
+
+// Windows covered less than this are flagged as low confidence in series and charts
+export const LOW_CONFIDENCE_COVERAGE = 0.5;
+
+/**
+ * Integrate power over [windowStart, windowEnd). `samples` must be sorted by ts
+ * and include those up to maxHoldMs before the window, whose hold reaches into it.
+ * A sample without a power value covers nothing but still ends the previous hold.
+ */
+export function integrateWindow(samples: PowerSample[], windowStart: Date, windowEnd: Date, maxHoldMs: number): WindowIntegral {
+  const start = windowStart.getTime();
+  const end = windowEnd.getTime();
+
+  let coveredMs = 0;
+  let energyWms = 0;
+  let minPowerW: number | null = null;
+  let maxPowerW: number | null = null;
+  let inside = 0;
+
+  samples.forEach((s, i) => {
+    const t = s.ts.getTime();
+    if (t >= end) return;
+    if (t >= start) inside++;
+    if (s.powerW == null) return;
+
+    const next = i + 1 < samples.length ? samples[i + 1].ts.getTime() : Infinity;
+    const from = Math.max(t, start);
+    const to = Math.min(next, t + maxHoldMs, end);
+    if (to <= from) return;
+
+    coveredMs += to - from;
+    energyWms += s.powerW * (to - from);
+    minPowerW = minPowerW === null ? s.powerW : Math.min(minPowerW, s.powerW);
+    maxPowerW = maxPowerW === null ? s.powerW : Math.max(maxPowerW, s.powerW);
+  });
+
+  return {
+    avgPowerW: coveredMs > 0 ? Math.round(energyWms / coveredMs) : null,
+    minPowerW,
+    maxPowerW,
+    kwh: coveredMs > 0 ? energyWms / 3_600_000 / 1000 : null,
+    samples: inside,
+    coverage: coveredMs / (end - start)
+  };
+}
+
+export type RollupCell = {
+  avgPowerW: number | null;
+  minPowerW: number | null;
+  maxPowerW: number | null;
+  kwh: unknown;
+  samples: number;
+  coverage: number | null; // null on rows built before time weighting: counted as fully covered
+};
+
+/**
+ * Combine finer rollups into one coarser window. Averages are weighted by the
+ * time each finer window covered; kWh and samples add up. Finer windows with no
+ * row count as uncovered, so `share` is one finer window's part of the coarser one.
+ */
+export function combineRollups(rows: RollupCell[], share: number) {
+  let weight = 0;
+  let weighted = 0;
+  let coverage = 0;
+  let samples = 0;
+  const mins: number[] = [];
+  const maxs: number[] = [];
+  const kwhs: number[] = [];
+
+  for (const r of rows) {
+    const c = r.coverage ?? 1;
+    coverage += c;
+    samples += r.samples;
+    if (r.avgPowerW !== null) {
+      weight += c;
+      weighted += r.avgPowerW * c;
+    }
+    if (r.minPowerW !== null) mins.push(r.minPowerW);
+    if (r.maxPowerW !== null) maxs.push(r.maxPowerW);
+    if (r.kwh !== null) kwhs.push(Number(r.kwh));
+  }
+
+  return {
+    avgPowerW: weight > 0 ? Math.round(weighted / weight) : null,
+    minPowerW: mins.length > 0 ? Math.min(...mins) : null,
+    maxPowerW: maxs.length > 0 ? Math.max(...maxs) : null,
+    kwh: kwhs.length > 0 ? kwhs.reduce((sum, k) => sum + k, 0) : null,
+    samples,
+    coverage: coverage * share
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Map items through fn with at most `limit` calls in flight. Results keep the
+ * input order; the first rejection rejects the whole batch.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[], limit: number, fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  const workers = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
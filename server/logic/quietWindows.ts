@@ -0,0 +1,106 @@
+import type { QuietWindow } from "@shared/schema";
+
+// Scheduled quiet windows: which of the poller flags a window overrides, whether
+// one is active at a given instant, and when the effective flags next change.
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const QUIET_TARGETS: QuietWindow["target"][] = ["health", "energy", "killSwitch"];
+
+export type PollerFlags = {
+  healthEnabled: boolean;
+  energyEnabled: boolean;
+  masterKillSwitch: boolean;
+};
+
+function minutesOf(hhmm: string) {
+  const [, h, m] = HHMM.exec(hhmm)!;
+  return Number(h) * 60 + Number(m);
+}
+
+/**
+ * Error message for an invalid list of windows, or null when valid.
+ */
+export function validateQuietWindows(windows: unknown): string | null {
+  if (!Array.isArray(windows)) return "quietWindows must be an array";
+  for (let i = 0; i < windows.length; i++) {
+    const w = windows[i];
+    if (!w || typeof w !== "object") return `quietWindows[${i}] must be an object`;
+    if (!QUIET_TARGETS.includes(w.target)) return `quietWindows[${i}].target must be one of ${QUIET_TARGETS.join(", ")}`;
+    if (!HHMM.test(String(w.start)) || !HHMM.test(String(w.end))) return `quietWindows[${i}] start and end must be "HH:MM"`;
+    if (w.days !== undefined && (!Array.isArray(w.days) || w.days.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6))) {
+      return `quietWindows[${i}].days must be weekdays 0-6 (0 = Sunday)`;
+    }
+    if (w.label !== undefined && typeof w.label !== "string") return `quietWindows[${i}].label must be a string`;
+  }
+  return null;
+}
+
+function onDay(w: QuietWindow, weekday: number) {
+  return !w.days || w.days.length === 0 || w.days.includes(weekday);
+}
+
+/**
+ * Is the window active at this instant (evaluated on the IST clock)?
+ */
+export function isWindowActive(w: QuietWindow, at: Date): boolean {
+  const ist = new Date(at.getTime() + IST_OFFSET_MS);
+  const minute = ist.getUTCHours() * 60 + ist.getUTCMinutes();
+  const weekday = ist.getUTCDay();
+  const start = minutesOf(w.start);
+  const end = minutesOf(w.end);
+  if (start === end) return onDay(w, weekday);
+  if (start < end) return onDay(w, weekday) && minute >= start && minute < end;
+  // crosses midnight: the evening part belongs to today, the morning part to yesterday
+  return (onDay(w, weekday) && minute >= start) || (onDay(w, (weekday + 6) % 7) && minute < end);
+}
+
+/**
+ * The manual flags with every active window applied: windows pause health or
+ * energy polling and engage the kill switch, they never switch anything on.
+ */
+export function effectiveFlags(flags: PollerFlags, windows: QuietWindow[], at: Date): PollerFlags & { activeWindows: QuietWindow[] } {
+  const active = windows.filter((w) => isWindowActive(w, at));
+  const has = (target: QuietWindow["target"]) => active.some((w) => w.target === target);
+  return {
+    healthEnabled: flags.healthEnabled && !has("health"),
+    energyEnabled: flags.energyEnabled && !has("energy"),
+    masterKillSwitch: flags.masterKillSwitch || has("killSwitch"),
+    activeWindows: active,
+  };
+}
+
+const sameFlags = (a: PollerFlags, b: PollerFlags) =>
+  a.healthEnabled === b.healthEnabled && a.energyEnabled === b.energyEnabled && a.masterKillSwitch === b.masterKillSwitch;
+
+/**
+ * The next instant within a week at which the effective flags change, with the
+ * flags from then on; null if nothing changes (no windows, or all masked by the manual flags).
+ */
+export function nextTransition(flags: PollerFlags, windows: QuietWindow[], now: Date): { at: Date; flags: PollerFlags } | null {
+  if (windows.length === 0) return null;
+  const current = effectiveFlags(flags, windows, now);
+
+  // Effective flags only change at a window boundary or (for weekday-limited windows) at midnight
+  const istMidnight = Math.floor((now.getTime() + IST_OFFSET_MS) / DAY_MS) * DAY_MS - IST_OFFSET_MS;
+  const candidates = new Set<number>();
+  for (let day = 0; day <= 8; day++) {
+    if (istMidnight + day * DAY_MS > now.getTime()) candidates.add(istMidnight + day * DAY_MS);
+    for (const w of windows) {
+      for (const hhmm of [w.start, w.end]) {
+        const t = istMidnight + day * DAY_MS + minutesOf(hhmm) * MINUTE_MS;
+        if (t > now.getTime()) candidates.add(t);
+      }
+    }
+  }
+
+  for (const t of Array.from(candidates).sort((a, b) => a - b)) {
+    const e = effectiveFlags(flags, windows, new Date(t));
+    const next = { healthEnabled: e.healthEnabled, energyEnabled: e.energyEnabled, masterKillSwitch: e.masterKillSwitch };
+    if (!sameFlags(next, current)) return { at: new Date(t), flags: next };
+  }
+  return null;
+}
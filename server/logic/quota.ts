@@ -0,0 +1,89 @@
+// Monthly Tuya quota math: end-of-month projection, the call rate that still
+// fits, and burn-down points. Months are UTC calendar months.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Aim to finish the month at 95% of the quota, leaving room for manual and UI calls
+export const QUOTA_TARGET_FRACTION = 0.95;
+// Never throttle the pollers below this, even with the quota used up
+export const MIN_CALLS_PER_HOUR = 1;
+
+export type QuotaProjection = {
+  quota: number;
+  limit: number;              // quota * QUOTA_TARGET_FRACTION
+  monthStart: Date;
+  monthEnd: Date;
+  used: number;
+  hoursLeft: number;
+  plannedPerHour: number;     // poller calls per hour at the current settings
+  projected: number;          // used + plannedPerHour * hoursLeft
+  overQuota: boolean;         // projected > limit
+  allowedPerHour: number | null; // rate that lands on the limit (null without a quota)
+};
+
+export function monthBounds(now: Date) {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+export function projectQuota(input: { quota: number; used: number; plannedPerHour: number; now: Date }): QuotaProjection {
+  const { quota, used, plannedPerHour, now } = input;
+  const { start, end } = monthBounds(now);
+  const hoursLeft = Math.max(0, (end.getTime() - now.getTime()) / HOUR_MS);
+  const limit = Math.floor(quota * QUOTA_TARGET_FRACTION);
+  const projected = Math.round(used + plannedPerHour * hoursLeft);
+  return {
+    quota,
+    limit,
+    monthStart: start,
+    monthEnd: end,
+    used,
+    hoursLeft,
+    plannedPerHour,
+    projected,
+    overQuota: quota > 0 && projected > limit,
+    allowedPerHour: quota > 0
+      ? Math.max(MIN_CALLS_PER_HOUR, (limit - used) / Math.max(hoursLeft, 1))
+      : null,
+  };
+}
+
+export type BurnDownPoint = {
+  day: string;               // YYYY-MM-DD (UTC)
+  ideal: number;             // straight line from the quota to zero
+  remaining: number | null;  // actual, through today
+  projected: number | null;  // from today at perHour
+};
+
+/**
+ * One point per day of the month: quota left at the end of each day.
+ * dailyCalls are the month's daily buckets; perHour extends today onwards.
+ */
+export function burnDown(
+  p: QuotaProjection,
+  dailyCalls: Array<{ bucketStart: Date; calls: number }>,
+  perHour: number,
+  now: Date
+): BurnDownPoint[] {
+  const byDay = new Map(dailyCalls.map((b) => [b.bucketStart.toISOString().slice(0, 10), b.calls]));
+  const days = Math.round((p.monthEnd.getTime() - p.monthStart.getTime()) / DAY_MS);
+  const points: BurnDownPoint[] = [];
+  let cumulative = 0;
+  for (let i = 0; i < days; i++) {
+    const dayStart = p.monthStart.getTime() + i * DAY_MS;
+    const dayEnd = dayStart + DAY_MS;
+    const day = new Date(dayStart).toISOString().slice(0, 10);
+    cumulative += byDay.get(day) ?? 0;
+    const isPastOrToday = dayStart <= now.getTime();
+    const projectedUsed = p.used + perHour * Math.max(0, dayEnd - now.getTime()) / HOUR_MS;
+    points.push({
+      day,
+      ideal: Math.round(p.quota * (1 - (i + 1) / days)),
+      remaining: isPastOrToday ? p.quota - cumulative : null,
+      projected: dayEnd > now.getTime() ? Math.round(p.quota - projectedUsed) : null,
+    });
+  }
+  return points;
+}
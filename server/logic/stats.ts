@@ -0,0 +1,90 @@
+// Voltage, current and power-factor statistics for rollup windows: min, mean,
+// max and 95th percentile of the samples observed in a window. The set-based
+// SQL in server/jobs/rollupSql.ts computes the same values.
+
+export const ELECTRICAL_QUANTITIES = ["VoltageV", "CurrentA", "Pf"] as const;
+export type ElectricalQuantity = typeof ELECTRICAL_QUANTITIES[number];
+export type StatKind = "min" | "avg" | "max" | "p95";
+export const STAT_KINDS: StatKind[] = ["min", "avg", "max", "p95"];
+
+// Rollup column for a statistic, e.g. ("p95", "VoltageV") -> "p95VoltageV"
+export type StatColumn = `${StatKind}${ElectricalQuantity}`;
+export type ElectricalStats = Record<StatColumn, number | null>;
+
+export function statColumn(kind: StatKind, quantity: ElectricalQuantity): StatColumn {
+  return `${kind}${quantity}`;
+}
+
+export const STAT_COLUMNS: StatColumn[] = ELECTRICAL_QUANTITIES.flatMap((q) => STAT_KINDS.map((k) => statColumn(k, q)));
+
+// Prisma select for every statistics column of a rollup table
+export const STAT_SELECT = STAT_COLUMNS.reduce(
+  (select, c) => ({ ...select, [c]: true }),
+  {} as Record<StatColumn, true>
+);
+
+/**
+ * Linear-interpolated percentile of sorted values, as Postgres' percentile_cont
+ */
+export function percentileCont(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const pos = p * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function describe(values: number[]): Record<StatKind, number | null> {
+  if (values.length === 0) return { min: null, avg: null, max: null, p95: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    avg: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    max: sorted[sorted.length - 1],
+    p95: percentileCont(sorted, 0.95)
+  };
+}
+
+function assemble(byQuantity: Record<ElectricalQuantity, Record<StatKind, number | null>>): ElectricalStats {
+  const out = {} as ElectricalStats;
+  for (const q of ELECTRICAL_QUANTITIES) {
+    for (const k of STAT_KINDS) out[statColumn(k, q)] = byQuantity[q][k];
+  }
+  return out;
+}
+
+/**
+ * Statistics of the raw samples in one window; missing readings are skipped
+ */
+export function electricalStats(samples: Array<{ voltageV: unknown; currentA: unknown; pf: unknown }>): ElectricalStats {
+  const values = (pick: (s: typeof samples[number]) => unknown) =>
+    samples.map(pick).filter((v) => v != null).map(Number);
+  return assemble({
+    VoltageV: describe(values((s) => s.voltageV)),
+    CurrentA: describe(values((s) => s.currentA)),
+    Pf: describe(values((s) => s.pf))
+  });
+}
+
+/**
+ * Combine finer windows' statistics: overall min/max, mean weighted by each
+ * window's sample count, and the 95th percentile of their p95 values (the true
+ * p95 needs the raw samples, which may be gone; this estimate leans high).
+ */
+export function combineElectricalStats(rows: Array<Partial<ElectricalStats> & { samples: number }>): ElectricalStats {
+  const combine = (q: ElectricalQuantity): Record<StatKind, number | null> => {
+    const present = (k: StatKind) => rows.filter((r) => r[statColumn(k, q)] != null);
+    const mins = present("min").map((r) => r[statColumn("min", q)]!);
+    const maxs = present("max").map((r) => r[statColumn("max", q)]!);
+    const p95s = present("p95").map((r) => r[statColumn("p95", q)]!).sort((a, b) => a - b);
+    const avgs = present("avg");
+    const weight = avgs.reduce((sum, r) => sum + r.samples, 0);
+    return {
+      min: mins.length > 0 ? Math.min(...mins) : null,
+      avg: weight > 0 ? avgs.reduce((sum, r) => sum + r[statColumn("avg", q)]! * r.samples, 0) / weight : null,
+      max: maxs.length > 0 ? Math.max(...maxs) : null,
+      p95: percentileCont(p95s, 0.95)
+    };
+  };
+  return assemble({ VoltageV: combine("VoltageV"), CurrentA: combine("CurrentA"), Pf: combine("Pf") });
+}
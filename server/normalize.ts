@@ -1,20 +1,202 @@
 export type TuyaStatus = Array<{ code: string; value: any }>;
 
-export function normalizeFromStatus(status: TuyaStatus) {
+/**
+ * How one integer DP is encoded: real value = raw / 10^scale, in `unit`.
+ * Mirrors the `values` of a Tuya specification entry.
+ */
+export type DpScale = {
+  scale: number;
+  unit: string;
+  min?: number;
+  max?: number;
+  source?: "default" | "spec" | "override";
+};
+
+export type DpScaleMap = Record<string, DpScale>;
+
+// Standard smart-plug encoding, used when a device has no (usable) specification
+export const DEFAULT_DP_SCALES: DpScaleMap = {
+  add_ele:      { scale: 2, unit: "kW·h", source: "default" },
+  cur_power:    { scale: 1, unit: "W",    source: "default" },
+  cur_voltage:  { scale: 1, unit: "V",    source: "default" },
+  cur_current:  { scale: 0, unit: "mA",   source: "default" },
+  power_factor: { scale: 3, unit: "",     source: "default" },
+};
+
+// Electrical DPs we store, with the unit we store them in
+const CANONICAL: Record<string, { unit: string; factors: Record<string, number> }> = {
+  add_ele:      { unit: "kWh", factors: { "kwh": 1, "kw·h": 1, "kw.h": 1, "度": 1, "wh": 0.001, "w·h": 0.001 } },
+  cur_power:    { unit: "W",   factors: { "w": 1, "kw": 1000 } },
+  cur_voltage:  { unit: "V",   factors: { "v": 1, "mv": 0.001 } },
+  cur_current:  { unit: "A",   factors: { "a": 1, "ma": 0.001 } },
+  power_factor: { unit: "",    factors: { "": 1 } },
+};
+
+// Multi-channel devices (e.g. dual-outlet strips) repeat the plug DPs with a
+// channel suffix: cur_power_1, cur_current_2, add_ele_1 ...
+const CHANNEL_DP = /^(add_ele|cur_power|cur_voltage|cur_current)_(\d+)$/;
+
+// Three-phase DIN-rail meters report each phase as one raw (base64) DP
+const PHASE_DPS: Record<string, string> = { phase_a: "A", phase_b: "B", phase_c: "C" };
+
+// Some meters name the cumulative energy DP differently
+const ENERGY_ALIASES = ["forward_energy_total"];
+
+/**
+ * The DP code whose scale/unit applies to `code`: "cur_power_2" -> "cur_power",
+ * "forward_energy_total" -> "add_ele".
+ */
+function baseCode(code: string): string {
+  const m = CHANNEL_DP.exec(code);
+  if (m) return m[1];
+  if (ENERGY_ALIASES.includes(code)) return "add_ele";
+  return code;
+}
+
+/**
+ * Scale one raw DP value. Electrical DPs come back in our canonical units
+ * (kWh, W, V, A, ratio); any other integer DP with a known scale is returned
+ * in its spec unit. Returns undefined for non-numeric values.
+ */
+export function scaleDp(code: string, raw: any, scales: DpScaleMap = DEFAULT_DP_SCALES): { value: number; unit: string } | undefined {
+  if (raw === null || raw === "" || typeof raw === "boolean") return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return undefined;
+
+  const base = baseCode(code);
+  const spec = scales[code] ?? scales[base] ?? DEFAULT_DP_SCALES[base];
+  if (!spec) return undefined;
+  const value = n / Math.pow(10, spec.scale);
+
+  const canonical = CANONICAL[base];
+  if (!canonical) return { value, unit: spec.unit };
+  const factor = canonical.factors[spec.unit.trim().toLowerCase()];
+  if (factor === undefined) {
+    // unknown unit: trust the scale, keep the spec's unit so callers can see it
+    return { value, unit: spec.unit };
+  }
+  return { value: value * factor, unit: canonical.unit };
+}
+
+/**
+ * Decode one phase_a/phase_b/phase_c raw DP (base64, 8 bytes big-endian):
+ * voltage (2 bytes, 0.1 V), current (3 bytes, mA), active power (3 bytes, W).
+ * Returns undefined if the payload isn't in that format.
+ */
+export function decodePhaseRaw(raw: any): { voltageV: number; currentA: number; powerW: number } | undefined {
+  if (typeof raw !== "string" || raw === "") return undefined;
+  const buf = Buffer.from(raw, "base64");
+  if (buf.length < 8) return undefined;
+  return {
+    voltageV: buf.readUInt16BE(0) / 10,
+    currentA: buf.readUIntBE(2, 3) / 1000,
+    powerW: buf.readUIntBE(5, 3),
+  };
+}
+
+/**
+ * One phase ("A" | "B" | "C") or outlet ("1", "2", ...) of a device.
+ */
+export type ChannelReading = {
+  channel: string;
+  powerW?: number;
+  voltageV?: number;
+  currentA?: number;
+  pfEst?: number;
+};
+
+function estimatePf(powerW: number | undefined, voltageV: number | undefined, currentA: number | undefined) {
+  if (powerW == null || !voltageV || !currentA) return undefined;
+  const denom = voltageV * currentA;
+  return denom > 0 ? Math.max(0, Math.min(1, powerW / denom)) : undefined;
+}
+
+/**
+ * Phase current imbalance in %: largest deviation from the mean phase current,
+ * relative to that mean. Undefined for fewer than two phases or no load.
+ */
+export function phaseImbalancePct(currents: number[]): number | undefined {
+  if (currents.length < 2) return undefined;
+  const mean = currents.reduce((a, b) => a + b, 0) / currents.length;
+  if (mean <= 0) return undefined;
+  return Math.max(...currents.map((c) => Math.abs(c - mean))) / mean * 100;
+}
+
+/**
+ * The one place raw Tuya status turns into electrical readings.
+ * Pass the device's scales (see getDpScales) — defaults match the standard plug.
+ *
+ * Device totals come from cur_power/cur_voltage/cur_current when present;
+ * three-phase meters without them get totals summed from their phases
+ * (voltage is the phase average). Per-phase / per-outlet readings are in `channels`.
+ */
+export function normalizeFromStatus(status: TuyaStatus, scales: DpScaleMap = DEFAULT_DP_SCALES) {
   let addEleKwh: number|undefined, powerW: number|undefined, voltageV: number|undefined, currentA: number|undefined;
-  
+  let pfTuya: number|undefined, energyAlias: number|undefined;
+  const byChannel = new Map<string, ChannelReading>();
+  const channelOf = (channel: string) => {
+    let c = byChannel.get(channel);
+    if (!c) byChannel.set(channel, c = { channel });
+    return c;
+  };
+
   for (const dp of status||[]) {
-    if (dp.code==="add_ele")      addEleKwh = Number(dp.value) * 0.01; // set to 1 if already kWh
-    if (dp.code==="cur_power")    powerW    = Math.round(Number(dp.value) * 0.1); // set to 1 if already W
-    if (dp.code==="cur_voltage")  voltageV  = Number(dp.value) * 0.1;
-    if (dp.code==="cur_current")  currentA  = Number(dp.value) * 0.001;
+    const phase = PHASE_DPS[dp.code];
+    if (phase) {
+      const decoded = decodePhaseRaw(dp.value);
+      if (decoded) Object.assign(channelOf(phase), decoded);
+      continue;
+    }
+
+    const m = CHANNEL_DP.exec(dp.code);
+    if (m) {
+      const v = scaleDp(dp.code, dp.value, scales)?.value;
+      if (v === undefined || m[1] === "add_ele") continue;
+      const c = channelOf(m[2]);
+      if (m[1] === "cur_power")   c.powerW   = v;
+      if (m[1] === "cur_voltage") c.voltageV = v;
+      if (m[1] === "cur_current") c.currentA = v;
+      continue;
+    }
+
+    if (ENERGY_ALIASES.includes(dp.code)) {
+      energyAlias = scaleDp(dp.code, dp.value, scales)?.value;
+      continue;
+    }
+
+    if (!(dp.code in CANONICAL)) continue;
+    const v = scaleDp(dp.code, dp.value, scales)?.value;
+    if (dp.code==="add_ele")      addEleKwh = v;
+    if (dp.code==="cur_power")    powerW    = v;
+    if (dp.code==="cur_voltage")  voltageV  = v;
+    if (dp.code==="cur_current")  currentA  = v;
+    if (dp.code==="power_factor") pfTuya    = v;
   }
-  
+  if (addEleKwh === undefined) addEleKwh = energyAlias;
+
+  const channels = Array.from(byChannel.values()).sort((a, b) => a.channel.localeCompare(b.channel));
+  for (const c of channels) c.pfEst = estimatePf(c.powerW, c.voltageV, c.currentA);
+
+  const phases = channels.filter((c) => Object.values(PHASE_DPS).includes(c.channel));
+  const sum = (xs: Array<number | undefined>) => xs.some((x) => x != null) ? xs.reduce<number>((a, x) => a + (x ?? 0), 0) : undefined;
+  if (powerW === undefined) powerW = sum(channels.map((c) => c.powerW));
+  if (currentA === undefined && phases.length > 0) currentA = sum(phases.map((c) => c.currentA));
+  if (voltageV === undefined && phases.length > 0) {
+    const vs = phases.map((c) => c.voltageV).filter((v): v is number => v != null);
+    if (vs.length > 0) voltageV = vs.reduce((a, b) => a + b, 0) / vs.length;
+  }
+
   let pfEst: number|undefined;
-  if (powerW!=null && voltageV && currentA) {
-    const denom = voltageV*currentA;
-    if (denom>0) pfEst = Math.max(0, Math.min(1, powerW/denom));
+  if (phases.length > 0 && powerW != null) {
+    // three-phase: apparent power is the sum of the per-phase V·I
+    const apparent = phases.reduce((a, c) => a + (c.voltageV ?? 0) * (c.currentA ?? 0), 0);
+    if (apparent > 0) pfEst = Math.max(0, Math.min(1, powerW / apparent));
+  } else {
+    pfEst = estimatePf(powerW, voltageV, currentA);
   }
-  
-  return { addEleKwh, powerW, voltageV, currentA, pfEst };
-}
\ No newline at end of file
+
+  const phaseCurrents = phases.map((c) => c.currentA).filter((a): a is number => a != null);
+  const imbalancePct = phaseCurrents.length === phases.length ? phaseImbalancePct(phaseCurrents) : undefined;
+
+  return { addEleKwh, powerW, voltageV, currentA, pfEst, pfTuya, channels, imbalancePct };
+}
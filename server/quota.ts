@@ -0,0 +1,93 @@
+// server/quota.ts
+// Monthly Tuya quota budgeting: projects end-of-month usage from the poller's
+// planned call rate, caps the pollers when the projection crosses the quota
+// (quotaAction "stretch") and sends one push warning per month.
+import { getCallsSince, getCounterBuckets } from "./storage.tuyaCounters";
+import { type PollerSettings } from "./storage.poller";
+import { sendPushAll } from "./push";
+import { burnDown, monthBounds, projectQuota, type QuotaProjection } from "./logic/quota";
+
+// How often the poller re-reads this month's usage
+const EVALUATE_EVERY_MS = 60 * 1000;
+
+export type QuotaStatus = QuotaProjection & {
+  action: PollerSettings["quotaAction"];
+  throttled: boolean;
+  callsPerHourCap: number | null; // applied to the pollers while throttled
+  evaluatedAt: Date;
+};
+
+let cached: QuotaStatus | null = null;
+let warnedMonth: string | null = null;
+
+async function evaluate(s: PollerSettings, plannedPerHour: number): Promise<QuotaStatus> {
+  const now = new Date();
+  const used = await getCallsSince(monthBounds(now).start);
+  const p = projectQuota({ quota: s.monthlyCallQuota, used, plannedPerHour, now });
+  const throttled = p.overQuota && s.quotaAction === "stretch";
+  return {
+    ...p,
+    action: s.quotaAction,
+    throttled,
+    callsPerHourCap: throttled ? p.allowedPerHour : null,
+    evaluatedAt: now,
+  };
+}
+
+async function warnOnce(status: QuotaStatus) {
+  const month = status.monthStart.toISOString().slice(0, 7);
+  if (!status.overQuota || status.action === "off" || warnedMonth === month) return;
+  warnedMonth = month;
+  const body = status.throttled
+    ? `Projected ${status.projected.toLocaleString()} of ${status.quota.toLocaleString()} calls this month; poll intervals stretched to ~${Math.floor(status.callsPerHourCap ?? 0)} calls/h`
+    : `Projected ${status.projected.toLocaleString()} of ${status.quota.toLocaleString()} calls this month at the current poll settings`;
+  console.warn(`[QUOTA] ${body}`);
+  await sendPushAll({ title: "Tuya API quota", body, url: "/settings" }).catch((e) =>
+    console.error("[QUOTA] Push warning failed:", e));
+}
+
+/**
+ * Re-evaluate the quota for the poller (at most once a minute) and warn when the
+ * projection first crosses it in a month. Errors keep the previous evaluation.
+ */
+export async function refreshQuota(s: PollerSettings, plannedPerHour: number): Promise<QuotaStatus | null> {
+  if (cached && Date.now() - cached.evaluatedAt.getTime() < EVALUATE_EVERY_MS
+      && cached.quota === s.monthlyCallQuota && cached.action === s.quotaAction) {
+    return cached;
+  }
+  try {
+    cached = await evaluate(s, plannedPerHour);
+    await warnOnce(cached);
+  } catch (e: any) {
+    console.warn(`[QUOTA] Could not evaluate monthly quota: ${e?.message || e}`);
+  }
+  return cached;
+}
+
+/**
+ * Calls-per-hour cap the pollers must respect because of the monthly quota, or null.
+ */
+export function quotaCallsPerHourCap(): number | null {
+  return cached?.callsPerHourCap ?? null;
+}
+
+/**
+ * Fresh projection plus burn-down points and recent usage, for /api/tuya/counters/quota.
+ */
+export async function getQuotaReport(s: PollerSettings, plannedPerHour: number) {
+  const now = new Date();
+  const status = await evaluate(s, plannedPerHour);
+  const [days, hours] = await Promise.all([
+    getCounterBuckets("day", status.monthStart),
+    getCounterBuckets("hour", new Date(now.getTime() - 24 * 60 * 60 * 1000)),
+  ]);
+  // at the throttled rate when the pollers are capped, else at the planned rate
+  const perHour = status.callsPerHourCap != null ? Math.min(plannedPerHour, status.callsPerHourCap) : plannedPerHour;
+  return {
+    ...status,
+    projectedAtCap: Math.round(status.used + perHour * status.hoursLeft),
+    recentPerHour: hours.reduce((sum, b) => sum + b.calls, 0) / 24,
+    burnDown: status.quota > 0 ? burnDown(status, days, perHour, now) : [],
+    days,
+  };
+}
@@ -0,0 +1,60 @@
+// server/rollupRepair.ts
+// Finds and collapses duplicate 1m/15m/1h rollup rows (same device, channel and
+// window) left by overlapping builder runs before the tables had unique keys.
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const ROLLUP_TABLES = ["Rollup1m", "Rollup15m", "Rollup1h"] as const;
+
+export type RollupTable = typeof ROLLUP_TABLES[number];
+
+export type RollupDuplicates = {
+  table: RollupTable;
+  groups: number; // windows with more than one row
+  extraRows: number; // rows a collapse would delete
+  examples: Array<{ deviceId: string; channel: string; windowUtc: Date; rows: number }>;
+};
+
+/**
+ * Count duplicate windows per rollup table, with a few examples each
+ */
+export async function findRollupDuplicates(): Promise<RollupDuplicates[]> {
+  const result: RollupDuplicates[] = [];
+  for (const table of ROLLUP_TABLES) {
+    const [totals] = await prisma.$queryRawUnsafe<Array<{ groups: number; extraRows: number }>>(`
+      SELECT count(*)::int AS "groups", coalesce(sum(n - 1), 0)::int AS "extraRows"
+      FROM (
+        SELECT count(*) AS n FROM "${table}"
+        GROUP BY "deviceId", "channel", "windowUtc" HAVING count(*) > 1
+      ) d`);
+    const examples = await prisma.$queryRawUnsafe<RollupDuplicates["examples"]>(`
+      SELECT "deviceId", "channel", "windowUtc", count(*)::int AS "rows" FROM "${table}"
+      GROUP BY "deviceId", "channel", "windowUtc" HAVING count(*) > 1
+      ORDER BY "windowUtc" DESC LIMIT 10`);
+    result.push({ table, groups: totals?.groups ?? 0, extraRows: totals?.extraRows ?? 0, examples });
+  }
+  return result;
+}
+
+/**
+ * Keep one row per device, channel and window and delete the rest. The newest
+ * row (highest id) is kept: it was built last, so it saw at least as much data.
+ * Returns the deleted row count per table.
+ */
+export async function collapseRollupDuplicates(): Promise<Record<RollupTable, number>> {
+  const deleted = {} as Record<RollupTable, number>;
+  for (const table of ROLLUP_TABLES) {
+    deleted[table] = await prisma.$executeRawUnsafe(`
+      DELETE FROM "${table}" r
+      USING (
+        SELECT "id", row_number() OVER (
+          PARTITION BY "deviceId", "channel", "windowUtc" ORDER BY "id" DESC
+        ) AS rn
+        FROM "${table}"
+      ) d
+      WHERE r."id" = d."id" AND d.rn > 1`);
+    console.log(`[ROLLUP-REPAIR] ${table}: deleted ${deleted[table]} duplicate row(s)`);
+  }
+  return deleted;
+}
@@ -4,7 +4,7 @@ import { PrismaClient } from "@prisma/client";
 import { storage } from "./storage";
 import { insertDeviceSpecSchema, insertDeviceSettingsSchema } from "@shared/schema";
 import { handleAsk, getAskHistory, resetAsk } from "./ask";
-import { tuya, baseUrl } from "./tuya";
+import { tuyaForDevice, baseUrl, getTuyaAccounts, TuyaUnavailableError, TUYA_CALLERS, withTuyaCaller, type TuyaCaller } from "./tuya";
 import { resolvePf, resolvePfWithMeta } from "./pf";
 import energyRouter from "./routes/energy";
 import powerRouter from "./routes/power";
@@ -15,13 +15,57 @@ import pushRouter from "./routes/push";
 import appSettingsRouter from "./routes/app-settings";
 import debugRouter from "./routes/debug";
 import { pollerRouter } from "./routes/pollers";
-import { getPollerSettings } from "./storage.poller";
+import { getEffectivePollerSettings } from "./storage.poller";
 import { tuyaCountersRouter } from "./routes/tuya-counters";
+import { discoverDevices } from "./discovery";
+import { annotateDps, normalizeDeviceStatus } from "./dpscale";
+import dpScalesRouter from "./routes/dp-scales";
+import commandsRouter from "./routes/commands";
+import automationsRouter from "./routes/automations";
+import tuyaAccountsRouter from "./routes/tuya-accounts";
+import backfillRouter from "./routes/backfill";
+import sensorsRouter from "./routes/sensors";
+import jobsRouter from "./routes/jobs";
+import rollupsRouter from "./routes/rollups";
+import { startDailyKwhRecompute } from "./jobs/rollups";
+import { isSensorCategory } from "./sensors";
+import { getLeaderStatus, isLeader } from "./leader";
+import { getLiveStates, liveStateUpdatedAt, refreshLiveState } from "./liveState";
 
 const prisma = new PrismaClient();
 
+// Browser-facing list endpoints may reuse a discovery cycle this recent
+const DEVICE_LIST_MAX_AGE_MS = 15_000;
+// Live dashboard: fetch the device list on demand once the cache is this old
+// (at least; longer when the local poller refreshes it every health interval)
+const LIVE_REFRESH_AFTER_MS = Math.max(5000, Number(process.env.LIVE_REFRESH_AFTER_MS) || 30_000);
+const LIVE_REFRESH_SLACK_MS = 5000;
+
+// Which feature Tuya calls made while serving a request are attributed to (default "api")
+const ROUTE_CALLERS: Array<[RegExp, TuyaCaller]> = [
+  [/^\/api\/live-dashboard/, "dashboard"],
+  [/^\/api\/ask/, "ask"],
+  [/^\/api\/debug/, "debug"],
+  [/^\/api\/backfill/, "backfill"],
+  [/^\/api\/pollers/, "poller"],
+  [/^\/api\/automations/, "automation"],
+  [/^\/api\/devices\/[^/]+\/(commands|control)/, "commands"],
+  [/^\/api\/tuya\/accounts/, "accounts"],
+  [/^\/api\/dp-scales/, "dp-scales"],
+];
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+
+  // Tag Tuya calls with the caller; internal requests (e.g. Ask's context
+  // builder calling /api/devices) name themselves with X-Tuya-Caller
+  app.use("/api", (req, _res, next) => {
+    const header = req.get("x-tuya-caller") as TuyaCaller | undefined;
+    const caller = header && TUYA_CALLERS.includes(header)
+      ? header
+      : ROUTE_CALLERS.find(([re]) => re.test(req.originalUrl))?.[1] ?? "api";
+    withTuyaCaller(caller, next);
+  });
+
   // Mount energy API routes
   app.use("/api", energyRouter);
   
@@ -51,12 +95,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Mount Tuya counters API routes
   app.use("/api/tuya/counters", tuyaCountersRouter);
+
+  // Mount Tuya accounts (additional projects / data centers) API routes
+  app.use("/api/tuya/accounts", tuyaAccountsRouter);
+
+  // Mount device control + command audit API routes
+  app.use("/api", commandsRouter);
+
+  // Mount automation rules + execution log API routes
+  app.use("/api", automationsRouter);
+
+  // Mount DP scaling (specifications + per-product overrides) API routes
+  app.use("/api/dp-scales", dpScalesRouter);
+
+  // Mount gap backfill (trigger + progress) API routes
+  app.use("/api/backfill", backfillRouter);
+
+  // Mount sensor (temperature, contact, leak, ...) readings API routes
+  app.use("/api/sensors", sensorsRouter);
+
+  // Mount background job run history + supervisor status API routes
+  app.use("/api/jobs", jobsRouter);
+
+  // Mount rollup recompute + duplicate check API routes
+  app.use("/api/rollups", rollupsRouter);
   
   // Health check endpoint
-  app.get("/api/health", (_req, res) => {
+  app.get("/api/health", async (_req, res) => {
+    const accounts = await getTuyaAccounts().catch(() => []);
     res.json({ 
       ok: true, 
       dc: baseUrl,
+      accounts: accounts.map((a) => ({ id: a.id, name: a.name, endpoint: a.endpoint })),
+      leader: await getLeaderStatus(),
       timestamp: new Date().toISOString()
     });
   });
@@ -64,16 +135,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // List devices associated with the linked Smart Life account
   app.get("/api/devices", async (_req, res) => {
     try {
-      // Tuya OpenAPI: GET /v1.0/iot-01/associated-users/devices
-      const resp = await tuya.request({
-        path: "/v1.0/iot-01/associated-users/devices",
-        method: "GET",
-        query: { page_no: 1, page_size: 100 }
+      // Every page of GET /v1.0/iot-01/associated-users/devices, via the discovery service
+      const snapshot = await discoverDevices({ maxAgeMs: DEVICE_LIST_MAX_AGE_MS });
+      res.json({
+        success: true,
+        result: {
+          devices: snapshot.devices,
+          total: snapshot.devices.length,
+          has_more: false
+        },
+        discoveredAt: snapshot.discoveredAt.toISOString(),
+        complete: snapshot.complete,
+        t: Date.now()
       });
-      res.json(resp);
     } catch (err: any) {
       console.error("List devices error:", err?.response ?? err);
-      res.status(500).json({ 
+      res.status(err instanceof TuyaUnavailableError ? 503 : 500).json({ 
         error: "Failed to list devices", 
         detail: err?.message || String(err),
         timestamp: new Date().toISOString()
@@ -86,14 +163,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       // Tuya OpenAPI: GET /v1.0/devices/{device_id}/status
+      const tuya = await tuyaForDevice(id);
       const resp = await tuya.request({
         path: `/v1.0/devices/${id}/status`,
         method: "GET"
       });
+      // scaledValue/unit from the device's DP specification, so the UI needn't guess factors
+      const result = (resp as any)?.result;
+      if (Array.isArray(result)) (resp as any).result = await annotateDps(id, result);
       res.json(resp);
     } catch (err: any) {
       console.error("Get status error:", err?.response ?? err);
-      res.status(500).json({ 
+      res.status(err instanceof TuyaUnavailableError ? 503 : 500).json({ 
         error: "Failed to get device status", 
         detail: err?.message || String(err),
         timestamp: new Date().toISOString()
@@ -101,11 +182,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Live dashboard data (devices + status for online devices)
+  // Live dashboard data, served from the in-memory device state cache
   app.get("/api/live-dashboard", async (req, res) => {
     try {
       // Check master kill switch first
-      const pollerSettings = await getPollerSettings();
+      const pollerSettings = await getEffectivePollerSettings();
       if (pollerSettings.masterKillSwitch) {
         // Return empty response when master kill switch is enabled
         res.json({
@@ -122,124 +203,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      // First get device list
-      const devicesResp = await tuya.request({
-        path: "/v1.0/iot-01/associated-users/devices",
-        method: "GET",
-        query: { page_no: 1, page_size: 100 }
-      });
+      // The poller keeps the cache fresh while health polling runs here; otherwise
+      // (standby replica, polling paused) one shared list fetch tops it up
+      const pollerFeeds = isLeader() && pollerSettings.healthEnabled;
+      const refreshAfterMs = pollerFeeds
+        ? Math.max(LIVE_REFRESH_AFTER_MS, pollerSettings.healthIntervalMs + LIVE_REFRESH_SLACK_MS)
+        : LIVE_REFRESH_AFTER_MS;
+      const staleAfterMs = 2 * refreshAfterMs;
+      await refreshLiveState(refreshAfterMs);
 
-      const deviceList = (devicesResp as any)?.result?.devices ?? [];
-      const devices = deviceList.map((d: any) => {
-        const deviceId = d.id ?? d.device_id ?? "";
-        return {
-          deviceId,
-          name: d.name ?? deviceId,
-          online: Boolean(d.online)
+      const now = Date.now();
+      // Sensors have no electrical readings; they get their own widgets (/api/sensors/latest)
+      const states = getLiveStates().filter((d) => !isSensorCategory(d.category));
+      const devices = await Promise.all(states.map(async (d) => {
+        const ageMs = now - d.updatedAt.getTime();
+        const base = {
+          deviceId: d.deviceId,
+          accountId: d.accountId,
+          name: d.name,
+          online: d.online,
+          updatedAt: d.updatedAt.toISOString(),
+          observedAt: d.observedAt.toISOString(),
+          ageMs,
+          stale: ageMs > staleAfterMs,
+          source: d.source
         };
-      }).filter((x: any) => x.deviceId);
-
-      // Get status for online devices only
-      const onlineDevices = devices.filter((d: any) => d.online);
-      const statusPromises = onlineDevices.map(async (device: any) => {
-        try {
-          const statusResp = await tuya.request({
-            path: `/v1.0/devices/${device.deviceId}/status`,
-            method: "GET"
-          });
-          
-          const statusData = (statusResp as any)?.result || [];
-          
-          // Extract electrical readings from status data points
-          let powerW = 0, voltageV = 0, currentA = 0, tuyaPf: number | null = null;
-          
-          statusData.forEach((dp: any) => {
-            switch (dp.code) {
-              case 'cur_power':
-                powerW = dp.value ? dp.value / 10 : 0; // Convert from 0.1W to W
-                break;
-              case 'cur_voltage':
-                voltageV = dp.value ? dp.value / 10 : 0; // Convert from 0.1V to V
-                break;
-              case 'cur_current':
-                currentA = dp.value ? dp.value / 1000 : 0; // Convert from mA to A
-                break;
-              case 'power_factor':
-                tuyaPf = dp.value ? dp.value / 1000 : null; // Convert to decimal
-                break;
-            }
-          });
-
-          // Calculate estimated PF from power, voltage, and current
-          let pfEst: number | null = null;
-          if (powerW != null && voltageV && currentA) {
-            const denom = voltageV * currentA;
-            if (denom > 0) {
-              pfEst = Math.max(0, Math.min(1, powerW / denom));
-            }
-          }
-
-          // Use global setting to choose PF source with metadata
-          const { pf, hasPf } = await resolvePfWithMeta(prisma, tuyaPf, pfEst);
-
-          return {
-            deviceId: device.deviceId,
-            name: device.name,
-            online: true,
-            powerW,
-            voltageV,
-            currentA,
-            pf: pf ?? 0,
-            hasPf
-          };
-        } catch (err) {
-          // If status fetch fails, still include device but with zeros
-          return {
-            deviceId: device.deviceId,
-            name: device.name,
-            online: false, // Mark as offline if status fetch fails
-            powerW: 0,
-            voltageV: 0,
-            currentA: 0,
-            pf: 0,
-            hasPf: false
-          };
+        if (!d.online) {
+          return { ...base, powerW: 0, voltageV: 0, currentA: 0, pf: 0, hasPf: false };
         }
-      });
 
-      const devicesWithStatus = await Promise.all(statusPromises);
-      
-      // Add offline devices with zero readings
-      const offlineDevices = devices.filter((d: any) => !d.online).map((device: any) => ({
-        deviceId: device.deviceId,
-        name: device.name,
-        online: false,
-        powerW: 0,
-        voltageV: 0,
-        currentA: 0,
-        pf: 0,
-        hasPf: false
+        // Electrical readings via the shared normalizer (device-specific DP scales)
+        const normalized = await normalizeDeviceStatus(d.deviceId, d.status);
+        // Use global setting to choose PF source with metadata
+        const { pf, hasPf } = await resolvePfWithMeta(prisma, normalized.pfTuya ?? null, normalized.pfEst ?? null);
+        return {
+          ...base,
+          powerW: normalized.powerW ?? 0,
+          voltageV: normalized.voltageV ?? 0,
+          currentA: normalized.currentA ?? 0,
+          pf: pf ?? 0,
+          hasPf
+        };
       }));
+      // online devices first, as the dashboard lists them
+      devices.sort((a, b) => Number(b.online) - Number(a.online));
 
-      const allDevicesWithStatus = [...devicesWithStatus, ...offlineDevices];
-
-      // Calculate summary
       const summary = {
         totalDevices: devices.length,
-        onlineDevices: devices.filter((d: any) => d.online).length,
-        offlineDevices: devices.filter((d: any) => !d.online).length
+        onlineDevices: devices.filter((d) => d.online).length,
+        offlineDevices: devices.filter((d) => !d.online).length
       };
 
+      const cacheUpdatedAt = liveStateUpdatedAt();
       res.json({
         success: true,
         summary,
-        devices: allDevicesWithStatus,
+        devices,
+        cache: {
+          updatedAt: cacheUpdatedAt?.toISOString() ?? null,
+          ageMs: cacheUpdatedAt ? now - cacheUpdatedAt.getTime() : null,
+          refreshAfterMs,
+          staleAfterMs,
+          staleDevices: devices.filter((d) => d.stale).length
+        },
         timestamp: new Date().toISOString()
       });
 
     } catch (err: any) {
       console.error("Live dashboard error:", err?.response ?? err);
-      res.status(500).json({ 
+      res.status(err instanceof TuyaUnavailableError ? 503 : 500).json({ 
         success: false,
         error: "Failed to get live dashboard data", 
         detail: err?.message || String(err),
@@ -264,6 +296,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const startTime = start_time ? parseInt(start_time as string) : (endTime - 7 * 24 * 60 * 60 * 1000);
 
       // Tuya OpenAPI: GET /v1.0/devices/{device_id}/logs
+      const tuya = await tuyaForDevice(id);
       const resp = await tuya.request({
         path: `/v1.0/devices/${id}/logs`,
         method: "GET",
@@ -274,10 +307,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           type: type as string
         }
       });
+      const logs = (resp as any)?.result?.logs;
+      if (Array.isArray(logs)) (resp as any).result.logs = await annotateDps(id, logs);
       res.json(resp);
     } catch (err: any) {
       console.error("Get history error:", err?.response ?? err);
-      res.status(500).json({ 
+      res.status(err instanceof TuyaUnavailableError ? 503 : 500).json({ 
         error: "Failed to get device history", 
         detail: err?.message || String(err),
         timestamp: new Date().toISOString()
@@ -412,8 +447,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/device-settings", async (req, res) => {
     try {
       const validatedData = insertDeviceSettingsSchema.parse(req.body);
+      const previous = await storage.getDeviceSettings(validatedData.deviceId);
       const settings = await storage.upsertDeviceSettings(validatedData);
-      res.json({ success: true, result: settings });
+      // A new counter mode changes how past readings add up: redo the stored days
+      const modeChanged = settings.energyCounterMode !== (previous?.energyCounterMode ?? "cumulative");
+      const recomputing = modeChanged && startDailyKwhRecompute(undefined, new Date(), settings.deviceId);
+      res.json({ success: true, result: settings, dailyKwhRecompute: recomputing });
     } catch (err: any) {
       console.error("Upsert device settings error:", err);
       res.status(500).json({ 
@@ -1,7 +1,7 @@
 // server/routes/alerts.ts
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
-import { sseAdd, sseRemove } from "../alerts";
+import { alertMetrics, sseAdd, sseRemove } from "../alerts";
 
 const r = Router();
 const prisma = new PrismaClient();
@@ -16,6 +16,9 @@ r.post("/alerts/rules", async (req, res) => {
   if (!(name && deviceId && metric && op && typeof threshold === "number" && typeof durationS === "number")) {
     return res.status(400).json({ ok: false, error: "Missing fields" });
   }
+  if (!alertMetrics().includes(metric)) {
+    return res.status(400).json({ ok: false, error: `metric must be one of ${alertMetrics().join(", ")}` });
+  }
   const rule = await prisma.alertRule.create({
     data: { name, deviceId, metric, op, threshold, durationS, isActive: isActive ?? true, cooldownS: cooldownS ?? 120 }
   });
@@ -0,0 +1,117 @@
+// server/routes/automations.ts
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { executeAutomation, validateAutomationRule } from "../automations";
+
+const r = Router();
+const prisma = new PrismaClient();
+
+function ruleData(body: any) {
+  const metric = body.triggerType === "metric";
+  return {
+    name: body.name,
+    triggerType: body.triggerType,
+    deviceId: metric ? body.deviceId : null,
+    metric: metric ? body.metric : null,
+    op: metric ? body.op : null,
+    threshold: metric ? body.threshold : null,
+    durationS: metric ? body.durationS : null,
+    scheduleTime: metric ? null : body.scheduleTime,
+    actions: body.actions,
+    dryRun: body.dryRun ?? false,
+    isActive: body.isActive ?? true,
+    cooldownS: body.cooldownS ?? 600,
+  };
+}
+
+// Rule ids are integers; anything else is answered with a 400 before querying
+function ruleId(value: unknown): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+r.get("/automations/rules", async (_req, res) => {
+  try {
+    const rules = await prisma.automationRule.findMany({ orderBy: { updatedAt: "desc" } });
+    res.json({ ok: true, rules });
+  } catch (e: any) {
+    console.error("[/api/automations/rules] GET error:", e);
+    res.status(500).json({ ok: false, error: e?.message || "Failed to list rules" });
+  }
+});
+
+r.post("/automations/rules", async (req, res) => {
+  try {
+    const invalid = validateAutomationRule(req.body);
+    if (invalid) return res.status(400).json({ ok: false, error: invalid });
+    const rule = await prisma.automationRule.create({ data: ruleData(req.body) });
+    res.json({ ok: true, rule });
+  } catch (e: any) {
+    console.error("[/api/automations/rules] POST error:", e);
+    res.status(500).json({ ok: false, error: e?.message || "Failed to create rule" });
+  }
+});
+
+r.put("/automations/rules/:id", async (req, res) => {
+  const id = ruleId(req.params.id);
+  if (id === null) return res.status(400).json({ ok: false, error: "Invalid rule id" });
+  try {
+    const existing = await prisma.automationRule.findUnique({ where: { id } });
+    if (!existing) return res.status(404).json({ ok: false, error: "Rule not found" });
+    const merged = { ...existing, ...req.body };
+    const invalid = validateAutomationRule(merged);
+    if (invalid) return res.status(400).json({ ok: false, error: invalid });
+    const rule = await prisma.automationRule.update({ where: { id }, data: ruleData(merged) });
+    res.json({ ok: true, rule });
+  } catch (e: any) {
+    console.error("[/api/automations/rules/:id] PUT error:", e);
+    res.status(500).json({ ok: false, error: e?.message || "Failed to update rule" });
+  }
+});
+
+r.delete("/automations/rules/:id", async (req, res) => {
+  const id = ruleId(req.params.id);
+  if (id === null) return res.status(400).json({ ok: false, error: "Invalid rule id" });
+  try {
+    const { count } = await prisma.automationRule.deleteMany({ where: { id } });
+    if (count === 0) return res.status(404).json({ ok: false, error: "Rule not found" });
+    res.json({ ok: true });
+  } catch (e: any) {
+    console.error("[/api/automations/rules/:id] DELETE error:", e);
+    res.status(500).json({ ok: false, error: e?.message || "Failed to delete rule" });
+  }
+});
+
+// Run a rule now; body { dryRun?: boolean } overrides the rule's own dry-run flag
+r.post("/automations/rules/:id/run", async (req, res) => {
+  const id = ruleId(req.params.id);
+  if (id === null) return res.status(400).json({ ok: false, error: "Invalid rule id" });
+  try {
+    const rule = await prisma.automationRule.findUnique({ where: { id } });
+    if (!rule) return res.status(404).json({ ok: false, error: "Rule not found" });
+    const dryRun = typeof req.body?.dryRun === "boolean" ? req.body.dryRun : undefined;
+    const run = await executeAutomation(id, "manual run", { dryRun });
+    res.json({ ok: true, run });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || "Run failed" });
+  }
+});
+
+// Execution log, newest first (optionally for one rule)
+r.get("/automations/runs", async (req, res) => {
+  const id = req.query.ruleId ? ruleId(req.query.ruleId) : undefined;
+  if (id === null) return res.status(400).json({ ok: false, error: "Invalid ruleId" });
+  try {
+    const runs = await prisma.automationRun.findMany({
+      where: id ? { ruleId: id } : undefined,
+      orderBy: { tsUtc: "desc" },
+      take: Math.min(Number(req.query.limit) || 200, 1000),
+    });
+    res.json({ ok: true, runs });
+  } catch (e: any) {
+    console.error("[/api/automations/runs] GET error:", e);
+    res.status(500).json({ ok: false, error: e?.message || "Failed to list runs" });
+  }
+});
+
+export default r;
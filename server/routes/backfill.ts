@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { findGaps, getBackfillProgress, listBackfillRuns, startBackfill } from "../backfill";
+
+const router = Router();
+
+function parseDate(v: unknown): Date | undefined | null {
+  if (v == null || v === "") return undefined;
+  const d = new Date(typeof v === "number" ? v : String(v));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+// POST /api/backfill/run - Start a pass: body { deviceId? | deviceIds?, from?, to? }
+router.post("/run", async (req, res) => {
+  try {
+    const { deviceId, deviceIds, from, to } = req.body ?? {};
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (fromDate === null || toDate === null) {
+      return res.status(400).json({ ok: false, error: "from/to must be ISO dates or epoch milliseconds" });
+    }
+    if (fromDate && toDate && fromDate >= toDate) {
+      return res.status(400).json({ ok: false, error: "from must be before to" });
+    }
+
+    const ids: string[] | undefined = deviceId ? [String(deviceId)] : Array.isArray(deviceIds) ? deviceIds.map(String) : undefined;
+    const { started, progress } = await startBackfill({ trigger: "manual", deviceIds: ids, from: fromDate, to: toDate });
+    if (!started && progress.status === "running") {
+      return res.status(409).json({ ok: false, error: "A backfill is already running", progress });
+    }
+    if (!started) return res.status(409).json({ ok: false, error: progress.error, progress });
+    res.status(202).json({ ok: true, progress });
+  } catch (error) {
+    console.error("[/api/backfill/run] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to start backfill" });
+  }
+});
+
+// GET /api/backfill/status - Current/last pass progress plus recent runs
+router.get("/status", async (_req, res) => {
+  try {
+    res.json({ ok: true, progress: getBackfillProgress(), runs: await listBackfillRuns() });
+  } catch (error) {
+    console.error("[/api/backfill/status] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to get backfill status" });
+  }
+});
+
+// GET /api/backfill/gaps?deviceId=&from=&to= - Preview gaps without calling Tuya
+router.get("/gaps", async (req, res) => {
+  try {
+    const deviceId = String(req.query.deviceId || "");
+    if (!deviceId) return res.status(400).json({ ok: false, error: "deviceId is required" });
+    const to = parseDate(req.query.to) ?? new Date();
+    const from = parseDate(req.query.from) ?? new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    res.json({ ok: true, deviceId, from, to, gaps: await findGaps(deviceId, from, to) });
+  } catch (error) {
+    console.error("[/api/backfill/gaps] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to find gaps" });
+  }
+});
+
+export default router;
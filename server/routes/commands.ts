@@ -0,0 +1,61 @@
+// server/routes/commands.ts
+import { Router } from "express";
+import { TuyaUnavailableError } from "../tuya";
+import { storage } from "../storage";
+import { ALLOWED_COMMAND_CODES, CommandRejectedError, listDeviceCommands, sendDeviceCommands } from "../commands";
+
+const r = Router();
+
+// Whether the device can be controlled, and with which codes (drives the UI controls)
+r.get("/devices/:id/control", async (req, res) => {
+  try {
+    const settings = await storage.getDeviceSettings(req.params.id);
+    res.json({ ok: true, controlAllowed: settings?.controlAllowed ?? false, allowedCodes: ALLOWED_COMMAND_CODES });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || "Failed to get control settings" });
+  }
+});
+
+// Send commands: body { commands: [{ code, value }], confirm: true, actor? }
+r.post("/devices/:id/commands", async (req, res) => {
+  const { commands, confirm, actor } = req.body ?? {};
+  if (confirm !== true) {
+    return res.status(400).json({ ok: false, error: "Confirmation required: resend with confirm: true", confirmationRequired: true });
+  }
+
+  const source = req.get("x-command-source") === "ui" ? "ui" : "api";
+  try {
+    const entry = await sendDeviceCommands(req.params.id, commands, {
+      actor: String(actor || req.get("x-actor") || req.ip || "unknown"),
+      source,
+    });
+    res.status(entry.success ? 200 : 502).json({ ok: entry.success, error: entry.error ?? undefined, entry });
+  } catch (e: any) {
+    if (e instanceof CommandRejectedError) {
+      return res.status(e.status).json({ ok: false, error: e.message, auditId: e.auditId });
+    }
+    res.status(e instanceof TuyaUnavailableError ? 503 : 500).json({ ok: false, error: e?.message || "Command failed" });
+  }
+});
+
+// Audit log for one device
+r.get("/devices/:id/commands", async (req, res) => {
+  try {
+    const entries = await listDeviceCommands(req.params.id, Math.min(Number(req.query.limit) || 50, 500));
+    res.json({ ok: true, entries });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || "Failed to list commands" });
+  }
+});
+
+// Audit log across all devices
+r.get("/device-commands", async (req, res) => {
+  try {
+    const entries = await listDeviceCommands(undefined, Math.min(Number(req.query.limit) || 100, 500));
+    res.json({ ok: true, entries });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || "Failed to list commands" });
+  }
+});
+
+export default r;
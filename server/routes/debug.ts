@@ -4,7 +4,7 @@ import { toIsoIst } from "../time";
 // If you have pf helpers from earlier work:
 import { resolvePf } from "../pf"; // if missing, fallback in-code
 
-import { tuya } from "../tuya"; // you already use tuya.request elsewhere
+import { tuyaForDevice } from "../tuya";
 
 const prisma = new PrismaClient();
 
@@ -22,7 +22,7 @@ router.get("/last-sample", async (req, res) => {
 
     const [health, energy] = await Promise.all([
       prisma.rawHealth.findFirst({
-        where: { deviceId: String(deviceId) },
+        where: { deviceId: String(deviceId), channel: "" },
         orderBy: { tsUtc: "desc" },
         select: {
           tsUtc: true, voltageV: true, currentA: true, powerW: true,
@@ -48,6 +48,7 @@ router.get("/last-sample", async (req, res) => {
     let liveStatus: any = null;
     if (String(live) === "1") {
       try {
+        const tuya = await tuyaForDevice(String(deviceId));
         const resp = await tuya.request({
           path: `/v1.0/devices/${deviceId}/status`,
           method: "GET"
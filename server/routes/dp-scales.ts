@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { clearDpScaleOverrideCache, getDpScales, refreshDpScales } from "../dpscale";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// GET /api/dp-scales/overrides - List per-product scale overrides
+router.get("/overrides", async (_req, res) => {
+  try {
+    const overrides = await prisma.dpScaleOverride.findMany({ orderBy: [{ productId: "asc" }, { code: "asc" }] });
+    res.json({ ok: true, overrides });
+  } catch (error) {
+    console.error("[/api/dp-scales/overrides] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to list overrides" });
+  }
+});
+
+// POST /api/dp-scales/overrides - Create or replace the override for (productId, code)
+router.post("/overrides", async (req, res) => {
+  try {
+    const { productId, code, scale, unit, note } = req.body ?? {};
+    if (!productId || !code) {
+      return res.status(400).json({ ok: false, error: "productId and code are required" });
+    }
+    const n = Number(scale);
+    if (!Number.isInteger(n) || n < 0 || n > 6) {
+      return res.status(400).json({ ok: false, error: "scale must be an integer between 0 and 6" });
+    }
+
+    const data = { scale: n, unit: unit ?? null, note: note ?? null };
+    const override = await prisma.dpScaleOverride.upsert({
+      where: { productId_code: { productId, code } },
+      update: data,
+      create: { productId, code, ...data }
+    });
+    clearDpScaleOverrideCache();
+    res.json({ ok: true, override });
+  } catch (error) {
+    console.error("[/api/dp-scales/overrides] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to save override" });
+  }
+});
+
+// DELETE /api/dp-scales/overrides/:id
+router.delete("/overrides/:id", async (req, res) => {
+  try {
+    const { count } = await prisma.dpScaleOverride.deleteMany({ where: { id: Number(req.params.id) } });
+    if (count === 0) return res.status(404).json({ ok: false, error: "Override not found" });
+    clearDpScaleOverrideCache();
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("[/api/dp-scales/overrides] DELETE error:", error);
+    res.status(500).json({ ok: false, error: "Failed to delete override" });
+  }
+});
+
+// GET /api/dp-scales/:deviceId - Effective scales (default / spec / override per DP)
+router.get("/:deviceId", async (req, res) => {
+  try {
+    const scales = await getDpScales(req.params.deviceId);
+    res.json({ ok: true, deviceId: req.params.deviceId, scales });
+  } catch (error) {
+    console.error("[/api/dp-scales/:deviceId] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to get DP scales" });
+  }
+});
+
+// POST /api/dp-scales/:deviceId/refresh - Refetch the device's specification
+router.post("/:deviceId/refresh", async (req, res) => {
+  try {
+    const scales = await refreshDpScales(req.params.deviceId);
+    res.json({ ok: true, deviceId: req.params.deviceId, scales });
+  } catch (error) {
+    console.error("[/api/dp-scales/:deviceId/refresh] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to refresh DP scales" });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { getIstDayStart, getIstNextDayStart, getIstMonthRange, getIstYearRange, toIsoIst } from "../time";
+import { phaseImbalancePct } from "../normalize";
+import { LOW_CONFIDENCE_COVERAGE } from "../logic/integrate";
+import { STAT_KINDS, STAT_SELECT, statColumn, type ElectricalQuantity, type StatKind } from "../logic/stats";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -12,6 +15,7 @@ const prisma = new PrismaClient();
 router.get("/devices/summary", async (req, res) => {
   try {
     const devices = await prisma.device.findMany({
+      where: { removedAtUtc: null }, // hide devices that left the Tuya account
       select: {
         deviceId: true,
         name: true,
@@ -47,12 +51,55 @@ router.get("/devices/summary", async (req, res) => {
 });
 
 /**
- * GET /api/series?deviceId&metric=power|voltage|current|kwh&gran=raw|1m|15m|1h&start&end
- * Returns time series data as {t, v} pairs
+ * GET /api/series/channels?deviceId
+ * Lists the phases ("A"|"B"|"C") / outlets ("1","2",...) a device reported in the last 7 days
+ */
+router.get("/series/channels", async (req, res) => {
+  try {
+    const { deviceId } = req.query;
+    if (!deviceId) {
+      return res.status(400).json({ error: "Missing required parameter: deviceId" });
+    }
+
+    const rows = await prisma.rawHealth.groupBy({
+      by: ['channel'],
+      where: {
+        deviceId: deviceId as string,
+        channel: { not: "" },
+        tsUtc: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+      }
+    });
+    const channels = rows.map((r: { channel: string }) => r.channel).sort();
+
+    res.json({
+      ok: true,
+      deviceId,
+      channels,
+      threePhase: ['A', 'B', 'C'].every(p => channels.includes(p))
+    });
+  } catch (error) {
+    console.error("[ENERGY] Error listing series channels:", error);
+    res.status(500).json({
+      error: "Failed to list series channels",
+      detail: String(error),
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/series?deviceId&metric=power|voltage|current|pf|kwh|imbalance&gran=raw|1m|15m|1h&start&end&channel&stat
+ * Returns time series data as {t, v} pairs.
+ * channel selects a phase/outlet (default: device total). imbalance is the
+ * phase current imbalance (%) for raw samples and the phase power imbalance for rollups.
+ * Rollup points add samples, coverage (0..1) and lowConfidence. For voltage,
+ * current and pf rollups v is the window's `stat` (min|avg|max|p95, default avg)
+ * and every point also carries min, avg, max and p95.
  */
 router.get("/series", async (req, res) => {
   try {
-    const { deviceId, metric, gran = 'raw', start, end } = req.query;
+    const { deviceId, metric, gran = 'raw', start, end, stat = 'avg' } = req.query;
+    const channel = typeof req.query.channel === 'string' ? req.query.channel : "";
 
     if (!deviceId || !metric) {
       return res.status(400).json({ 
@@ -60,9 +107,26 @@ router.get("/series", async (req, res) => {
       });
     }
 
-    if (!['power', 'voltage', 'current', 'kwh'].includes(metric as string)) {
+    if (!['power', 'voltage', 'current', 'pf', 'kwh', 'imbalance'].includes(metric as string)) {
       return res.status(400).json({ 
-        error: "Invalid metric. Must be one of: power, voltage, current, kwh" 
+        error: "Invalid metric. Must be one of: power, voltage, current, pf, kwh, imbalance" 
+      });
+    }
+
+    if (!(STAT_KINDS as string[]).includes(stat as string)) {
+      return res.status(400).json({
+        error: "Invalid stat. Must be one of: min, avg, max, p95"
+      });
+    }
+
+    if (!/^[A-Za-z0-9]{0,8}$/.test(channel)) {
+      return res.status(400).json({ error: "Invalid channel" });
+    }
+
+    // Cumulative energy and imbalance only exist for the device as a whole
+    if (channel && (metric === 'imbalance' || (metric === 'kwh' && gran === 'raw'))) {
+      return res.status(400).json({
+        error: `${metric === 'kwh' ? 'Raw kwh' : 'imbalance'} is only available for the device total (omit channel)`
       });
     }
 
@@ -75,7 +139,11 @@ router.get("/series", async (req, res) => {
     const startTime = start ? new Date(start as string) : new Date(Date.now() - 24 * 60 * 60 * 1000);
     const endTime = end ? new Date(end as string) : new Date();
 
-    let seriesData: Array<{ t: Date, v: number | null }> = [];
+    // Rollup points also carry their sample count and coverage (null on rows built before time weighting)
+    let seriesData: Array<{
+      t: Date, v: number | null, samples?: number, coverage?: number | null,
+      stats?: Record<StatKind, number | null>
+    }> = [];
 
     if (gran === 'raw') {
       // Query raw data tables
@@ -96,13 +164,16 @@ router.get("/series", async (req, res) => {
         const rawHealth = await prisma.rawHealth.findMany({
           where: {
             deviceId: deviceId as string,
+            channel,
             tsUtc: { gte: startTime, lte: endTime }
           },
           select: { 
             tsUtc: true, 
             powerW: true, 
             voltageV: true, 
-            currentA: true 
+            currentA: true,
+            pfEst: true,
+            imbalancePct: true
           },
           orderBy: { tsUtc: 'asc' }
         });
@@ -113,62 +184,87 @@ router.get("/series", async (req, res) => {
             case 'power': value = r.powerW; break;
             case 'voltage': value = r.voltageV ? Number(r.voltageV) : null; break;
             case 'current': value = r.currentA ? Number(r.currentA) : null; break;
+            case 'pf': value = r.pfEst != null ? Number(r.pfEst) : null; break;
+            case 'imbalance': value = r.imbalancePct != null ? Number(r.imbalancePct) : null; break;
           }
           return { t: r.tsUtc, v: value };
         });
       }
+    } else if (metric === 'imbalance') {
+      // Compare the phases' average power per window (rollups built before the
+      // voltage/current statistics have no currents)
+      const phaseQuery = {
+        where: {
+          deviceId: deviceId as string,
+          channel: { in: ['A', 'B', 'C'] },
+          windowUtc: { gte: startTime, lte: endTime }
+        },
+        select: { windowUtc: true, avgPowerW: true },
+        orderBy: { windowUtc: 'asc' as const }
+      };
+      const phaseRows = gran === '1m'
+        ? await prisma.rollup1m.findMany(phaseQuery)
+        : gran === '15m'
+          ? await prisma.rollup15m.findMany(phaseQuery)
+          : await prisma.rollup1h.findMany(phaseQuery);
+
+      const byWindow = new Map<number, number[]>();
+      for (const r of phaseRows) {
+        if (r.avgPowerW === null) continue;
+        const powers = byWindow.get(r.windowUtc.getTime()) ?? [];
+        powers.push(r.avgPowerW);
+        byWindow.set(r.windowUtc.getTime(), powers);
+      }
+      seriesData = Array.from(byWindow.entries()).map(([t, powers]) => ({
+        t: new Date(t),
+        v: powers.length === 3 ? phaseImbalancePct(powers) ?? null : null
+      }));
     } else {
       // Query rollup tables
-      let rollupData: Array<{ windowUtc: Date, avgPowerW: number | null, kwh: any }> = [];
-      
-      if (gran === '1m') {
-        rollupData = await prisma.rollup1m.findMany({
-          where: {
-            deviceId: deviceId as string,
-            windowUtc: { gte: startTime, lte: endTime }
-          },
-          select: { windowUtc: true, avgPowerW: true, kwh: true },
-          orderBy: { windowUtc: 'asc' }
-        });
-      } else if (gran === '15m') {
-        rollupData = await prisma.rollup15m.findMany({
-          where: {
-            deviceId: deviceId as string,
-            windowUtc: { gte: startTime, lte: endTime }
-          },
-          select: { windowUtc: true, avgPowerW: true, kwh: true },
-          orderBy: { windowUtc: 'asc' }
-        });
-      } else if (gran === '1h') {
-        rollupData = await prisma.rollup1h.findMany({
-          where: {
-            deviceId: deviceId as string,
-            windowUtc: { gte: startTime, lte: endTime }
-          },
-          select: { windowUtc: true, avgPowerW: true, kwh: true },
-          orderBy: { windowUtc: 'asc' }
-        });
-      }
+      const rollupQuery = {
+        where: {
+          deviceId: deviceId as string,
+          channel,
+          windowUtc: { gte: startTime, lte: endTime }
+        },
+        select: { windowUtc: true, avgPowerW: true, kwh: true, samples: true, coverage: true, ...STAT_SELECT },
+        orderBy: { windowUtc: 'asc' as const }
+      };
+      const rollupData = gran === '1m'
+        ? await prisma.rollup1m.findMany(rollupQuery)
+        : gran === '15m'
+          ? await prisma.rollup15m.findMany(rollupQuery)
+          : await prisma.rollup1h.findMany(rollupQuery);
+
+      // Rollup column suffix of each electrical metric, e.g. voltage -> avgVoltageV
+      const quantity: Record<string, ElectricalQuantity> = { voltage: 'VoltageV', current: 'CurrentA', pf: 'Pf' };
 
       seriesData = rollupData.map(r => {
-        let value: number | null = null;
+        const point = { t: r.windowUtc, samples: r.samples, coverage: r.coverage };
         switch (metric) {
-          case 'power': value = r.avgPowerW; break;
-          case 'kwh': value = r.kwh ? Number(r.kwh) : null; break;
-          case 'voltage':
-          case 'current':
-            // These metrics not available in rollup tables
-            value = null;
-            break;
+          case 'power': return { ...point, v: r.avgPowerW };
+          case 'kwh': return { ...point, v: r.kwh ? Number(r.kwh) : null };
+          default: {
+            // voltage, current, pf: every statistic, with the requested one as v
+            const q = quantity[metric as string];
+            const stats = {} as Record<StatKind, number | null>;
+            for (const k of STAT_KINDS) stats[k] = r[statColumn(k, q)] ?? null;
+            return { ...point, v: stats[stat as StatKind], stats };
+          }
         }
-        return { t: r.windowUtc, v: value };
       });
     }
 
     // Convert to {t, v} format with timestamps as ISO strings
     const response = seriesData.map(point => ({
       t: point.t.toISOString(),
-      v: point.v
+      v: point.v,
+      ...(point.samples !== undefined && {
+        samples: point.samples,
+        coverage: point.coverage,
+        lowConfidence: point.coverage != null && point.coverage < LOW_CONFIDENCE_COVERAGE
+      }),
+      ...point.stats
     }));
 
     // Check if we have any data
@@ -280,7 +376,8 @@ router.get("/events", async (req, res) => {
 
 /**
  * GET /api/daily-kwh?deviceId&startDay&endDay
- * Returns daily kWh consumption data with device metadata
+ * Returns daily kWh consumption data with device metadata. Today's row is the
+ * running total (partial: true); resets counts add_ele counter resets that day.
  */
 router.get("/daily-kwh", async (req, res) => {
   try {
@@ -302,12 +399,14 @@ router.get("/daily-kwh", async (req, res) => {
       },
       select: {
         dayIst: true,
-        kwh: true
+        kwh: true,
+        resets: true
       },
       orderBy: {
         dayIst: 'asc'
       }
     });
+    const today = getIstDayStart().getTime();
 
     // NEW: fetch canonical device name from DB
     const dev = await prisma.device.findUnique({ 
@@ -320,7 +419,9 @@ router.get("/daily-kwh", async (req, res) => {
 
     const response = dailyKwhData.map(d => ({
       dayIst: d.dayIst.toISOString().split('T')[0], // Return as YYYY-MM-DD format
-      kwh: Number(d.kwh)
+      kwh: Number(d.kwh),
+      resets: d.resets,
+      partial: d.dayIst.getTime() >= today
     }));
 
     // Check if we have any data
@@ -381,6 +482,7 @@ router.get("/energy/today-hourly", async (req, res) => {
     const hourlyData = await prisma.rollup1h.findMany({
       where: {
         deviceId: deviceId as string,
+        channel: "",
         windowUtc: { 
           gte: startOfDay, 
           lt: now // Use current time, not next day start
@@ -413,6 +515,7 @@ router.get("/energy/today-hourly", async (req, res) => {
       const minuteData = await prisma.rollup1m.findMany({
         where: {
           deviceId: deviceId as string,
+          channel: "",
           windowUtc: { 
             gte: startOfDay, 
             lt: now
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { JOB_NAMES, getJobSummary, listJobRuns } from "../jobRuns";
+import { getSupervisorStatus } from "../jobs/poller";
+
+const router = Router();
+
+// GET /api/jobs?job=poller|rollup|daily-kwh|retention|rollup-recompute&status=&since=&limit= - Job runs, newest first
+router.get("/", async (req, res) => {
+  try {
+    const { job, status, since, limit } = req.query;
+    if (job && !JOB_NAMES.includes(String(job) as any)) {
+      return res.status(400).json({ ok: false, error: `job must be one of ${JOB_NAMES.join(", ")}` });
+    }
+    const sinceDate = since ? new Date(String(since)) : undefined;
+    if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+      return res.status(400).json({ ok: false, error: "since must be an ISO date" });
+    }
+
+    const runs = await listJobRuns({
+      job: job ? String(job) : undefined,
+      status: status ? String(status) : undefined,
+      since: sinceDate,
+      limit: limit ? Number(limit) : undefined
+    });
+    res.json({ ok: true, runs });
+  } catch (error) {
+    console.error("[/api/jobs] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to list job runs" });
+  }
+});
+
+// GET /api/jobs/status - Poller supervisor liveness plus the latest run of every job
+router.get("/status", async (_req, res) => {
+  try {
+    res.json({ ok: true, supervisor: getSupervisorStatus(), jobs: await getJobSummary() });
+  } catch (error) {
+    console.error("[/api/jobs/status] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to load job status" });
+  }
+});
+
+export default router;
@@ -63,7 +63,7 @@ r.get("/monitor/ingest-summary", async (_req, res) => {
   try {
     const devs = await prisma.device.findMany({
       orderBy: { deviceId: "asc" },
-      select: { deviceId: true, name: true, lastOnlineUtc: true, lastSeenUtc: true },
+      select: { deviceId: true, name: true, lastOnlineUtc: true, lastSeenUtc: true, removedAtUtc: true },
     });
 
     for (const d of devs) {
@@ -72,7 +72,7 @@ r.get("/monitor/ingest-summary", async (_req, res) => {
 
       try {
         lastH = await prisma.rawHealth.findFirst({
-          where: { deviceId: d.deviceId },
+          where: { deviceId: d.deviceId, channel: "" },
           orderBy: { tsUtc: "desc" },
         });
       } catch (e: any) {
@@ -96,6 +96,7 @@ r.get("/monitor/ingest-summary", async (_req, res) => {
       result.devices.push({
         deviceId: d.deviceId,
         name: d.name ?? d.deviceId,
+        removedAtUtc: d.removedAtUtc ?? null,
         lastHealthTs: lastH?.tsUtc ?? null,
         lastEnergyTs: lastE?.tsUtc ?? null,
         // If device is offline, show 0 values for all electrical readings
@@ -132,7 +133,7 @@ r.get("/monitor/latest", async (req, res) => {
         orderBy: { tsUtc: "desc" },
         take: limit,
         select: {
-          tsUtc: true, deviceId: true,
+          tsUtc: true, deviceId: true, channel: true,
           powerW: true, voltageV: true, currentA: true, pfEst: true,
         },
       });
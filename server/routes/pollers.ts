@@ -1,13 +1,20 @@
 import { Router } from "express";
-import { getPollerSettings, updatePollerSettings } from "../storage.poller";
-import { energyTickOnce, healthTickOnce } from "../jobs/poller";
+import { QUOTA_ACTIONS, describeEffectiveState, getPollerSettings, updatePollerSettings, type PollerSettings } from "../storage.poller";
+import { validateQuietWindows } from "../logic/quietWindows";
+import { deviceTickOnce, getPollerSchedule } from "../jobs/poller";
+import { getRealtimeStatus, getLocalMessageSource } from "../jobs/realtime";
 
 export const pollerRouter = Router();
 
+// Manual settings plus what is in force now that the quiet windows are applied
+function settingsPayload(s: PollerSettings) {
+  return { ...s, effective: describeEffectiveState(s) };
+}
+
 pollerRouter.get("/settings", async (_req, res) => {
   try {
     const s = await getPollerSettings();
-    res.json(s);
+    res.json(settingsPayload(s));
   } catch (error: any) {
     res.status(500).json({ ok: false, error: error?.message || "Failed to get poller settings" });
   }
@@ -15,7 +22,8 @@ pollerRouter.get("/settings", async (_req, res) => {
 
 pollerRouter.put("/settings", async (req, res) => {
   try {
-    const patch = req.body ?? {};
+    // "effective" is derived; the settings page sends back what it loaded
+    const { effective: _effective, ...patch } = req.body ?? {};
     
     // Server-side validation to prevent runaway polling
     if (patch.healthIntervalMs !== undefined && patch.healthIntervalMs < 5000) {
@@ -27,9 +35,22 @@ pollerRouter.put("/settings", async (req, res) => {
     if (patch.dashboardRefreshMs !== undefined && patch.dashboardRefreshMs < 5000) {
       patch.dashboardRefreshMs = 5000; // Minimum 5 seconds
     }
+    if (patch.callsPerHourBudget !== undefined) {
+      patch.callsPerHourBudget = Math.max(0, Math.floor(Number(patch.callsPerHourBudget) || 0)); // 0 = unlimited
+    }
+    if (patch.monthlyCallQuota !== undefined) {
+      patch.monthlyCallQuota = Math.max(0, Math.floor(Number(patch.monthlyCallQuota) || 0)); // 0 = no quota
+    }
+    if (patch.quotaAction !== undefined && !QUOTA_ACTIONS.includes(patch.quotaAction)) {
+      return res.status(400).json({ ok: false, error: `quotaAction must be one of ${QUOTA_ACTIONS.join(", ")}` });
+    }
+    if (patch.quietWindows !== undefined) {
+      const error = validateQuietWindows(patch.quietWindows);
+      if (error) return res.status(400).json({ ok: false, error });
+    }
     
     const s = await updatePollerSettings(patch);
-    res.json(s);
+    res.json(settingsPayload(s));
   } catch (error: any) {
     res.status(500).json({ ok: false, error: error?.message || "Failed to update poller settings" });
   }
@@ -37,13 +58,48 @@ pollerRouter.put("/settings", async (req, res) => {
 
 pollerRouter.post("/ping-now", async (req, res) => {
   const type = (req.query.type as string) || (req.body?.type as string) || "health";
+  if (!["energy", "health", "all"].includes(type)) {
+    return res.status(400).json({ ok: false, error: "type must be 'energy', 'health' or 'all'" });
+  }
   try {
-    const result =
-      type === "energy" ? await energyTickOnce() :
-      type === "health" ? await healthTickOnce() :
-      (() => { throw new Error("type must be 'energy' or 'health'"); })();
+    // One device fetch, fanned out to the requested stream(s); results carry per-device outcomes
+    const result = await deviceTickOnce({
+      health: type === "health" || type === "all",
+      energy: type === "energy" || type === "all",
+    });
     res.json({ type, ...result });
   } catch (e: any) {
     res.status(500).json({ ok: false, error: e?.message || "ping failed" });
   }
-});
\ No newline at end of file
+});
+
+// Per-device cadence (global / custom / adaptive), next due times and budget usage
+pollerRouter.get("/schedule", async (_req, res) => {
+  try {
+    res.json(await getPollerSchedule());
+  } catch (error: any) {
+    res.status(500).json({ ok: false, error: error?.message || "Failed to get poller schedule" });
+  }
+});
+
+pollerRouter.get("/realtime", (_req, res) => {
+  res.json(getRealtimeStatus());
+});
+
+// Feed a message through the local stand-in source (TUYA_ENDPOINT=sim:// or TUYA_MQ_URL=local://)
+pollerRouter.post("/realtime/inject", (req, res) => {
+  const local = getLocalMessageSource();
+  if (!local) {
+    return res.status(409).json({ ok: false, error: "Local message source is not active" });
+  }
+  const { type, deviceId, status } = req.body ?? {};
+  if (!deviceId || !["status", "online", "offline"].includes(type)) {
+    return res.status(400).json({ ok: false, error: "deviceId and type ('status' | 'online' | 'offline') are required" });
+  }
+  if (type === "status" && !Array.isArray(status)) {
+    return res.status(400).json({ ok: false, error: "status must be an array of { code, value }" });
+  }
+  const ts = new Date();
+  local.publish(type === "status" ? { type, deviceId, status, ts } : { type, deviceId, ts });
+  res.json({ ok: true });
+});
@@ -31,6 +31,7 @@ router.get("/power/last-24h", async (req, res) => {
     const rollup1mData = await prisma.rollup1m.findMany({
       where: {
         deviceId: deviceId as string,
+        channel: "",
         windowUtc: { 
           gte: twentyFourHoursAgo, 
           lte: now 
@@ -54,6 +55,7 @@ router.get("/power/last-24h", async (req, res) => {
       const rawHealthData = await prisma.rawHealth.findMany({
         where: {
           deviceId: deviceId as string,
+          channel: "",
           tsUtc: { 
             gte: twentyFourHoursAgo, 
             lte: now 
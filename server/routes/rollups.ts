@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { getRollupProgress, startDailyKwhRecompute, startRecompute } from "../jobs/rollups";
+import { findRollupDuplicates } from "../rollupRepair";
+
+const router = Router();
+
+function parseDate(v: unknown): Date | null {
+  if (v == null || v === "") return null;
+  const d = new Date(/^\d+$/.test(String(v)) ? Number(v) : String(v));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+// POST /api/rollups/recompute?deviceId=&start=&end= - Rebuild 1m/15m/1h rollups and
+// DailyKwh for [start, end) in the background (all devices when deviceId is omitted)
+router.post("/recompute", async (req, res) => {
+  try {
+    const start = parseDate(req.query.start);
+    const end = parseDate(req.query.end);
+    if (!start || !end) {
+      return res.status(400).json({ ok: false, error: "start and end are required (ISO dates or epoch milliseconds)" });
+    }
+    if (start >= end) {
+      return res.status(400).json({ ok: false, error: "start must be before end" });
+    }
+
+    const deviceId = req.query.deviceId ? String(req.query.deviceId) : undefined;
+    if (!startRecompute(start, end, deviceId)) {
+      return res.status(409).json({ ok: false, error: "A recompute is already running" });
+    }
+    res.status(202).json({ ok: true, deviceId: deviceId ?? null, start, end, job: "rollup-recompute" });
+  } catch (error) {
+    console.error("[/api/rollups/recompute] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to start recompute" });
+  }
+});
+
+// POST /api/rollups/daily-kwh/recompute?deviceId=&start=&end= - Recompute DailyKwh only, for
+// every IST day touching [start, end) (default: from the first stored reading to now)
+router.post("/daily-kwh/recompute", async (req, res) => {
+  try {
+    const start = parseDate(req.query.start) ?? undefined;
+    const end = parseDate(req.query.end) ?? new Date();
+    if (start && start >= end) {
+      return res.status(400).json({ ok: false, error: "start must be before end" });
+    }
+
+    const deviceId = req.query.deviceId ? String(req.query.deviceId) : undefined;
+    if (!startDailyKwhRecompute(start, end, deviceId)) {
+      return res.status(409).json({ ok: false, error: "A daily kWh recompute is already running" });
+    }
+    res.status(202).json({ ok: true, deviceId: deviceId ?? null, start: start ?? null, end, job: "daily-kwh" });
+  } catch (error) {
+    console.error("[/api/rollups/daily-kwh/recompute] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to start daily kWh recompute" });
+  }
+});
+
+// GET /api/rollups/progress - Progress of the current/last scheduled pass and recompute
+router.get("/progress", (_req, res) => {
+  res.json({ ok: true, ...getRollupProgress() });
+});
+
+// GET /api/rollups/duplicates - Duplicate rollup rows per table (should be none)
+router.get("/duplicates", async (_req, res) => {
+  try {
+    res.json({ ok: true, tables: await findRollupDuplicates() });
+  } catch (error) {
+    console.error("[/api/rollups/duplicates] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to find duplicate rollups" });
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { getDpScales } from "../dpscale";
+import { type TuyaStatus } from "../normalize";
+import { SENSOR_CATEGORIES, decodeSensorStatus, isSensorMetric } from "../sensors";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// GET /api/sensors/registry - Supported sensor categories and their metrics
+router.get("/registry", (_req, res) => {
+  res.json({ ok: true, categories: SENSOR_CATEGORIES });
+});
+
+// GET /api/sensors/latest - Every sensor device with its current readings (from the last device list)
+router.get("/latest", async (_req, res) => {
+  try {
+    const devices = await prisma.device.findMany({
+      where: { removedAtUtc: null, category: { in: Object.keys(SENSOR_CATEGORIES) } },
+      select: { deviceId: true, name: true, category: true, lastSeenUtc: true, lastOnlineUtc: true, lastStatus: true },
+      orderBy: { name: "asc" }
+    });
+
+    const sensors = [];
+    for (const d of devices) {
+      const category = d.category as string;
+      const readings = decodeSensorStatus(category, (d.lastStatus ?? []) as TuyaStatus, await getDpScales(d.deviceId));
+      sensors.push({
+        deviceId: d.deviceId,
+        name: d.name ?? d.deviceId,
+        category,
+        categoryName: SENSOR_CATEGORIES[category].name,
+        online: d.lastOnlineUtc && d.lastSeenUtc
+          ? d.lastOnlineUtc.getTime() >= d.lastSeenUtc.getTime() - 60000
+          : false,
+        lastSeenUtc: d.lastSeenUtc,
+        metrics: readings.map(({ metric, value }) => ({
+          key: metric.key,
+          label: metric.label,
+          kind: metric.kind,
+          unit: metric.unit,
+          widget: metric.widget,
+          states: metric.states,
+          value
+        }))
+      });
+    }
+    res.json({ ok: true, sensors });
+  } catch (error) {
+    console.error("[/api/sensors/latest] GET error:", error);
+    res.status(500).json({ error: "Failed to load sensors", detail: String(error), timestamp: new Date().toISOString() });
+  }
+});
+
+// GET /api/sensors/series?deviceId&metric&gran=raw|1h&start&end - {t, v} pairs (1h: hourly average)
+router.get("/series", async (req, res) => {
+  try {
+    const { deviceId, metric, gran = "raw", start, end } = req.query;
+    if (!deviceId || !metric) {
+      return res.status(400).json({ error: "Missing required parameters: deviceId and metric" });
+    }
+    if (!isSensorMetric(String(metric))) {
+      return res.status(400).json({ error: `Unknown sensor metric '${metric}'` });
+    }
+    if (gran !== "raw" && gran !== "1h") {
+      return res.status(400).json({ error: "Invalid granularity. Must be one of: raw, 1h" });
+    }
+
+    const startTime = start ? new Date(start as string) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const endTime = end ? new Date(end as string) : new Date();
+
+    let data: Array<{ t: string; v: number | null }>;
+    if (gran === "raw") {
+      const rows = await prisma.sensorReading.findMany({
+        where: { deviceId: String(deviceId), metric: String(metric), tsUtc: { gte: startTime, lte: endTime } },
+        select: { tsUtc: true, value: true },
+        orderBy: { tsUtc: "asc" }
+      });
+      data = rows.map((r: { tsUtc: Date; value: number }) => ({ t: r.tsUtc.toISOString(), v: r.value }));
+    } else {
+      const rows = await prisma.sensorRollup1h.findMany({
+        where: { deviceId: String(deviceId), metric: String(metric), windowUtc: { gte: startTime, lte: endTime } },
+        select: { windowUtc: true, avg: true },
+        orderBy: { windowUtc: "asc" }
+      });
+      data = rows.map((r: { windowUtc: Date; avg: number | null }) => ({ t: r.windowUtc.toISOString(), v: r.avg }));
+    }
+
+    res.json({
+      ok: data.length > 0,
+      reason: data.length > 0 ? undefined : "NO_DATA",
+      deviceId,
+      metric,
+      granularity: gran,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      count: data.length,
+      data
+    });
+  } catch (error) {
+    console.error("[/api/sensors/series] GET error:", error);
+    res.status(500).json({ error: "Failed to get sensor series", detail: String(error), timestamp: new Date().toISOString() });
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+import { Router } from "express";
+import { PrismaClient, type TuyaAccount } from "@prisma/client";
+import { clearTuyaAccountCache, DEFAULT_ACCOUNT_ID, getTuyaAccounts, getTuyaClient } from "../tuya";
+import { encryptSecret, SecretsKeyMissingError } from "../secrets";
+import { syncRealtimeSources } from "../jobs/realtime";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const RESERVED_IDS = new Set([DEFAULT_ACCOUNT_ID, "singleton"]); // "singleton" is the counters' totals row
+
+// Request body for adding or editing an account
+type AccountBody = {
+  id?: string;
+  name?: string;
+  endpoint?: string;
+  accessId?: string;
+  secret?: string;
+  isActive?: boolean;
+};
+
+// A body with everything an account needs to be created
+type NewAccountBody = AccountBody & { id: string; name: string; endpoint: string; accessId: string; secret: string };
+
+const REQUIRED_ERROR = "name, endpoint, accessId and secret are required";
+
+function isNewAccount(body: AccountBody): body is NewAccountBody {
+  return Boolean(body.id && body.name && body.endpoint && body.accessId && body.secret);
+}
+
+// Never send the secret (encrypted or not) back to the client
+function publicAccount(row: TuyaAccount): Omit<TuyaAccount, "secretEnc"> {
+  const { secretEnc, ...rest } = row;
+  return rest;
+}
+
+// Resubscribe the realtime feed to the changed account list, without holding up the response
+function resyncRealtime(changedAccountId?: string) {
+  syncRealtimeSources(changedAccountId).catch((e) => console.error("[/api/tuya/accounts] Realtime resync error:", e));
+}
+
+function validate(body: AccountBody, creating: boolean): string | null {
+  for (const key of ["id", "name", "endpoint", "accessId", "secret"] as const) {
+    if (body[key] !== undefined && typeof body[key] !== "string") return `${key} must be a string`;
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") return "isActive must be a boolean";
+  if (creating && (!ID_PATTERN.test(body.id ?? "") || RESERVED_IDS.has(body.id ?? ""))) {
+    return "id must be a lowercase slug (a-z, 0-9, -) and not 'default'";
+  }
+  if (creating && !isNewAccount(body)) return REQUIRED_ERROR;
+  if (body.endpoint !== undefined && !/^(https:\/\/|sim:\/\/)/.test(body.endpoint)) {
+    return "endpoint must be an https:// Tuya OpenAPI URL (or sim://)";
+  }
+  return null;
+}
+
+// GET /api/tuya/accounts - Env-configured account (read-only) + stored accounts
+router.get("/", async (_req, res) => {
+  try {
+    const [rows, active] = await Promise.all([
+      prisma.tuyaAccount.findMany({ orderBy: { createdAt: "asc" } }),
+      getTuyaAccounts()
+    ]);
+    const env = active.find((a) => a.id === DEFAULT_ACCOUNT_ID);
+    res.json({
+      ok: true,
+      accounts: [
+        ...(env ? [{ id: env.id, name: env.name, endpoint: env.endpoint, accessId: env.accessId, isActive: true, fromEnv: true }] : []),
+        ...rows.map(publicAccount)
+      ]
+    });
+  } catch (error) {
+    console.error("[/api/tuya/accounts] GET error:", error);
+    res.status(500).json({ ok: false, error: "Failed to list accounts" });
+  }
+});
+
+// POST /api/tuya/accounts - Add an account { id, name, endpoint, accessId, secret }
+router.post("/", async (req, res) => {
+  try {
+    const body: AccountBody = req.body ?? {};
+    const invalid = validate(body, true);
+    if (invalid || !isNewAccount(body)) return res.status(400).json({ ok: false, error: invalid ?? REQUIRED_ERROR });
+
+    const account = await prisma.tuyaAccount.create({
+      data: {
+        id: body.id,
+        name: body.name,
+        endpoint: body.endpoint,
+        accessId: body.accessId,
+        secretEnc: encryptSecret(body.secret),
+        isActive: body.isActive ?? true
+      }
+    });
+    clearTuyaAccountCache();
+    resyncRealtime();
+    res.json({ ok: true, account: publicAccount(account) });
+  } catch (error: any) {
+    if (error instanceof SecretsKeyMissingError) return res.status(400).json({ ok: false, error: error.message });
+    if (error?.code === "P2002") return res.status(409).json({ ok: false, error: "An account with this id already exists" });
+    console.error("[/api/tuya/accounts] POST error:", error);
+    res.status(500).json({ ok: false, error: "Failed to add account" });
+  }
+});
+
+// PUT /api/tuya/accounts/:id - Edit; omit secret to keep the stored one
+router.put("/:id", async (req, res) => {
+  try {
+    const body: AccountBody = req.body ?? {};
+    const invalid = validate(body, false);
+    if (invalid) return res.status(400).json({ ok: false, error: invalid });
+
+    const existing = await prisma.tuyaAccount.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ ok: false, error: "Account not found" });
+
+    const account = await prisma.tuyaAccount.update({
+      where: { id: req.params.id },
+      data: {
+        name: body.name,
+        endpoint: body.endpoint,
+        accessId: body.accessId,
+        secretEnc: body.secret ? encryptSecret(body.secret) : undefined,
+        isActive: body.isActive
+      }
+    });
+    clearTuyaAccountCache();
+    resyncRealtime(account.id);
+    res.json({ ok: true, account: publicAccount(account) });
+  } catch (error) {
+    if (error instanceof SecretsKeyMissingError) return res.status(400).json({ ok: false, error: error.message });
+    console.error("[/api/tuya/accounts/:id] PUT error:", error);
+    res.status(500).json({ ok: false, error: "Failed to update account" });
+  }
+});
+
+// DELETE /api/tuya/accounts/:id - Its devices keep their history and are flagged removed in the same transaction
+router.delete("/:id", async (req, res) => {
+  try {
+    const existing = await prisma.tuyaAccount.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ ok: false, error: "Account not found" });
+
+    const [, removed] = await prisma.$transaction([
+      prisma.tuyaAccount.delete({ where: { id: req.params.id } }),
+      prisma.device.updateMany({
+        where: { accountId: req.params.id, removedAtUtc: null },
+        data: { removedAtUtc: new Date() }
+      })
+    ]);
+    clearTuyaAccountCache();
+    resyncRealtime();
+    res.json({ ok: true, devicesRemoved: removed.count });
+  } catch (error: any) {
+    if (error?.code === "P2025") return res.status(404).json({ ok: false, error: "Account not found" });
+    console.error("[/api/tuya/accounts/:id] DELETE error:", error);
+    res.status(500).json({ ok: false, error: "Failed to delete account" });
+  }
+});
+
+// POST /api/tuya/accounts/:id/test - Check credentials with one device-list call
+router.post("/:id/test", async (req, res) => {
+  try {
+    const tuya = await getTuyaClient(req.params.id);
+    const resp: any = await tuya.request({
+      path: "/v1.0/iot-01/associated-users/devices",
+      method: "GET",
+      query: { page_no: 1, page_size: 1, size: 1 }
+    });
+    res.json({ ok: Boolean(resp?.success), code: resp?.code, msg: resp?.msg, masterKillSwitchEnabled: resp?.masterKillSwitchEnabled });
+  } catch (error: any) {
+    res.status(502).json({ ok: false, error: error?.message || "Account test failed" });
+  }
+});
+
+export default router;
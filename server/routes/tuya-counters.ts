@@ -1,15 +1,114 @@
 import { Router } from "express";
-import { getCounters, resetCounters } from "../storage.tuyaCounters";
+import { getAccountCounters, getCallerCounts, getCounterBuckets, getCounters, resetCounters } from "../storage.tuyaCounters";
+import { getPollerSettings } from "../storage.poller";
+import { getPlannedCallsPerHour } from "../jobs/poller";
+import { getQuotaReport } from "../quota";
+import { guardFor, getResilienceSnapshots } from "../tuya.guard";
+import { DEFAULT_ACCOUNT_ID, TUYA_CALLERS, getTuyaAccounts, type TuyaCaller } from "../tuya";
 
 export const tuyaCountersRouter = Router();
 
+// Installation-wide totals plus a per-account breakdown (counters + circuit breaker)
+async function countersPayload() {
+  const [snapshot, byAccount, accounts] = await Promise.all([getCounters(), getAccountCounters(), getTuyaAccounts()]);
+  const resilience = getResilienceSnapshots();
+  const first = accounts[0]?.id ?? DEFAULT_ACCOUNT_ID;
+  return {
+    ...snapshot,
+    resilience: resilience[first],
+    accounts: accounts.map((a) => ({
+      accountId: a.id,
+      name: a.name,
+      endpoint: a.endpoint,
+      ...(byAccount[a.id] ?? null),
+      resilience: resilience[a.id] ?? null,
+    })),
+  };
+}
+
 tuyaCountersRouter.get("/", async (_req, res) => {
-  const snapshot = await getCounters();
-  res.json(snapshot);
+  res.json(await countersPayload());
+});
+
+// ?accountId= resets one account only
+tuyaCountersRouter.post("/reset", async (req, res) => {
+  await resetCounters(req.query.accountId ? String(req.query.accountId) : undefined);
+  res.json({ ok: true, ...(await countersPayload()) });
+});
+
+// Calls per UTC hour or day: ?granularity=hour|day&since=ISO&accountId= (default: last 48 hours / 31 days)
+tuyaCountersRouter.get("/buckets", async (req, res) => {
+  const granularity = String(req.query.granularity || "hour");
+  if (granularity !== "hour" && granularity !== "day") {
+    return res.status(400).json({ ok: false, error: "granularity must be 'hour' or 'day'" });
+  }
+  const since = req.query.since
+    ? new Date(String(req.query.since))
+    : new Date(Date.now() - (granularity === "hour" ? 48 : 31 * 24) * 60 * 60 * 1000);
+  if (Number.isNaN(since.getTime())) {
+    return res.status(400).json({ ok: false, error: "since must be an ISO date" });
+  }
+  try {
+    const buckets = await getCounterBuckets(granularity, since, req.query.accountId ? String(req.query.accountId) : undefined);
+    res.json({ ok: true, granularity, since: since.toISOString(), buckets });
+  } catch (error: any) {
+    res.status(500).json({ ok: false, error: error?.message || "Failed to load counter buckets" });
+  }
+});
+
+// Calls per UTC day and caller (poller, dashboard, ask, ...): ?days=14 (max 90)
+tuyaCountersRouter.get("/callers", async (req, res) => {
+  const days = Math.min(Math.max(Math.floor(Number(req.query.days) || 14), 1), 90);
+  const now = new Date();
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)));
+  try {
+    const rows = await getCallerCounts(since);
+    const byDay = new Map<string, Record<string, number>>();
+    for (let i = 0; i < days; i++) {
+      byDay.set(new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10), {});
+    }
+    const totals: Record<string, number> = {};
+    for (const r of rows) {
+      const day = r.day.toISOString().slice(0, 10);
+      const entry = byDay.get(day) ?? {};
+      entry[r.caller] = (entry[r.caller] ?? 0) + r.calls;
+      byDay.set(day, entry);
+      totals[r.caller] = (totals[r.caller] ?? 0) + r.calls;
+    }
+    res.json({
+      ok: true,
+      since: since.toISOString(),
+      // known callers in a fixed order, then anything recorded under an older name
+      callers: [
+        ...TUYA_CALLERS.filter((c) => totals[c]),
+        ...Object.keys(totals).filter((c) => !TUYA_CALLERS.includes(c as TuyaCaller)),
+      ],
+      totals,
+      days: Array.from(byDay.entries()).map(([day, calls]) => ({ day, ...calls })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ ok: false, error: error?.message || "Failed to load caller breakdown" });
+  }
+});
+
+// Monthly quota: usage so far, end-of-month projection, throttle state and burn-down points
+tuyaCountersRouter.get("/quota", async (_req, res) => {
+  try {
+    res.json({ ok: true, ...(await getQuotaReport(await getPollerSettings(), getPlannedCallsPerHour())) });
+  } catch (error: any) {
+    res.status(500).json({ ok: false, error: error?.message || "Failed to load quota" });
+  }
 });
 
-tuyaCountersRouter.post("/reset", async (_req, res) => {
-  await resetCounters();
-  const snapshot = await getCounters();
-  res.json({ ok: true, ...snapshot });
-});
\ No newline at end of file
+// Circuit breaker state, retry counts and rate-limit waits, per account
+tuyaCountersRouter.get("/resilience", (_req, res) => {
+  res.json(getResilienceSnapshots());
+});
+
+// Manually close an account's circuit breaker (e.g. after fixing credentials)
+tuyaCountersRouter.post("/breaker/reset", (req, res) => {
+  const accountId = req.query.accountId ? String(req.query.accountId) : DEFAULT_ACCOUNT_ID;
+  const guard = guardFor(accountId);
+  guard.resetBreaker();
+  res.json({ ok: true, accountId, ...guard.snapshot() });
+});
@@ -0,0 +1,35 @@
+// server/secrets.ts
+// AES-256-GCM for credentials stored in the database (e.g. Tuya account secrets).
+// Key: SECRETS_KEY env var, any string (hashed to 32 bytes). Values are stored
+// as "v1:<iv>:<tag>:<ciphertext>", all base64.
+import crypto from "crypto";
+
+const VERSION = "v1";
+
+export class SecretsKeyMissingError extends Error {
+  constructor() {
+    super("SECRETS_KEY is not set; cannot encrypt or decrypt stored credentials");
+    this.name = "SecretsKeyMissingError";
+  }
+}
+
+function key(): Buffer {
+  const raw = process.env.SECRETS_KEY || "";
+  if (!raw) throw new SecretsKeyMissingError();
+  return crypto.createHash("sha256").update(raw).digest();
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key(), iv);
+  const enc = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), enc.toString("base64")].join(":");
+}
+
+export function decryptSecret(stored: string): string {
+  const [version, iv, tag, data] = stored.split(":");
+  if (version !== VERSION || !iv || !tag || !data) throw new Error("Unrecognised encrypted secret format");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,162 @@
+// server/sensors.ts
+// Category-aware metric registry for non-energy devices (temperature/humidity,
+// door contacts, leak sensors, ...). Each category maps its DPs to named
+// metrics stored as SensorReading rows and rolled up hourly.
+import { PrismaClient } from "@prisma/client";
+import { getDpScales } from "./dpscale";
+import { type TuyaStatus } from "./normalize";
+
+const prisma = new PrismaClient();
+
+/**
+ * One metric of a sensor category. Numeric DPs are scaled with the device's
+ * specification (falling back to `scale`); state DPs become 1 (`truthy`) or 0.
+ */
+export type SensorMetricDef = {
+  key: string;                 // stored in SensorReading.metric / AlertRule.metric
+  label: string;
+  codes: string[];             // DP codes carrying the value, first present wins
+  kind: "number" | "state";
+  unit: string;
+  scale?: number;              // default 10^-scale factor for numeric DPs
+  truthy?: Array<string | boolean>;
+  states?: [string, string];   // labels for 0 / 1
+  widget: "gauge" | "state" | "battery";
+};
+
+export type SensorCategory = { name: string; metrics: SensorMetricDef[] };
+
+const battery: SensorMetricDef = {
+  key: "batteryPct", label: "Battery", codes: ["battery_percentage", "va_battery"], kind: "number", unit: "%", scale: 0, widget: "battery"
+};
+
+export const SENSOR_CATEGORIES: Record<string, SensorCategory> = {
+  wsdcg: {
+    name: "Temperature & humidity sensor",
+    metrics: [
+      { key: "temperatureC", label: "Temperature", codes: ["va_temperature", "temp_current"], kind: "number", unit: "°C", scale: 1, widget: "gauge" },
+      { key: "humidityPct", label: "Humidity", codes: ["va_humidity", "humidity_value"], kind: "number", unit: "%", scale: 0, widget: "gauge" },
+      battery,
+    ],
+  },
+  mcs: {
+    name: "Door/window contact",
+    metrics: [
+      { key: "contactOpen", label: "Contact", codes: ["doorcontact_state"], kind: "state", unit: "", truthy: [true, "true", "open"], states: ["Closed", "Open"], widget: "state" },
+      battery,
+    ],
+  },
+  sj: {
+    name: "Water leak sensor",
+    metrics: [
+      { key: "leakDetected", label: "Leak", codes: ["watersensor_state"], kind: "state", unit: "", truthy: ["alarm", "1"], states: ["Dry", "Leak"], widget: "state" },
+      battery,
+    ],
+  },
+  ywbj: {
+    name: "Smoke detector",
+    metrics: [
+      { key: "smokeDetected", label: "Smoke", codes: ["smoke_sensor_status", "smoke_sensor_state"], kind: "state", unit: "", truthy: ["alarm", "1"], states: ["Clear", "Smoke"], widget: "state" },
+      battery,
+    ],
+  },
+  pir: {
+    name: "Motion sensor",
+    metrics: [
+      { key: "motion", label: "Motion", codes: ["pir"], kind: "state", unit: "", truthy: ["pir"], states: ["None", "Motion"], widget: "state" },
+      battery,
+    ],
+  },
+  co2bj: {
+    name: "CO2 sensor",
+    metrics: [
+      { key: "co2Ppm", label: "CO2", codes: ["co2_value"], kind: "number", unit: "ppm", scale: 0, widget: "gauge" },
+      { key: "temperatureC", label: "Temperature", codes: ["temp_current"], kind: "number", unit: "°C", scale: 1, widget: "gauge" },
+      { key: "humidityPct", label: "Humidity", codes: ["humidity_value"], kind: "number", unit: "%", scale: 0, widget: "gauge" },
+    ],
+  },
+  ldcg: {
+    name: "Light sensor",
+    metrics: [
+      { key: "luxLevel", label: "Brightness", codes: ["bright_value"], kind: "number", unit: "lux", scale: 0, widget: "gauge" },
+      battery,
+    ],
+  },
+};
+
+export function isSensorCategory(category: string | null | undefined): boolean {
+  return !!category && category in SENSOR_CATEGORIES;
+}
+
+/**
+ * Every distinct sensor metric key, across categories.
+ */
+export function sensorMetricKeys(): string[] {
+  const keys = new Set<string>();
+  for (const c of Object.values(SENSOR_CATEGORIES)) for (const m of c.metrics) keys.add(m.key);
+  return Array.from(keys);
+}
+
+export function isSensorMetric(metric: string): boolean {
+  return sensorMetricKeys().includes(metric);
+}
+
+/**
+ * Pull a category's metrics out of a status payload. Metrics whose DP is
+ * missing or unparsable are left out.
+ */
+export function decodeSensorStatus(
+  category: string, status: TuyaStatus, scales: Record<string, { scale: number }> = {}
+): Array<{ metric: SensorMetricDef; value: number }> {
+  const def = SENSOR_CATEGORIES[category];
+  if (!def) return [];
+
+  const out: Array<{ metric: SensorMetricDef; value: number }> = [];
+  for (const metric of def.metrics) {
+    const dp = (status || []).find((d) => metric.codes.includes(d.code));
+    if (!dp || dp.value === null || dp.value === "") continue;
+
+    if (metric.kind === "state") {
+      const raw = typeof dp.value === "string" ? dp.value.toLowerCase() : dp.value;
+      out.push({ metric, value: (metric.truthy ?? [true]).includes(raw) ? 1 : 0 });
+      continue;
+    }
+
+    const n = Number(dp.value);
+    if (typeof dp.value === "boolean" || !Number.isFinite(n)) continue;
+    const scale = scales[dp.code]?.scale ?? metric.scale ?? 0;
+    out.push({ metric, value: n / Math.pow(10, scale) });
+  }
+  return out;
+}
+
+// deviceId -> category, filled by discovery so ingestion skips the DB
+const deviceCategories = new Map<string, string | null>();
+
+export function rememberDeviceCategory(deviceId: string, category: string | null | undefined) {
+  deviceCategories.set(deviceId, category ?? null);
+}
+
+export async function getDeviceCategory(deviceId: string): Promise<string | null> {
+  if (deviceCategories.has(deviceId)) return deviceCategories.get(deviceId)!;
+  const row = await prisma.device.findUnique({ where: { deviceId }, select: { category: true } });
+  const category = row?.category ?? null;
+  deviceCategories.set(deviceId, category);
+  return category;
+}
+
+/**
+ * Decode a sensor's status with its own scales and store one SensorReading per metric.
+ * Returns how many readings were stored.
+ */
+export async function storeSensorReadings(
+  deviceId: string, category: string, status: TuyaStatus, ts: Date, source: string = "live"
+): Promise<number> {
+  const readings = decodeSensorStatus(category, status, await getDpScales(deviceId));
+  if (readings.length === 0) return 0;
+  const receivedAtUtc = new Date();
+  await prisma.sensorReading.createMany({
+    data: readings.map(({ metric, value }) => ({ deviceId, tsUtc: ts, metric: metric.key, value, source, receivedAtUtc })),
+  });
+  return readings.length;
+}
@@ -1,6 +1,7 @@
 import { eq } from "drizzle-orm";
 import { db } from "./db"; // your drizzle db instance
-import { pollerSettings } from "../shared/schema";
+import { pollerSettings, type QuietWindow } from "../shared/schema";
+import { effectiveFlags, nextTransition } from "./logic/quietWindows";
 
 export type PollerSettings = {
   energyEnabled: boolean;
@@ -10,8 +11,15 @@ export type PollerSettings = {
   dashboardRefreshEnabled: boolean;
   dashboardRefreshMs: number;
   masterKillSwitch: boolean;
+  callsPerHourBudget: number;
+  monthlyCallQuota: number;
+  quotaAction: QuotaAction;
+  quietWindows: QuietWindow[];
 };
 
+export type QuotaAction = "stretch" | "warn" | "off";
+export const QUOTA_ACTIONS: QuotaAction[] = ["stretch", "warn", "off"];
+
 const SINGLETON_ID = "singleton";
 
 export async function ensureDefaultPollerSettings(): Promise<void> {
@@ -35,6 +43,35 @@ export async function getPollerSettings(): Promise<PollerSettings> {
     dashboardRefreshEnabled: !!row.dashboardRefreshEnabled,
     dashboardRefreshMs: row.dashboardRefreshMs,
     masterKillSwitch: !!row.masterKillSwitch,
+    callsPerHourBudget: row.callsPerHourBudget,
+    monthlyCallQuota: row.monthlyCallQuota,
+    quotaAction: (QUOTA_ACTIONS.includes(row.quotaAction as QuotaAction) ? row.quotaAction : "stretch") as QuotaAction,
+    quietWindows: row.quietWindows ?? [],
+  };
+}
+
+/**
+ * Settings with the quiet windows applied: what the pollers, the Tuya client
+ * and every kill-switch check obey. getPollerSettings() returns the manual values.
+ */
+export async function getEffectivePollerSettings(at: Date = new Date()): Promise<PollerSettings> {
+  const s = await getPollerSettings();
+  const e = effectiveFlags(s, s.quietWindows, at);
+  return { ...s, healthEnabled: e.healthEnabled, energyEnabled: e.energyEnabled, masterKillSwitch: e.masterKillSwitch };
+}
+
+/**
+ * Effective flags right now, the windows causing them and the next scheduled change.
+ */
+export function describeEffectiveState(s: PollerSettings, at: Date = new Date()) {
+  const e = effectiveFlags(s, s.quietWindows, at);
+  const next = nextTransition(s, s.quietWindows, at);
+  return {
+    healthEnabled: e.healthEnabled,
+    energyEnabled: e.energyEnabled,
+    masterKillSwitch: e.masterKillSwitch,
+    activeWindows: e.activeWindows,
+    nextTransition: next ? { at: next.at.toISOString(), ...next.flags } : null,
   };
 }
 
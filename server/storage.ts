@@ -70,6 +70,15 @@ export class DatabaseStorage implements IStorage {
       .set({ 
         deviceName: settings.deviceName,
         dataStorageEnabled: settings.dataStorageEnabled,
+        // polling fields are only touched when the caller sends them
+        pollMode: settings.pollMode,
+        healthIntervalMs: settings.healthIntervalMs,
+        energyIntervalMs: settings.energyIntervalMs,
+        adaptiveFastMs: settings.adaptiveFastMs,
+        adaptiveSlowMs: settings.adaptiveSlowMs,
+        adaptivePowerThresholdW: settings.adaptivePowerThresholdW,
+        controlAllowed: settings.controlAllowed,
+        energyCounterMode: settings.energyCounterMode,
         updatedAt: new Date() 
       })
       .where(eq(deviceSettings.deviceId, settings.deviceId))
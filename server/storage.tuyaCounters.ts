@@ -1,8 +1,9 @@
 // server/storage.tuyaCounters.ts
-import { eq, sql } from "drizzle-orm";
+import { and, asc, eq, gte, lt, ne, sql } from "drizzle-orm";
 import { db } from "./db";                  // your Drizzle instance
-import { tuyaCounters } from "../shared/schema";
+import { tuyaCallerCounts, tuyaCounterBuckets, tuyaCounters } from "../shared/schema";
 
+// "singleton" holds installation-wide totals; every other row is one Tuya account
 const ID = "singleton";
 
 export type TuyaCounterSnapshot = {
@@ -15,16 +16,11 @@ export type TuyaCounterSnapshot = {
   lastPingAt: Date | null;
 };
 
-export async function ensureCounterRow() {
-  const rows = await db.select().from(tuyaCounters).where(eq(tuyaCounters.id, ID));
-  if (rows.length === 0) {
-    await db.insert(tuyaCounters).values({ id: ID }).returning();
-  }
+export async function ensureCounterRow(id: string = ID) {
+  await db.insert(tuyaCounters).values({ id }).onConflictDoNothing();
 }
 
-export async function getCounters(): Promise<TuyaCounterSnapshot> {
-  await ensureCounterRow();
-  const [row] = await db.select().from(tuyaCounters).where(eq(tuyaCounters.id, ID));
+function toSnapshot(row: typeof tuyaCounters.$inferSelect): TuyaCounterSnapshot {
   return {
     total: row.total ?? 0,
     devicesCount: row.devicesCount ?? 0,
@@ -36,10 +32,33 @@ export async function getCounters(): Promise<TuyaCounterSnapshot> {
   };
 }
 
+/**
+ * Installation-wide totals, or one account's counters when accountId is given.
+ */
+export async function getCounters(accountId?: string): Promise<TuyaCounterSnapshot> {
+  const id = accountId ?? ID;
+  await ensureCounterRow(id);
+  const [row] = await db.select().from(tuyaCounters).where(eq(tuyaCounters.id, id));
+  return toSnapshot(row);
+}
+
+/**
+ * Counters for every account that has made at least one call, keyed by account id.
+ */
+export async function getAccountCounters(): Promise<Record<string, TuyaCounterSnapshot>> {
+  const rows = await db.select().from(tuyaCounters).where(ne(tuyaCounters.id, ID));
+  return Object.fromEntries(rows.map((row) => [row.id, toSnapshot(row)]));
+}
+
 export type TuyaCallKind = "devices" | "status" | "logs" | "other";
 
-export async function noteTuyaCall(kind: TuyaCallKind) {
+/**
+ * Count one billable call against the installation totals, the calling account
+ * and the feature that made it.
+ */
+export async function noteTuyaCall(kind: TuyaCallKind, accountId: string, caller: string) {
   await ensureCounterRow();
+  await ensureCounterRow(accountId);
   // Atomic in-DB increments
   const sets = {
     devices: sql`devices_count = ${tuyaCounters.devicesCount} + 1`,
@@ -55,14 +74,100 @@ export async function noteTuyaCall(kind: TuyaCallKind) {
       since_reset = ${tuyaCounters.sinceReset} + 1,
       ${sets[kind]},
       last_ping_at = now()
-    WHERE ${tuyaCounters.id} = ${ID};
+    WHERE ${tuyaCounters.id} IN (${ID}, ${accountId});
+  `);
+
+  // Hourly and daily buckets (UTC) for the same rows
+  const ids = Array.from(new Set([ID, accountId]));
+  await db.execute(sql`
+    INSERT INTO ${tuyaCounterBuckets} (counter_id, granularity, bucket_start, calls)
+    SELECT c.id, g.granularity, date_trunc(g.granularity, now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC', 1
+    FROM (VALUES ${sql.join(ids.map((id) => sql`(${id})`), sql`, `)}) AS c(id),
+         (VALUES ('hour'), ('day')) AS g(granularity)
+    ON CONFLICT (counter_id, granularity, bucket_start)
+    DO UPDATE SET calls = ${tuyaCounterBuckets.calls} + 1;
+  `);
+
+  await db.execute(sql`
+    INSERT INTO ${tuyaCallerCounts} (day, caller, calls)
+    VALUES (date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC', ${caller}, 1)
+    ON CONFLICT (day, caller) DO UPDATE SET calls = ${tuyaCallerCounts.calls} + 1;
   `);
 }
 
-export async function resetCounters() {
+/**
+ * Calls per UTC day and caller since the given time, oldest day first.
+ */
+export async function getCallerCounts(since: Date) {
+  const rows = await db
+    .select()
+    .from(tuyaCallerCounts)
+    .where(gte(tuyaCallerCounts.day, since))
+    .orderBy(asc(tuyaCallerCounts.day), asc(tuyaCallerCounts.caller));
+  return rows.map((r) => ({ day: r.day, caller: r.caller, calls: r.calls }));
+}
+
+/**
+ * Delete per-caller counts older than the cutoff. Returns the number removed.
+ */
+export async function pruneCallerCounts(olderThan: Date): Promise<number> {
+  const deleted = await db
+    .delete(tuyaCallerCounts)
+    .where(lt(tuyaCallerCounts.day, olderThan))
+    .returning({ caller: tuyaCallerCounts.caller });
+  return deleted.length;
+}
+
+export type BucketGranularity = "hour" | "day";
+
+/**
+ * Calls per hour or day since the given time, oldest first. Installation-wide
+ * unless accountId is given; buckets without calls are absent.
+ */
+export async function getCounterBuckets(granularity: BucketGranularity, since: Date, accountId?: string) {
+  const rows = await db
+    .select({ bucketStart: tuyaCounterBuckets.bucketStart, calls: tuyaCounterBuckets.calls })
+    .from(tuyaCounterBuckets)
+    .where(and(
+      eq(tuyaCounterBuckets.counterId, accountId ?? ID),
+      eq(tuyaCounterBuckets.granularity, granularity),
+      gte(tuyaCounterBuckets.bucketStart, since),
+    ))
+    .orderBy(asc(tuyaCounterBuckets.bucketStart));
+  return rows.map((r) => ({ bucketStart: r.bucketStart, calls: r.calls }));
+}
+
+/**
+ * Total calls since the given time, from the daily buckets (since should be a UTC midnight).
+ */
+export async function getCallsSince(since: Date, accountId?: string): Promise<number> {
+  const [row] = await db
+    .select({ calls: sql<string>`coalesce(sum(${tuyaCounterBuckets.calls}), 0)` })
+    .from(tuyaCounterBuckets)
+    .where(and(
+      eq(tuyaCounterBuckets.counterId, accountId ?? ID),
+      eq(tuyaCounterBuckets.granularity, "day"),
+      gte(tuyaCounterBuckets.bucketStart, since),
+    ));
+  return Number(row?.calls ?? 0);
+}
+
+/**
+ * Delete buckets of one granularity older than the cutoff. Returns the number removed.
+ */
+export async function pruneCounterBuckets(granularity: BucketGranularity, olderThan: Date): Promise<number> {
+  const deleted = await db
+    .delete(tuyaCounterBuckets)
+    .where(and(eq(tuyaCounterBuckets.granularity, granularity), lt(tuyaCounterBuckets.bucketStart, olderThan)))
+    .returning({ counterId: tuyaCounterBuckets.counterId });
+  return deleted.length;
+}
+
+/**
+ * Reset "since reset" for every row, or for one account only.
+ */
+export async function resetCounters(accountId?: string) {
   await ensureCounterRow();
-  await db
-    .update(tuyaCounters)
-    .set({ sinceReset: 0, resetAt: new Date() })
-    .where(eq(tuyaCounters.id, ID));
+  const update = db.update(tuyaCounters).set({ sinceReset: 0, resetAt: new Date() });
+  await (accountId ? update.where(eq(tuyaCounters.id, accountId)) : update);
 }
\ No newline at end of file
@@ -124,4 +124,11 @@ export function getIstYearRange(yyyy?: number): { start: Date; end: Date } {
   }
   
   return { start, end };
-}
\ No newline at end of file
+}
+/**
+ * IST wall-clock time of day as "HH:MM" (for daily schedules)
+ */
+export function istClock(d: Date): string {
+  const istOffset = 5.5 * 60 * 60 * 1000;
+  return new Date(d.getTime() + istOffset).toISOString().substring(11, 16);
+}
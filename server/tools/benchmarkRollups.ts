@@ -0,0 +1,32 @@
+// server/tools/benchmarkRollups.ts
+// Times the per-window rollup path against the set-based statements over a
+// recent span and prints rows per second for each level:
+//   npm run rollups:benchmark [-- --hours 24] [-- --device <deviceId>]
+import { benchmarkRollups } from "../jobs/rollups";
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const hours = Number(arg("--hours") ?? 24);
+  if (!Number.isFinite(hours) || hours <= 0) throw new Error("--hours must be a positive number");
+  const to = new Date();
+  const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+
+  console.log(`Benchmarking rollups from ${from.toISOString()} to ${to.toISOString()}`);
+  for (const r of await benchmarkRollups(from, to, arg("--device"))) {
+    console.log(
+      `${r.granularity.padEnd(4)} per-window: ${r.perWindow.rows} rows in ${r.perWindow.ms} ms (${r.perWindow.rowsPerSec}/s)` +
+      `  set-based: ${r.setBased.rows} rows in ${r.setBased.ms} ms (${r.setBased.rowsPerSec}/s)  x${r.speedup}`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,29 @@
+// server/tools/repairRollups.ts
+// Reports duplicate rollup rows; with --apply, collapses them. Run it before
+// `prisma db push` adds the unique keys on Rollup1m/15m/1h, which fails while
+// duplicates exist:  npm run rollups:repair [-- --apply]
+import { collapseRollupDuplicates, findRollupDuplicates } from "../rollupRepair";
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+
+  for (const d of await findRollupDuplicates()) {
+    console.log(`${d.table}: ${d.groups} duplicated window(s), ${d.extraRows} extra row(s)`);
+    for (const e of d.examples) {
+      console.log(`  ${e.deviceId} [${e.channel || "total"}] ${new Date(e.windowUtc).toISOString()} x${e.rows}`);
+    }
+  }
+
+  if (!apply) {
+    console.log("Dry run; pass --apply to delete the extra rows.");
+    return;
+  }
+  await collapseRollupDuplicates();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
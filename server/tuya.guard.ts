@@ -0,0 +1,302 @@
+// server/tuya.guard.ts
+// Rate limiting, retries and circuit breaking around raw Tuya OpenAPI calls.
+
+const num = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+const CONFIG = {
+  RATE_PER_SEC: num(process.env.TUYA_RATE_PER_SEC, 5),
+  RATE_BURST: num(process.env.TUYA_RATE_BURST, 10),
+  MAX_RETRIES: num(process.env.TUYA_MAX_RETRIES, 3),
+  BACKOFF_BASE_MS: num(process.env.TUYA_BACKOFF_BASE_MS, 500),
+  BACKOFF_MAX_MS: num(process.env.TUYA_BACKOFF_MAX_MS, 10_000),
+  BREAKER_THRESHOLD: num(process.env.TUYA_BREAKER_THRESHOLD, 5),
+  BREAKER_COOLDOWN_MS: num(process.env.TUYA_BREAKER_COOLDOWN_MS, 60_000),
+};
+
+// Tuya response codes worth retrying as-is
+const TRANSIENT_CODES = new Set([
+  500,  // system error
+  501,  // request failed
+  1013, // request time invalid (clock skew / slow hop)
+]);
+
+// Transient codes returned before Tuya acts on the request (safe to resend a command)
+const REJECTED_CODES = new Set([1013]);
+
+// Tuya response codes that mean the access token must be re-issued
+const TOKEN_CODES = new Set([
+  1010, // token invalid
+  1011, // token expired
+]);
+
+/**
+ * Thrown instead of calling Tuya while the circuit breaker is open.
+ */
+export class TuyaUnavailableError extends Error {
+  readonly code = "TUYA_UNAVAILABLE";
+  readonly status = 503;
+  constructor(public readonly retryAfterMs: number, public readonly lastError: string | null) {
+    super(`Tuya API unavailable (circuit open, retry in ${Math.ceil(retryAfterMs / 1000)}s)`);
+    this.name = "TuyaUnavailableError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+type BreakerState = "closed" | "open" | "half-open";
+
+function newStats() {
+  return {
+    requests: 0,
+    attempts: 0,
+    failures: 0,
+    retries: 0,
+    retriesByReason: {} as Record<string, number>,
+    tokenRefreshes: 0,
+    rejectedWhileOpen: 0,
+    rateLimitedWaits: 0,
+    rateLimitedMs: 0,
+  };
+}
+
+function backoffMs(attempt: number) {
+  const exp = Math.min(CONFIG.BACKOFF_MAX_MS, CONFIG.BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(exp / 2 + Math.random() * (exp / 2)); // jitter
+}
+
+// Network failures that never reached Tuya (the connection was not made)
+const UNSENT_ERROR_CODES = new Set(["ENOTFOUND", "EAI_AGAIN", "ECONNREFUSED"]);
+
+// Network failures after which the request may or may not have been handled
+const INTERRUPTED_ERROR_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "ERR_CANCELED", "EPIPE"]);
+
+// Thrown errors: retry network failures, HTTP 429 and 5xx. Anything else
+// (a bug, a malformed response, a 4xx) fails straight away.
+function isTransientError(err: any) {
+  const status = err?.response?.status;
+  if (status != null) return status === 429 || status >= 500;
+  return UNSENT_ERROR_CODES.has(err?.code) || INTERRUPTED_ERROR_CODES.has(err?.code) || err?.name === "AbortError";
+}
+
+// Whether a failed non-idempotent request (e.g. a command) is safe to resend:
+// only when Tuya certainly did not act on it
+function wasNotHandled(err: any) {
+  return err?.response?.status === 429 || UNSENT_ERROR_CODES.has(err?.code);
+}
+
+export type TuyaResilienceSnapshot = {
+  breaker: {
+    state: BreakerState;
+    consecutiveFailures: number;
+    openedAt: Date | null;
+    retryAt: Date | null;
+    lastError: string | null;
+  };
+  stats: ReturnType<typeof newStats>;
+  config: typeof CONFIG;
+};
+
+/**
+ * Token bucket + circuit breaker for one Tuya cloud project. Each account
+ * gets its own guard, so one region being down (or one bad secret) does not
+ * block calls to the others.
+ */
+export class TuyaGuard {
+  // --- token bucket ---
+  private tokens = CONFIG.RATE_BURST;
+  private refilledAt = Date.now();
+
+  // --- circuit breaker ---
+  private breakerState: BreakerState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private probeInFlight = false;
+
+  private stats = newStats();
+
+  constructor(readonly name: string) {}
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(CONFIG.RATE_BURST, this.tokens + ((now - this.refilledAt) / 1000) * CONFIG.RATE_PER_SEC);
+    this.refilledAt = now;
+  }
+
+  private async takeToken() {
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) / CONFIG.RATE_PER_SEC) * 1000);
+      this.stats.rateLimitedWaits++;
+      this.stats.rateLimitedMs += waitMs;
+      await sleep(waitMs);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private admit() {
+    if (this.breakerState === "open") {
+      const elapsed = Date.now() - (this.openedAt ?? 0);
+      if (elapsed < CONFIG.BREAKER_COOLDOWN_MS) {
+        this.stats.rejectedWhileOpen++;
+        throw new TuyaUnavailableError(CONFIG.BREAKER_COOLDOWN_MS - elapsed, this.lastError);
+      }
+      this.breakerState = "half-open";
+    }
+    if (this.breakerState === "half-open") {
+      // only one probe request at a time while half-open
+      if (this.probeInFlight) {
+        this.stats.rejectedWhileOpen++;
+        throw new TuyaUnavailableError(1000, this.lastError);
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  private onSuccess() {
+    if (this.breakerState !== "closed") console.log(`[TUYA] Circuit closed (${this.name})`);
+    this.breakerState = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  private onFailure(reason: string) {
+    this.stats.failures++;
+    this.lastError = reason;
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    if (this.breakerState === "half-open" || this.consecutiveFailures >= CONFIG.BREAKER_THRESHOLD) {
+      if (this.breakerState !== "open") {
+        console.warn(`[TUYA] Circuit opened (${this.name}) after ${this.consecutiveFailures} failure(s): ${reason}`);
+      }
+      this.breakerState = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  private noteRetry(reason: string) {
+    this.stats.retries++;
+    this.stats.retriesByReason[reason] = (this.stats.retriesByReason[reason] ?? 0) + 1;
+  }
+
+  /**
+   * Run one logical Tuya request with rate limiting, retries, token refresh
+   * and circuit breaking. `send` performs a single HTTP attempt; `refreshToken`
+   * re-issues the access token. A non-idempotent request (a POST such as
+   * `/commands`) is only resent when Tuya cannot have acted on it already.
+   */
+  async request<T extends { success?: boolean; code?: number; msg?: string | null }>(
+    send: () => Promise<T>,
+    refreshToken: () => Promise<unknown>,
+    onAttempt?: () => void,
+    idempotent = true,
+  ): Promise<T> {
+    this.admit();
+    this.stats.requests++;
+
+    let tokenRefreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      await this.takeToken();
+      this.stats.attempts++;
+      onAttempt?.();
+
+      let res: T;
+      try {
+        res = await send();
+      } catch (err: any) {
+        const reason = err?.response?.status ? `http_${err.response.status}` : (err?.code || "network");
+        const retryable = isTransientError(err) && (idempotent || wasNotHandled(err));
+        if (retryable && attempt < CONFIG.MAX_RETRIES) {
+          this.noteRetry(reason);
+          await sleep(backoffMs(attempt));
+          continue;
+        }
+        if (isTransientError(err)) this.onFailure(`${reason}: ${err?.message || String(err)}`);
+        else this.probeInFlight = false;
+        throw err;
+      }
+
+      if (res?.success === false && res.code != null) {
+        if (TOKEN_CODES.has(res.code) && !tokenRefreshed) {
+          tokenRefreshed = true;
+          this.stats.tokenRefreshes++;
+          this.noteRetry(`code_${res.code}`);
+          try { await refreshToken(); } catch (e) { console.warn(`[TUYA] Token refresh failed (${this.name}):`, e); }
+          continue;
+        }
+        if (TRANSIENT_CODES.has(res.code)) {
+          if (attempt < CONFIG.MAX_RETRIES && (idempotent || REJECTED_CODES.has(res.code))) {
+            this.noteRetry(`code_${res.code}`);
+            await sleep(backoffMs(attempt));
+            continue;
+          }
+          this.onFailure(`code_${res.code}: ${res.msg ?? ""}`);
+          return res;
+        }
+        if (TOKEN_CODES.has(res.code)) {
+          this.onFailure(`code_${res.code}: ${res.msg ?? ""}`);
+          return res;
+        }
+      }
+
+      // Non-transient business errors (bad device id, permission) still mean Tuya is up
+      this.onSuccess();
+      return res;
+    }
+  }
+
+  snapshot(): TuyaResilienceSnapshot {
+    // surface an expired cooldown as half-open without waiting for the next call
+    const state: BreakerState =
+      this.breakerState === "open" && this.openedAt != null && Date.now() - this.openedAt >= CONFIG.BREAKER_COOLDOWN_MS
+        ? "half-open"
+        : this.breakerState;
+    return {
+      breaker: {
+        state,
+        consecutiveFailures: this.consecutiveFailures,
+        openedAt: this.openedAt != null ? new Date(this.openedAt) : null,
+        retryAt: this.openedAt != null ? new Date(this.openedAt + CONFIG.BREAKER_COOLDOWN_MS) : null,
+        lastError: this.lastError,
+      },
+      stats: { ...this.stats, retriesByReason: { ...this.stats.retriesByReason } },
+      config: CONFIG,
+    };
+  }
+
+  /**
+   * Force the breaker closed (manual recovery from the counters UI).
+   */
+  resetBreaker() {
+    this.onSuccess();
+    this.lastError = null;
+  }
+}
+
+const guards = new Map<string, TuyaGuard>();
+
+/**
+ * The guard for one account (created on first use, kept for the process lifetime).
+ */
+export function guardFor(accountId: string): TuyaGuard {
+  let guard = guards.get(accountId);
+  if (!guard) {
+    guard = new TuyaGuard(accountId);
+    guards.set(accountId, guard);
+  }
+  return guard;
+}
+
+/**
+ * Resilience state per account, e.g. { default: {...}, eu: {...} }.
+ */
+export function getResilienceSnapshots(): Record<string, TuyaResilienceSnapshot> {
+  const out: Record<string, TuyaResilienceSnapshot> = {};
+  for (const [id, guard] of Array.from(guards.entries())) out[id] = guard.snapshot();
+  return out;
+}
@@ -0,0 +1,208 @@
+// server/tuya.mq.ts
+// Tuya message service (Pulsar over WebSocket): connection, frame decoding
+// and decryption, plus a local stand-in source for offline development.
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+
+export type DeviceMessage =
+  | { type: "status"; deviceId: string; status: Array<{ code: string; value: any; t?: number }>; ts: Date }
+  | { type: "online" | "offline"; deviceId: string; ts: Date };
+
+export interface MessageSource {
+  readonly name: string;
+  start(onMessage: (msg: DeviceMessage) => Promise<void>): void;
+  stop(): void;
+  isConnected(): boolean;
+}
+
+// --- frame codec ---
+
+function md5(s: string) {
+  return crypto.createHash("md5").update(s).digest("hex");
+}
+
+export function pulsarPassword(accessId: string, accessKey: string) {
+  return md5(accessId + md5(accessKey)).substring(8, 24);
+}
+
+function decrypt(data: string, accessKey: string, encryptModel: string | undefined): string {
+  const key = Buffer.from(accessKey.substring(8, 24), "utf8");
+  const raw = Buffer.from(data, "base64");
+  if (encryptModel === "aes_gcm") {
+    const iv = raw.subarray(0, 12);
+    const tag = raw.subarray(raw.length - 16);
+    const decipher = crypto.createDecipheriv("aes-128-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(raw.subarray(12, raw.length - 16)), decipher.final()]).toString("utf8");
+  }
+  const decipher = crypto.createDecipheriv("aes-128-ecb", key, null);
+  return Buffer.concat([decipher.update(raw), decipher.final()]).toString("utf8");
+}
+
+function encrypt(plain: string, accessKey: string): string {
+  const key = Buffer.from(accessKey.substring(8, 24), "utf8");
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-128-gcm", key, iv);
+  const body = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, body, cipher.getAuthTag()]).toString("base64");
+}
+
+/**
+ * Decode one Pulsar WebSocket frame into a device message.
+ * Returns null for frames we don't ingest (other protocols, unknown bizCodes).
+ */
+export function decodeFrame(frame: { payload: string; properties?: Record<string, string> }, accessKey: string): DeviceMessage | null {
+  const envelope = JSON.parse(Buffer.from(frame.payload, "base64").toString("utf8"));
+  const data = JSON.parse(decrypt(envelope.data, accessKey, frame.properties?.em));
+
+  // protocol 4: device status report
+  if (envelope.protocol === 4 && data.devId && Array.isArray(data.status)) {
+    const status = data.status.map((dp: any) => ({ code: dp.code, value: dp.value, t: dp.t }));
+    const newest = Math.max(...status.map((dp: any) => Number(dp.t) || 0));
+    return { type: "status", deviceId: data.devId, status, ts: newest > 0 ? new Date(newest) : new Date(envelope.t ?? Date.now()) };
+  }
+
+  // protocol 20: device events (online / offline / ...)
+  if (envelope.protocol === 20 && data.devId && (data.bizCode === "online" || data.bizCode === "offline")) {
+    return { type: data.bizCode, deviceId: data.devId, ts: new Date(data.ts ?? envelope.t ?? Date.now()) };
+  }
+  return null;
+}
+
+/**
+ * Build a Pulsar-format frame; used by the local stand-in so it exercises
+ * the same decode path as the real service.
+ */
+export function encodeFrame(msg: DeviceMessage, accessKey: string, messageId: string) {
+  const t = msg.ts.getTime();
+  const [protocol, data] = msg.type === "status"
+    ? [4, { devId: msg.deviceId, dataId: messageId, status: msg.status.map((dp) => ({ code: dp.code, value: dp.value, t: dp.t ?? t })) }]
+    : [20, { devId: msg.deviceId, bizCode: msg.type, ts: t }];
+  const envelope = { data: encrypt(JSON.stringify(data), accessKey), protocol, pv: "2.0", sign: "", t };
+  return {
+    messageId,
+    payload: Buffer.from(JSON.stringify(envelope)).toString("base64"),
+    properties: { em: "aes_gcm" },
+  };
+}
+
+// --- Pulsar source ---
+
+function defaultMqUrl(openApiUrl: string) {
+  // https://openapi.tuyain.com -> wss://mqe.tuyain.com:8285/
+  const host = openApiUrl.replace(/^https?:\/\//, "").replace(/\/.*$/, "").replace(/^openapi\./, "mqe.");
+  return `wss://${host}:8285/`;
+}
+
+export class PulsarMessageSource implements MessageSource {
+  readonly name = "pulsar";
+  private ws: WebSocket | null = null;
+  private stopped = false;
+  private connected = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelayMs = 1000;
+
+  constructor(
+    private readonly opts: { openApiUrl: string; accessId: string; accessKey: string; url?: string; env?: string }
+  ) {}
+
+  private url() {
+    const base = (this.opts.url || defaultMqUrl(this.opts.openApiUrl)).replace(/\/?$/, "/");
+    const env = this.opts.env || "event";
+    const id = this.opts.accessId;
+    return `${base}ws/v2/consumer/persistent/${id}/out/${env}/${id}-sub?ackTimeoutMillis=3000&subscriptionType=Failover`;
+  }
+
+  start(onMessage: (msg: DeviceMessage) => Promise<void>) {
+    this.stopped = false;
+    const ws = new WebSocket(this.url(), {
+      headers: {
+        username: this.opts.accessId,
+        password: pulsarPassword(this.opts.accessId, this.opts.accessKey),
+      },
+    });
+    this.ws = ws;
+
+    ws.on("open", () => {
+      this.connected = true;
+      this.reconnectDelayMs = 1000;
+      console.log("[MQ] Connected to Tuya message service");
+    });
+
+    ws.on("message", async (raw) => {
+      let frame: any;
+      try {
+        frame = JSON.parse(raw.toString());
+        const msg = decodeFrame(frame, this.opts.accessKey);
+        if (msg) await onMessage(msg);
+      } catch (e) {
+        console.error("[MQ] Failed to handle message:", e);
+      } finally {
+        // ack regardless so a poison message doesn't block the subscription
+        if (frame?.messageId) ws.send(JSON.stringify({ messageId: frame.messageId }));
+      }
+    });
+
+    ws.on("error", (e) => console.error("[MQ] WebSocket error:", e.message));
+
+    ws.on("close", () => {
+      this.connected = false;
+      if (this.stopped) return;
+      console.warn(`[MQ] Disconnected; reconnecting in ${this.reconnectDelayMs}ms`);
+      this.reconnectTimer = setTimeout(() => this.start(onMessage), this.reconnectDelayMs);
+      this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, 60_000);
+    });
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.ws?.close();
+    this.ws = null;
+    this.connected = false;
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+}
+
+// --- local stand-in ---
+
+/**
+ * In-process message source. Frames pushed with publish() go through the same
+ * encode -> decode/decrypt path as Pulsar frames.
+ */
+export class LocalMessageSource implements MessageSource {
+  readonly name = "local";
+  private readonly bus = new EventEmitter();
+  private readonly key = "local-standin-key-0123456789abcdef";
+  private seq = 0;
+  private running = false;
+
+  start(onMessage: (msg: DeviceMessage) => Promise<void>) {
+    this.running = true;
+    this.bus.on("frame", async (frame) => {
+      try {
+        const msg = decodeFrame(frame, this.key);
+        if (msg) await onMessage(msg);
+      } catch (e) {
+        console.error("[MQ] Failed to handle local message:", e);
+      }
+    });
+  }
+
+  stop() {
+    this.running = false;
+    this.bus.removeAllListeners("frame");
+  }
+
+  isConnected() {
+    return this.running;
+  }
+
+  publish(msg: DeviceMessage) {
+    this.bus.emit("frame", encodeFrame(msg, this.key, `local-${++this.seq}`));
+  }
+}
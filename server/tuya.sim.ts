@@ -0,0 +1,338 @@
+// server/tuya.sim.ts
+// In-process Tuya OpenAPI simulator, selected with TUYA_ENDPOINT=sim://
+// Serves the device list, status, logs and specifications endpoints from virtual devices
+// whose readings are a pure function of (device, time), so live status
+// and /logs history always agree.
+import fs from "fs";
+
+type LoadProfile = "constant" | "fridge" | "geyser" | "ac" | "tv";
+
+export type SimDeviceConfig = {
+  id: string;
+  name: string;
+  profile: LoadProfile;
+  baseW?: number;            // nominal power of the appliance
+  category?: string;         // Tuya category, default "cz" (smart plug)
+  productName?: string;
+  outageRate?: number;       // probability a 10-minute slot is offline
+  sagRate?: number;          // probability a 5-minute slot has a voltage sag
+  resetRate?: number;        // probability of an add_ele counter reset per day
+  counterMode?: "cumulative" | "incremental";
+};
+
+const DEFAULT_DEVICES: SimDeviceConfig[] = [
+  { id: "sim-fridge-01", name: "Kitchen Fridge", profile: "fridge", baseW: 140, sagRate: 0.02 },
+  { id: "sim-geyser-01", name: "Bathroom Geyser", profile: "geyser", baseW: 2000, resetRate: 0.1 },
+  { id: "sim-ac-01", name: "Bedroom AC", profile: "ac", baseW: 1400, outageRate: 0.01, sagRate: 0.05 },
+  { id: "sim-tv-01", name: "Living Room TV", profile: "tv", baseW: 90, outageRate: 0.03 },
+];
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STEP_MS = 60_000;                        // energy integration step
+const REPORT_INTERVAL_MS = 60_000;             // DP report cadence served by /logs
+// counters start here (default: a week before boot)
+const EPOCH = Date.parse(process.env.TUYA_SIM_EPOCH ?? "") || Date.now() - 7 * DAY_MS;
+
+// --- deterministic noise ---
+function hash01(...parts: Array<string | number>): number {
+  let h = 2166136261;
+  for (const ch of parts.join("|")) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 16777619);
+  }
+  h ^= h >>> 15; h = Math.imul(h, 0x2c1b3c6d);
+  h ^= h >>> 12; h = Math.imul(h, 0x297a2d39);
+  h ^= h >>> 15;
+  return (h >>> 0) / 4294967296;
+}
+
+const istHour = (t: number) => ((t + IST_OFFSET_MS) % DAY_MS) / 3_600_000;
+const inWindow = (h: number, from: number, to: number) => from <= to ? h >= from && h < to : h >= from || h < to;
+
+function isOnline(dev: SimDeviceConfig, t: number): boolean {
+  return hash01(dev.id, "outage", Math.floor(t / 600_000)) >= (dev.outageRate ?? 0);
+}
+
+function loadW(dev: SimDeviceConfig, t: number): number {
+  if (!isOnline(dev, t) || switchOff.has(dev.id)) return 0;
+  const base = dev.baseW ?? 100;
+  const h = istHour(t);
+  const jitter = 0.9 + 0.2 * hash01(dev.id, "jitter", Math.floor(t / 30_000));
+  switch (dev.profile) {
+    case "fridge": {
+      // compressor runs ~15 min out of every 40
+      const phase = ((t / 60_000) + hash01(dev.id, "phase") * 40) % 40;
+      return phase < 15 ? base * jitter : 2;
+    }
+    case "geyser":
+      return inWindow(h, 6.5, 7.5) || inWindow(h, 19, 19.5) ? base * jitter : 0;
+    case "ac":
+      if (inWindow(h, 22, 6) || inWindow(h, 13, 17)) {
+        // inverter modulation between 55% and 100%
+        return base * (0.55 + 0.45 * hash01(dev.id, "mod", Math.floor(t / 300_000))) * jitter;
+      }
+      return 3;
+    case "tv":
+      return inWindow(h, 19, 23) ? base * jitter : 0.5;
+    default:
+      return base * jitter;
+  }
+}
+
+function voltageV(dev: SimDeviceConfig, t: number): number {
+  const sag = hash01(dev.id, "sag", Math.floor(t / 300_000)) < (dev.sagRate ?? 0);
+  const nominal = sag ? 185 : 232;
+  return nominal + (hash01(dev.id, "volt", Math.floor(t / 10_000)) - 0.5) * 8;
+}
+
+function powerFactor(dev: SimDeviceConfig): number {
+  return dev.profile === "geyser" ? 0.99 : dev.profile === "fridge" ? 0.82 : dev.profile === "ac" ? 0.9 : 0.95;
+}
+
+// Counter reset instants: at most one per IST day, at a hashed time of day
+function lastResetBefore(dev: SimDeviceConfig, t: number): number {
+  const rate = dev.resetRate ?? 0;
+  for (let day = Math.floor((t + IST_OFFSET_MS) / DAY_MS); day * DAY_MS - IST_OFFSET_MS >= EPOCH - DAY_MS; day--) {
+    if (rate > 0 && hash01(dev.id, "reset", day) < rate) {
+      const at = day * DAY_MS - IST_OFFSET_MS + Math.floor(hash01(dev.id, "reset-at", day) * DAY_MS);
+      if (at <= t && at >= EPOCH) return at;
+    }
+  }
+  return EPOCH;
+}
+
+function integrate(dev: SimDeviceConfig, from: number, to: number, kwh: number): { t: number; kwh: number } {
+  let s = from;
+  for (; s + STEP_MS <= to; s += STEP_MS) {
+    kwh += (loadW(dev, s) * STEP_MS) / 3_600_000 / 1000;
+  }
+  return { t: s, kwh };
+}
+
+// Memoised integration so repeated status reads only integrate the new minutes
+const counterMemo = new Map<string, { anchor: number; t: number; kwh: number }>();
+
+function counterKwh(dev: SimDeviceConfig, t: number): number {
+  const anchor = lastResetBefore(dev, t);
+  const memo = counterMemo.get(dev.id);
+  const resume = memo && memo.anchor === anchor && memo.t <= t;
+  const next = integrate(dev, resume ? memo!.t : anchor, t, resume ? memo!.kwh : 0);
+  // historical reads must not rewind the live memo
+  if (!memo || resume || memo.t < next.t) counterMemo.set(dev.id, { anchor, ...next });
+  return next.kwh;
+}
+
+function addEleValue(dev: SimDeviceConfig, t: number, kwh?: number): number {
+  if (dev.counterMode === "incremental") {
+    // energy of the last integration step only
+    return Math.round(((loadW(dev, t - STEP_MS) * STEP_MS) / 3_600_000 / 1000) * 100);
+  }
+  return Math.round((kwh ?? counterKwh(dev, t)) * 100);
+}
+
+function statusAt(dev: SimDeviceConfig, t: number, kwh?: number) {
+  const p = loadW(dev, t);
+  const v = voltageV(dev, t);
+  const pf = powerFactor(dev);
+  const a = p > 0 ? p / (v * pf) : 0;
+  return [
+    { code: "switch_1", value: !switchOff.has(dev.id) },
+    { code: "countdown_1", value: 0 },
+    { code: "add_ele", value: addEleValue(dev, t, kwh) },     // 0.01 kWh
+    { code: "cur_current", value: Math.round(a * 1000) },     // mA
+    { code: "cur_power", value: Math.round(p * 10) },         // 0.1 W
+    { code: "cur_voltage", value: Math.round(v * 10) },       // 0.1 V
+  ];
+}
+
+// Specification matching the encodings above, shaped like GET /v1.0/devices/{id}/specifications
+function specification() {
+  const int = (code: string, unit: string, max: number, scale: number) =>
+    ({ code, type: "Integer", values: JSON.stringify({ unit, min: 0, max, scale, step: 1 }) });
+  return {
+    category: "cz",
+    functions: [
+      { code: "switch_1", type: "Boolean", values: "{}" },
+      int("countdown_1", "s", 86400, 0),
+    ],
+    status: [
+      { code: "switch_1", type: "Boolean", values: "{}" },
+      int("countdown_1", "s", 86400, 0),
+      int("add_ele", "kW·h", 50000000, 2),
+      int("cur_current", "mA", 30000, 0),
+      int("cur_power", "W", 50000, 1),
+      int("cur_voltage", "V", 5000, 1),
+    ],
+  };
+}
+
+// --- device registry ---
+const switchOff = new Set<string>();
+
+function loadDevices(): SimDeviceConfig[] {
+  const file = process.env.TUYA_SIM_DEVICES;
+  if (!file) return DEFAULT_DEVICES;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    const list: SimDeviceConfig[] = Array.isArray(parsed) ? parsed : parsed.devices;
+    if (!Array.isArray(list) || list.length === 0) throw new Error("no devices in file");
+    return list;
+  } catch (e: any) {
+    console.warn(`[TUYA-SIM] Could not read ${file} (${e?.message}); using default devices`);
+    return DEFAULT_DEVICES;
+  }
+}
+
+function deviceJson(dev: SimDeviceConfig, t: number) {
+  return {
+    id: dev.id,
+    name: dev.name,
+    category: dev.category ?? "cz",
+    category_name: "Socket",
+    product_name: dev.productName ?? `Simulated ${dev.profile} plug`,
+    product_id: `sim-${dev.profile}`,
+    online: isOnline(dev, t),
+    status: statusAt(dev, t),
+    active_time: Math.floor(EPOCH / 1000),
+    update_time: Math.floor(t / 1000),
+    time_zone: "+05:30",
+    uid: "sim-user",
+  };
+}
+
+// --- request router ---
+type SimRequest = { path: string; method: string; query?: Record<string, any>; body?: Record<string, any> };
+
+const ok = (result: any) => ({ success: true, code: 0, result, t: Date.now(), tid: "sim" });
+const fail = (code: number, msg: string) => ({ success: false, code, msg, t: Date.now(), tid: "sim" });
+
+export function createSimulatedTuya() {
+  const devices = loadDevices();
+  const byId = new Map(devices.map((d) => [d.id, d]));
+  console.log(`[TUYA-SIM] Simulator active with ${devices.length} virtual device(s)`);
+
+  function listDevices(query: Record<string, any>) {
+    const pageSize = Number(query.page_size ?? query.size ?? 20);
+    const offset = query.last_row_key != null
+      ? Number(query.last_row_key)
+      : (Number(query.page_no ?? 1) - 1) * pageSize;
+    const t = Date.now();
+    const page = devices.slice(offset, offset + pageSize).map((d) => deviceJson(d, t));
+    const hasMore = offset + pageSize < devices.length;
+    return ok({
+      devices: page,
+      total: devices.length,
+      has_more: hasMore,
+      last_row_key: hasMore ? String(offset + pageSize) : undefined,
+    });
+  }
+
+  function logs(dev: SimDeviceConfig, query: Record<string, any>) {
+    const end = Math.min(Number(query.end_time ?? Date.now()), Date.now());
+    const start = Math.max(Number(query.start_time ?? end - DAY_MS), EPOCH);
+    const size = Math.min(Number(query.size ?? 20), 100);
+    const skip = Number(query.start_row_key ?? 0);
+
+    // newest first, one report of every electrical DP per interval while online
+    const perReport = 4;
+    const slots: number[] = [];
+    for (let ts = end - (end % REPORT_INTERVAL_MS); ts >= start && slots.length * perReport < skip + size; ts -= REPORT_INTERVAL_MS) {
+      if (isOnline(dev, ts)) slots.push(ts);
+    }
+
+    // integrate the counter forward once instead of per report
+    const kwhAt = new Map<number, number>();
+    let anchor = -1, acc = { t: 0, kwh: 0 };
+    for (const ts of [...slots].reverse()) {
+      const a = lastResetBefore(dev, ts);
+      if (a !== anchor) { anchor = a; acc = { t: a, kwh: 0 }; }
+      acc = integrate(dev, acc.t, ts, acc.kwh);
+      kwhAt.set(ts, acc.kwh);
+    }
+
+    const all = slots.flatMap((ts) => {
+      const dps = statusAt(dev, ts, kwhAt.get(ts));
+      return dps
+        .filter((dp) => dp.code !== "switch_1" && dp.code !== "countdown_1")
+        .map((dp) => ({ code: dp.code, value: String(dp.value), event_time: ts, event_from: "1", event_id: 7 }));
+    });
+    const out = all.slice(skip, skip + size);
+    const hasNext = all.length > skip + size || (out.length === size && slots.length > 0 && slots[slots.length - 1] - REPORT_INTERVAL_MS >= start);
+    return ok({
+      logs: out,
+      has_next: hasNext,
+      device_id: dev.id,
+      next_row_key: hasNext ? String(skip + out.length) : undefined,
+    });
+  }
+
+  async function request(opts: SimRequest): Promise<any> {
+    const [path] = opts.path.split("?");
+    const query = opts.query ?? {};
+
+    if (path.endsWith("/associated-users/devices")) return listDevices(query);
+
+    const m = path.match(/\/devices\/([^/]+)\/(status|logs|commands|specifications)$/);
+    if (!m) return fail(1108, `uri path invalid (simulator does not serve ${path})`);
+    const dev = byId.get(m[1]);
+    if (!dev) return fail(2001, "device is offline or not exist");
+
+    if (m[2] === "status") return ok(statusAt(dev, Date.now()));
+    if (m[2] === "logs") return logs(dev, query);
+    if (m[2] === "specifications") return ok(specification());
+
+    // commands: only switch_1 is meaningful for a plug
+    for (const cmd of (opts.body?.commands ?? []) as Array<{ code: string; value: any }>) {
+      if (cmd.code === "switch_1") {
+        if (cmd.value) switchOff.delete(dev.id); else switchOff.add(dev.id);
+      }
+    }
+    return ok(true);
+  }
+
+  return {
+    request,
+    client: {
+      init: async () => ok({ access_token: "sim", refresh_token: "sim", expire_time: 7200, uid: "sim-user" }),
+      refreshToken: async () => ok({ access_token: "sim", refresh_token: "sim", expire_time: 7200, uid: "sim-user" }),
+    },
+  };
+}
+
+/**
+ * Push-style reports from the virtual devices, shaped like Tuya message
+ * service events: changed DPs only, plus online/offline transitions.
+ * Returns an unsubscribe function.
+ */
+export function subscribeSimReports(
+  onReport: (report: { deviceId: string; ts: Date } & ({ type: "status"; status: Array<{ code: string; value: any; t: number }> } | { type: "online" | "offline" })) => void,
+  intervalMs = 10_000
+): () => void {
+  const devices = loadDevices();
+  const lastValues = new Map<string, Map<string, any>>();
+  const lastOnline = new Map<string, boolean>();
+
+  const tick = () => {
+    const t = Date.now();
+    for (const dev of devices) {
+      const online = isOnline(dev, t);
+      if (lastOnline.has(dev.id) && lastOnline.get(dev.id) !== online) {
+        onReport({ type: online ? "online" : "offline", deviceId: dev.id, ts: new Date(t) });
+      }
+      lastOnline.set(dev.id, online);
+      if (!online) continue;
+
+      const prev = lastValues.get(dev.id) ?? new Map<string, any>();
+      const changed = statusAt(dev, t)
+        .filter((dp) => prev.get(dp.code) !== dp.value)
+        .map((dp) => ({ ...dp, t }));
+      changed.forEach((dp) => prev.set(dp.code, dp.value));
+      lastValues.set(dev.id, prev);
+      if (changed.length > 0) onReport({ type: "status", deviceId: dev.id, status: changed, ts: new Date(t) });
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
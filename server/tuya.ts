@@ -1,18 +1,99 @@
 // server/tuya.ts
+// One TuyaContext per Tuya cloud project ("account"). The account configured
+// through TUYA_* env vars is always "default"; more live in the TuyaAccount
+// table (e.g. a second Smart Life account in another data center).
+import { AsyncLocalStorage } from "async_hooks";
 import { TuyaContext } from "@tuya/tuya-connector-nodejs";
-import { getPollerSettings } from "./storage.poller";
+import { PrismaClient } from "@prisma/client";
+import { getEffectivePollerSettings } from "./storage.poller";
 import { noteTuyaCall, type TuyaCallKind } from "./storage.tuyaCounters";
+import { guardFor } from "./tuya.guard";
+import { createSimulatedTuya } from "./tuya.sim";
+import { decryptSecret } from "./secrets";
+
+const prisma = new PrismaClient();
 
 const baseUrl = process.env.TUYA_ENDPOINT || "https://openapi.tuyain.com";
 const accessKey = process.env.TUYA_ACCESS_ID || "";
 const secretKey = process.env.TUYA_ACCESS_SECRET || "";
 
-// Validate required environment variables
-if (!accessKey || !secretKey) {
-  console.warn("[WARN] Missing Tuya ENV: TUYA_ACCESS_ID, TUYA_ACCESS_SECRET");
+// TUYA_ENDPOINT=sim:// swaps in the local OpenAPI simulator (no credentials needed)
+export const isSimulated = baseUrl.startsWith("sim://");
+
+export const DEFAULT_ACCOUNT_ID = "default";
+
+const ACCOUNTS_MAX_AGE_MS = 60_000;
+
+export type TuyaAccountConfig = {
+  id: string;
+  name: string;
+  endpoint: string;
+  accessId: string;
+  secret: string;
+};
+
+const envAccount: TuyaAccountConfig | null = isSimulated || (accessKey && secretKey)
+  ? { id: DEFAULT_ACCOUNT_ID, name: "Default", endpoint: baseUrl, accessId: accessKey, secret: secretKey }
+  : null;
+
+let accountsCache: { at: number; accounts: TuyaAccountConfig[] } | null = null;
+let warnedNoAccounts = false;
+
+/**
+ * Every active account: the env-configured one (if set) followed by the TuyaAccount rows.
+ */
+export async function getTuyaAccounts(): Promise<TuyaAccountConfig[]> {
+  if (accountsCache && Date.now() - accountsCache.at < ACCOUNTS_MAX_AGE_MS) return accountsCache.accounts;
+
+  const accounts: TuyaAccountConfig[] = envAccount ? [envAccount] : [];
+  const rows = await prisma.tuyaAccount.findMany({ where: { isActive: true }, orderBy: { createdAt: "asc" } });
+  for (const row of rows) {
+    try {
+      accounts.push({ id: row.id, name: row.name, endpoint: row.endpoint, accessId: row.accessId, secret: decryptSecret(row.secretEnc) });
+    } catch (e: any) {
+      console.warn(`[TUYA] Skipping account ${row.id}: ${e?.message || e}`);
+    }
+  }
+
+  if (accounts.length === 0 && !warnedNoAccounts) {
+    console.warn("[WARN] No Tuya accounts: set TUYA_ACCESS_ID / TUYA_ACCESS_SECRET or add one at /api/tuya/accounts");
+    warnedNoAccounts = true;
+  }
+  accountsCache = { at: Date.now(), accounts };
+  return accounts;
+}
+
+/**
+ * Forget cached accounts and clients (after an account is added, edited or removed).
+ */
+export function clearTuyaAccountCache() {
+  accountsCache = null;
+  clients.clear();
+}
+
+// Feature a Tuya call is made for, for the per-caller breakdown. "api" is any
+// other HTTP request; "other" is anything outside a caller context.
+export type TuyaCaller =
+  | "poller" | "dashboard" | "ask" | "debug" | "backfill" | "automation"
+  | "commands" | "realtime" | "accounts" | "dp-scales" | "api" | "other";
+
+export const TUYA_CALLERS: TuyaCaller[] = [
+  "poller", "dashboard", "ask", "debug", "backfill", "automation",
+  "commands", "realtime", "accounts", "dp-scales", "api", "other",
+];
+
+const callerContext = new AsyncLocalStorage<TuyaCaller>();
+
+/**
+ * Run fn (and everything it awaits or starts) with Tuya calls attributed to caller.
+ */
+export function withTuyaCaller<T>(caller: TuyaCaller, fn: () => T): T {
+  return callerContext.run(caller, fn);
 }
 
-export const tuya = new TuyaContext({ baseUrl, accessKey, secretKey });
+export function currentTuyaCaller(): TuyaCaller {
+  return callerContext.getStore() ?? "other";
+}
 
 // Map path -> kind for per-endpoint breakdown
 function classify(path: string): TuyaCallKind {
@@ -22,34 +103,86 @@ function classify(path: string): TuyaCallKind {
   return "other";
 }
 
-// Patch request() to count pings and enforce master kill switch
-const _request = tuya.request.bind(tuya);
-tuya.request = async (opts: any) => {
-  // Check master kill switch before any Tuya API call
-  const settings = await getPollerSettings();
-  if (settings.masterKillSwitch) {
-    console.log("[TUYA] Request blocked by master kill switch:", opts.path);
-    // Return empty success response when kill switch is enabled
-    return {
-      success: true,
-      result: null,
-      t: Date.now(),
-      masterKillSwitchEnabled: true
-    } as any;
-  }
+/**
+ * Build a context for one account and patch request() to count pings per
+ * account, enforce the master kill switch and apply that account's rate
+ * limiting / retries / circuit breaking (see tuya.guard.ts).
+ */
+function createClient(account: TuyaAccountConfig): TuyaContext {
+  const client: TuyaContext = account.endpoint.startsWith("sim://")
+    ? (createSimulatedTuya() as unknown as TuyaContext)
+    : new TuyaContext({ baseUrl: account.endpoint, accessKey: account.accessId, secretKey: account.secret });
+
+  const guard = guardFor(account.id);
+  const _request = client.request.bind(client);
+  client.request = async (opts: any) => {
+    // Check master kill switch before any Tuya API call
+    const settings = await getEffectivePollerSettings();
+    if (settings.masterKillSwitch) {
+      console.log("[TUYA] Request blocked by master kill switch:", opts.path);
+      // Return empty success response when kill switch is enabled
+      return {
+        success: true,
+        result: null,
+        t: Date.now(),
+        masterKillSwitchEnabled: true
+      } as any;
+    }
+
+    const path = typeof opts?.path === "string" ? opts.path : "";
+    const kind = classify(path);
+    const caller = currentTuyaCaller();
+    return guard.request(
+      () => _request(opts),
+      () => client.client.init(),
+      // every attempt (including retries) is a billable call
+      () => { noteTuyaCall(kind, account.id, caller).catch(() => {}); },
+      String(opts?.method ?? "GET").toUpperCase() !== "POST"
+    );
+  };
+  return client;
+}
+
+const clients = new Map<string, TuyaContext>();
+
+/**
+ * The (cached) client for an account. Throws if the account is unknown or inactive.
+ */
+export async function getTuyaClient(accountId: string = DEFAULT_ACCOUNT_ID): Promise<TuyaContext> {
+  const cached = clients.get(accountId);
+  if (cached) return cached;
 
-  const path = typeof opts?.path === "string" ? opts.path : "";
-  const kind = classify(path);
-  try {
-    const res = await _request(opts);
-    // count only successful calls (or move this before await to count attempts)
-    noteTuyaCall(kind).catch(() => {});
-    return res;
-  } catch (err) {
-    // still count as an attempt, if you prefer:
-    noteTuyaCall(kind).catch(() => {});
-    throw err;
+  const account = (await getTuyaAccounts()).find((a) => a.id === accountId);
+  if (!account) throw new Error(`Unknown or inactive Tuya account '${accountId}'`);
+  const client = createClient(account);
+  clients.set(accountId, client);
+  return client;
+}
+
+// deviceId -> accountId, filled by discovery so per-device calls skip the DB
+const deviceAccounts = new Map<string, string>();
+
+export function rememberDeviceAccount(deviceId: string, accountId: string) {
+  deviceAccounts.set(deviceId, accountId);
+}
+
+/**
+ * The client for the account a device belongs to (falls back to the first account).
+ */
+export async function tuyaForDevice(deviceId: string): Promise<TuyaContext> {
+  let accountId = deviceAccounts.get(deviceId);
+  if (!accountId) {
+    const row = await prisma.device.findUnique({ where: { deviceId }, select: { accountId: true } });
+    accountId = row?.accountId ?? undefined;
+    if (accountId) deviceAccounts.set(deviceId, accountId);
   }
-};
+  if (!accountId) {
+    const [first] = await getTuyaAccounts();
+    if (!first) throw new Error("No Tuya account configured");
+    accountId = first.id;
+  }
+  return getTuyaClient(accountId);
+}
 
-export { baseUrl };
\ No newline at end of file
+export { baseUrl };
+export { TuyaUnavailableError } from "./tuya.guard";
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { pgTable, varchar, text, timestamp, serial, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, timestamp, serial, boolean, integer, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 
 // Tuya device schema
@@ -51,6 +51,17 @@ export const deviceSettings = pgTable("device_settings", {
   deviceId: varchar("device_id", { length: 255 }).notNull().unique(),
   deviceName: varchar("device_name", { length: 255 }).notNull(),
   dataStorageEnabled: boolean("data_storage_enabled").notNull().default(true),
+  // Polling cadence: "global" uses poller_settings, "custom" the intervals below,
+  // "adaptive" speeds up while power is high/changing and backs off when idle/offline
+  pollMode: text("poll_mode").notNull().default("global"),
+  healthIntervalMs: integer("health_interval_ms"), // null = global interval
+  energyIntervalMs: integer("energy_interval_ms"), // null = global interval
+  adaptiveFastMs: integer("adaptive_fast_ms"),
+  adaptiveSlowMs: integer("adaptive_slow_ms"),
+  adaptivePowerThresholdW: integer("adaptive_power_threshold_w"),
+  controlAllowed: boolean("control_allowed").notNull().default(false), // allow on/off commands from this app
+  // How add_ele counts: "cumulative" (a counter, may reset) or "incremental" (energy since the last report)
+  energyCounterMode: text("energy_counter_mode").notNull().default("cumulative"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -60,9 +71,23 @@ export const insertDeviceSettingsSchema = createInsertSchema(deviceSettings).omi
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  pollMode: z.enum(["global", "custom", "adaptive"]).optional(),
+  energyCounterMode: z.enum(["cumulative", "incremental"]).optional(),
 });
 
 // Poller settings schema for global polling configuration
+// A recurring IST time window during which health or energy polling is paused,
+// or the master kill switch is engaged. end < start crosses midnight; start == end
+// is the whole day. days are IST weekdays (0 = Sunday); omitted = every day.
+export type QuietWindow = {
+  target: "health" | "energy" | "killSwitch";
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM"
+  days?: number[];
+  label?: string;
+};
+
 export const pollerSettings = pgTable("poller_settings", {
   id: text("id").primaryKey().$default(() => "singleton"),
   energyEnabled: boolean("energy_enabled").notNull().default(true),
@@ -72,6 +97,10 @@ export const pollerSettings = pgTable("poller_settings", {
   dashboardRefreshEnabled: boolean("dashboard_refresh_enabled").notNull().default(true),
   dashboardRefreshMs: integer("dashboard_refresh_ms").notNull().default(10000), // 10 s
   masterKillSwitch: boolean("master_kill_switch").notNull().default(false), // Master switch to disable all Tuya traffic
+  callsPerHourBudget: integer("calls_per_hour_budget").notNull().default(0), // Poller's Tuya calls per hour, 0 = unlimited
+  monthlyCallQuota: integer("monthly_call_quota").notNull().default(0), // Tuya plan's calls per calendar month (UTC), 0 = no quota
+  quotaAction: text("quota_action").notNull().default("stretch"), // 'stretch' | 'warn' | 'off' when the projection exceeds the quota
+  quietWindows: jsonb("quiet_windows").$type<QuietWindow[]>().notNull().default([]), // scheduled pauses / kill switch (IST)
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
 });
 
@@ -93,6 +122,25 @@ export const tuyaCounters = pgTable("tuya_counters", {
   lastPingAt: timestamp("last_ping_at", { withTimezone: true }),
 });
 
+// Tuya calls per UTC hour and UTC day, for the same rows as tuya_counters
+export const tuyaCounterBuckets = pgTable("tuya_counter_buckets", {
+  counterId: text("counter_id").notNull(), // "singleton" or an account id
+  granularity: text("granularity").notNull(), // 'hour' | 'day'
+  bucketStart: timestamp("bucket_start", { withTimezone: true }).notNull(),
+  calls: integer("calls").notNull().default(0),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.counterId, t.granularity, t.bucketStart] }),
+}));
+
+// Tuya calls per UTC day and caller (poller, dashboard, ask, ...), installation-wide
+export const tuyaCallerCounts = pgTable("tuya_caller_counts", {
+  day: timestamp("day", { withTimezone: true }).notNull(),
+  caller: text("caller").notNull(),
+  calls: integer("calls").notNull().default(0),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.day, t.caller] }),
+}));
+
 // Types
 export type DeviceSpec = typeof deviceSpecs.$inferSelect;
 export type InsertDeviceSpec = z.infer<typeof insertDeviceSpecSchema>;
@@ -101,3 +149,5 @@ export type InsertDeviceSettings = z.infer<typeof insertDeviceSettingsSchema>;
 export type PollerSettings = typeof pollerSettings.$inferSelect;
 export type InsertPollerSettings = z.infer<typeof insertPollerSettingsSchema>;
 export type TuyaCounters = typeof tuyaCounters.$inferSelect;
+export type TuyaCallerCount = typeof tuyaCallerCounts.$inferSelect;
+export type TuyaCounterBucket = typeof tuyaCounterBuckets.$inferSelect;